@@ -1,16 +1,56 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { marked } from 'marked';
-import DOMPurify from 'dompurify';
+import type { ChangeSet } from '@codemirror/state';
 
 import { FILE_NAMES, INITIAL_FILE_CONTENTS } from './constants';
 import Header from './components/Header';
 import Editor from './components/Editor';
-import Preview from './components/Preview';
+import Preview, { PreviewHandle } from './components/Preview';
 import PdfModal from './components/PdfModal';
+import PdfPane from './components/PdfPane';
 import FileTabs from './components/FileTabs';
 import Toolbar from './components/Toolbar';
+import ProblemsPanel from './components/ProblemsPanel';
+import ExportProjectDialog from './components/ExportProjectDialog';
+import ImportProjectDialog, { ImportMode } from './components/ImportProjectDialog';
+import NewProjectDialog from './components/NewProjectDialog';
+import SnapshotsPanel from './components/SnapshotsPanel';
+import SearchPanel from './components/SearchPanel';
+import OutlinePanel from './components/OutlinePanel';
+import ConformancePanel from './components/ConformancePanel';
+import TableDialog from './components/TableDialog';
+import FigureDialog from './components/FigureDialog';
+import CommandPalette from './components/CommandPalette';
+import KeybindingsDialog from './components/KeybindingsDialog';
+import { loadWorkspace, PreviewPane, saveWorkspace } from './lib/workspaceStorage';
+import { createHistory, DEFAULT_HISTORY_DEPTH, HistoryState, newEditGroup, recordEdit, redoProjectEdit, undoProjectEdit } from './lib/editHistory';
+import { getFileKind, isProtectedFile, moveItem, ProjectFile, validateFileName } from './lib/projectFiles';
+import { BibEntry, parseBibtex } from './lib/bibtex';
+import { renderMarkdownPreview } from './lib/markdownPreview';
+import { lineStartOffset, SyncPosition } from './lib/scrollSync';
+import type { CompilePdfPayload } from './api/compilePdf';
+import { CompileProblem, mapProblemLines } from './lib/latexLog';
+import { ImportedProject, readProjectArchive } from './lib/projectArchive';
+import { ConfigMigration, DEFAULT_TEMPLATE_ID, getTemplate, TemplateId } from './lib/templates';
+import type { Snapshot } from './lib/snapshots';
+import { replaceInContent, SearchMatch, SearchOptions } from './lib/projectSearch';
+import { buildOutline, headingAtLine, moveSection, OutlineHeading } from './lib/documentOutline';
+import { detectLanguage } from './lib/documentText';
+import type { SpellCheckOptions } from './lib/spellLint';
+import { findTableAt, placeBlock, TableAtCursor } from './lib/floatBlocks';
+import { Command, commandForKey, commandRegistry, CommandRegistry, eventToKey, IS_MAC, KeybindingOverrides } from './lib/commands';
 
-type HistoryState = { past: string[]; present: string; future: string[] };
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+/**
+ * Intervalo de inatividade antes de gravar o workspace no IndexedDB.
+ */
+const AUTOSAVE_DELAY_MS = 800;
+
+/**
+ * Tempo em que eventos do editor são ignorados após um clique no preview, para evitar que a
+ * rolagem provocada no editor devolva o preview a outra posição.
+ */
+const SYNC_LOCK_MS = 400;
 
 type FormatAction =
   | 'bold'
@@ -26,12 +66,31 @@ type FormatAction =
   | 'ol'
   | 'hr';
 
+/** Títulos das ações da toolbar na paleta de comandos. */
+const FORMAT_TITLES: Record<FormatAction, string> = {
+  bold: 'Negrito',
+  italic: 'Itálico',
+  h1: 'Título 1',
+  h2: 'Título 2',
+  h3: 'Título 3',
+  quote: 'Citação',
+  code: 'Código',
+  link: 'Link',
+  image: 'Imagem',
+  ul: 'Lista com marcadores',
+  ol: 'Lista numerada',
+  hr: 'Linha horizontal',
+};
+
+/** Atalhos padrão das ações da toolbar; Mod-i fica livre porque o editor o usa para selecionar o nó sintático pai. */
+const FORMAT_KEYS: Partial<Record<FormatAction, string[]>> = { bold: ['Mod-b'], link: ['Mod-k'] };
+
 /**
- * Inicializa o estado de histórico para cada arquivo conhecido.
+ * Inicializa o estado de histórico para cada arquivo conhecido, com o conteúdo inicial do modelo.
  */
-function initHistories(): Record<string, HistoryState> {
+function initHistories(starterFiles: Record<string, string> = INITIAL_FILE_CONTENTS): Record<string, HistoryState> {
   return FILE_NAMES.reduce((acc, fileName) => {
-    acc[fileName] = { past: [], present: INITIAL_FILE_CONTENTS[fileName], future: [] };
+    acc[fileName] = createHistory(starterFiles[fileName] ?? '');
     return acc;
   }, {} as Record<string, HistoryState>);
 }
@@ -40,21 +99,67 @@ function initHistories(): Record<string, HistoryState> {
  * Componente principal do editor com editor, preview, abas, toolbar e geração de PDF via modal.
  */
 export default function App() {
+  const [templateId, setTemplateId] = useState<TemplateId>(DEFAULT_TEMPLATE_ID);
   const [history, setHistory] = useState<Record<string, HistoryState>>(initHistories);
+  const [files, setFiles] = useState<string[]>(FILE_NAMES);
   const [activeFile, setActiveFile] = useState<string>(FILE_NAMES[0]);
   const [isDarkMode, setIsDarkMode] = useState<boolean>(false);
+  const [historyDepth, setHistoryDepth] = useState<number>(DEFAULT_HISTORY_DEPTH);
   const [isPreviewVisible, setIsPreviewVisible] = useState<boolean>(true);
-  const [isGeneratingPdf] = useState<boolean>(false);
+  const [previewPane, setPreviewPane] = useState<PreviewPane>('html');
+  const [autoCompileDelayMs, setAutoCompileDelayMs] = useState<number>(2000);
+  const [isScrollSyncEnabled, setIsScrollSyncEnabled] = useState<boolean>(true);
+  const [isGeneratingPdf, setIsGeneratingPdf] = useState<boolean>(false);
   const [isPdfOpen, setIsPdfOpen] = useState<boolean>(false);
+  const [isRestoring, setIsRestoring] = useState<boolean>(true);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const [compileProblems, setCompileProblems] = useState<CompileProblem[]>([]);
+  const [isExportOpen, setIsExportOpen] = useState<boolean>(false);
+  const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState<boolean>(false);
+  const [isSnapshotsOpen, setIsSnapshotsOpen] = useState<boolean>(false);
+  const [isSearchOpen, setIsSearchOpen] = useState<boolean>(false);
+  const [isOutlineVisible, setIsOutlineVisible] = useState<boolean>(false);
+  const [isSpellCheckEnabled, setIsSpellCheckEnabled] = useState<boolean>(true);
+  const [projectDictionary, setProjectDictionary] = useState<string[]>([]);
+  const [spellCheckError, setSpellCheckError] = useState<string | null>(null);
+  const [isConformanceOpen, setIsConformanceOpen] = useState<boolean>(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState<boolean>(false);
+  const [isKeybindingsOpen, setIsKeybindingsOpen] = useState<boolean>(false);
+  const [keybindings, setKeybindings] = useState<KeybindingOverrides>({});
+  const [cursorLine, setCursorLine] = useState<number>(1);
+  const [tableDialog, setTableDialog] = useState<Partial<TableAtCursor> & { from: number; to: number } | null>(null);
+  const [figureRange, setFigureRange] = useState<{ from: number; to: number } | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ project: ImportedProject | null; error: string | null } | null>(null);
 
-  const previewRef = useRef<HTMLDivElement>(null);
+  const previewRef = useRef<PreviewHandle>(null);
   const editorRef = useRef<HTMLTextAreaElement>(null);
+  const syncLockUntilRef = useRef<number>(0);
 
-  const isMarkdownActive = activeFile === 'Index.md';
+  const template = getTemplate(templateId);
+  const isMarkdownActive = getFileKind(activeFile) === 'markdown';
   const currentContent = history[activeFile]?.present ?? '';
   const canUndo = (history[activeFile]?.past.length ?? 0) > 0;
   const canRedo = (history[activeFile]?.future.length ?? 0) > 0;
 
+  /**
+   * Conteúdo concatenado de todos os .bib do projeto; só muda quando algum deles é editado.
+   */
+  const bibSource = useMemo(
+    () => files.filter(f => getFileKind(f) === 'bibtex').map(f => history[f]?.present ?? '').join('\n'),
+    [files, history]
+  );
+
+  /**
+   * Entradas BibTeX do projeto (sem chaves repetidas), usadas no autocompletar e no preview das citações.
+   */
+  const bibEntries = useMemo<BibEntry[]>(() => {
+    const byKey = new Map<string, BibEntry>();
+    for (const entry of parseBibtex(bibSource).entries) {
+      if (!byKey.has(entry.key)) byKey.set(entry.key, entry);
+    }
+    return [...byKey.values()];
+  }, [bibSource]);
+
   /**
    * Alterna a classe global de tema escuro.
    */
@@ -65,94 +170,159 @@ export default function App() {
   }, [isDarkMode]);
 
   /**
-   * Registra alterações de conteúdo no histórico do arquivo ativo.
+   * Restaura o workspace salvo no IndexedDB ao iniciar a aplicação.
    */
-  const recordChange = useCallback((newContent: string, fromUndoRedo = false) => {
-    if (fromUndoRedo) {
-      setHistory(prev => ({
-        ...prev,
-        [activeFile]: { ...prev[activeFile], present: newContent },
-      }));
-      return;
-    }
+  useEffect(() => {
+    let cancelled = false;
+    loadWorkspace()
+      .then((saved) => {
+        if (cancelled || !saved) return;
+        const histories = { ...initHistories(getTemplate(saved.templateId).starterFiles), ...saved.histories };
+        setTemplateId(saved.templateId);
+        setHistory(histories);
+        setFiles([...saved.files, ...FILE_NAMES.filter((f) => !saved.files.includes(f))]);
+        setActiveFile(histories[saved.activeFile] ? saved.activeFile : FILE_NAMES[0]);
+        setIsPreviewVisible(saved.isPreviewVisible);
+        setPreviewPane(saved.previewPane);
+        setAutoCompileDelayMs(saved.autoCompileDelayMs);
+        setIsScrollSyncEnabled(saved.isScrollSyncEnabled);
+        setIsDarkMode(saved.isDarkMode);
+        setHistoryDepth(saved.historyDepth);
+        setIsOutlineVisible(saved.isOutlineVisible);
+        setIsSpellCheckEnabled(saved.isSpellCheckEnabled);
+        setProjectDictionary(saved.projectDictionary);
+        setKeybindings(saved.keybindings);
+      })
+      .catch(() => { if (!cancelled) setSaveStatus('error'); })
+      .finally(() => { if (!cancelled) setIsRestoring(false); });
+    return () => { cancelled = true; };
+  }, []);
+
+  /**
+   * Salva automaticamente o workspace após um curto período sem alterações.
+   */
+  useEffect(() => {
+    if (isRestoring) return;
+    const timer = window.setTimeout(() => {
+      setSaveStatus('saving');
+      saveWorkspace({
+        templateId, files, histories: history, activeFile, isPreviewVisible, previewPane, autoCompileDelayMs, isScrollSyncEnabled, isDarkMode, historyDepth, isOutlineVisible,
+        isSpellCheckEnabled, projectDictionary, keybindings,
+      })
+        .then(() => setSaveStatus('saved'))
+        .catch(() => setSaveStatus('error'));
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [isRestoring, templateId, files, history, activeFile, isPreviewVisible, previewPane, autoCompileDelayMs, isScrollSyncEnabled, isDarkMode, historyDepth, isOutlineVisible, isSpellCheckEnabled, projectDictionary, keybindings]);
+
+  /**
+   * Avisa antes de sair da página quando o último salvamento local falhou.
+   */
+  useEffect(() => {
+    if (saveStatus !== 'error') return;
+    const onBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', onBeforeUnload);
+    return () => window.removeEventListener('beforeunload', onBeforeUnload);
+  }, [saveStatus]);
+
+  /**
+   * Registra alterações de conteúdo no histórico do arquivo ativo, guardando apenas o diff.
+   */
+  const recordChange = useCallback((newContent: string, changes?: ChangeSet, isTyping = false) => {
     setHistory(prev => {
       const h = prev[activeFile];
-      if (h.present === newContent) return prev;
-      return {
-        ...prev,
-        [activeFile]: { past: [...h.past, h.present], present: newContent, future: [] },
-      };
+      const next = recordEdit(h, newContent, { changes, typing: isTyping, depth: historyDepth });
+      return next === h ? prev : { ...prev, [activeFile]: next };
     });
-  }, [activeFile]);
+  }, [activeFile, historyDepth]);
 
   /**
-   * Manipula mudanças vindas do componente Editor.
+   * Cria um arquivo vazio no projeto e o torna ativo. Retorna a mensagem de erro quando o nome é inválido.
    */
-  const handleContentChange = useCallback((event: React.ChangeEvent<HTMLTextAreaElement>) => {
-    recordChange(event.target.value);
-  }, [recordChange]);
+  const createFile = useCallback((name: string): string | null => {
+    const fileName = name.trim();
+    const error = validateFileName(fileName, files);
+    if (error) return error;
+    setHistory(prev => ({ ...prev, [fileName]: createHistory('') }));
+    setFiles(prev => [...prev, fileName]);
+    setActiveFile(fileName);
+    return null;
+  }, [files]);
 
   /**
-   * Desfaz a última alteração no arquivo ativo.
+   * Renomeia um arquivo preservando conteúdo e histórico. Retorna a mensagem de erro quando não é possível.
    */
-  const handleUndo = useCallback(() => {
-    if (!canUndo) return;
+  const renameFile = useCallback((oldName: string, newName: string): string | null => {
+    const fileName = newName.trim();
+    if (fileName === oldName) return null;
+    if (isProtectedFile(oldName)) return 'Este arquivo é exigido pelo modelo e não pode ser renomeado.';
+    const error = validateFileName(fileName, files, oldName);
+    if (error) return error;
     setHistory(prev => {
-      const h = prev[activeFile];
-      const previous = h.past[h.past.length - 1];
-      return {
-        ...prev,
-        [activeFile]: {
-          past: h.past.slice(0, -1),
-          present: previous,
-          future: [h.present, ...h.future],
-        },
-      };
+      const { [oldName]: renamed, ...rest } = prev;
+      return { ...rest, [fileName]: renamed };
     });
-  }, [activeFile, canUndo]);
+    setFiles(prev => prev.map(f => (f === oldName ? fileName : f)));
+    setActiveFile(prev => (prev === oldName ? fileName : prev));
+    return null;
+  }, [files]);
 
   /**
-   * Refaz a próxima alteração no arquivo ativo.
+   * Remove um arquivo do projeto após confirmação; arquivos exigidos pelo modelo são preservados.
    */
-  const handleRedo = useCallback(() => {
-    if (!canRedo) return;
+  const deleteFile = useCallback((name: string) => {
+    if (isProtectedFile(name)) return;
+    if (!window.confirm(`Excluir o arquivo "${name}"? O conteúdo e o histórico serão perdidos.`)) return;
     setHistory(prev => {
-      const h = prev[activeFile];
-      const next = h.future[0];
-      return {
-        ...prev,
-        [activeFile]: {
-          past: [...h.past, h.present],
-          present: next,
-          future: h.future.slice(1),
-        },
-      };
+      const { [name]: _removed, ...rest } = prev;
+      return rest;
     });
-  }, [activeFile, canRedo]);
+    setFiles(prev => prev.filter(f => f !== name));
+    setActiveFile(prev => (prev === name ? FILE_NAMES[0] : prev));
+  }, []);
 
   /**
-   * Atalhos de teclado para desfazer/refazer.
+   * Reordena as abas movendo o arquivo da posição "from" para "to".
    */
-  const onKeyDown = useCallback((event: KeyboardEvent) => {
-    const isMac = navigator.platform.toUpperCase().includes('MAC');
-    const isCtrl = isMac ? event.metaKey : event.ctrlKey;
-    if (isCtrl && event.key === 'z') {
-      event.preventDefault();
-      if (event.shiftKey) handleRedo();
-      else handleUndo();
-    } else if (isCtrl && event.key === 'y' && !isMac) {
-      event.preventDefault();
-      handleRedo();
-    }
-  }, [handleUndo, handleRedo]);
+  const reorderFiles = useCallback((from: number, to: number) => {
+    setFiles(prev => moveItem(prev, from, to));
+  }, []);
 
   /**
-   * Registra e remove listeners globais de teclado.
+   * Altera a profundidade do histórico, descartando de imediato os passos mais antigos que o novo limite.
    */
-  useEffect(() => {
-    window.addEventListener('keydown', onKeyDown);
-    return () => window.removeEventListener('keydown', onKeyDown);
-  }, [onKeyDown]);
+  const changeHistoryDepth = useCallback((depth: number) => {
+    setHistoryDepth(depth);
+    setHistory((prev: Record<string, HistoryState>) => Object.fromEntries(Object.entries(prev).map(([name, h]) => (
+      [name, h.past.length > depth ? { ...h, past: h.past.slice(h.past.length - depth) } : h]
+    ))));
+  }, []);
+
+  /**
+   * Manipula mudanças vindas do componente Editor, repassando as alterações do CodeMirror ao histórico.
+   */
+  const handleContentChange = useCallback((value: string, changes: ChangeSet, isTyping: boolean) => {
+    recordChange(value, changes, isTyping);
+  }, [recordChange]);
+
+  /**
+   * Desfaz a última alteração no arquivo ativo (em todos os arquivos, se ela veio de uma substituição no projeto).
+   */
+  const handleUndo = useCallback(() => {
+    if (!canUndo) return;
+    setHistory(prev => undoProjectEdit(prev, activeFile));
+  }, [activeFile, canUndo]);
+
+  /**
+   * Refaz a próxima alteração no arquivo ativo.
+   */
+  const handleRedo = useCallback(() => {
+    if (!canRedo) return;
+    setHistory(prev => redoProjectEdit(prev, activeFile));
+  }, [activeFile, canRedo]);
 
   /**
    * Aplica formatações Markdown sobre a seleção do editor conforme a ação solicitada.
@@ -233,17 +403,161 @@ export default function App() {
   }, [recordChange]);
 
   /**
-   * Alterna a visibilidade do preview quando o arquivo atual é Markdown.
+   * Abre o editor de tabelas com a tabela sob o cursor ou, se não houver, para inserir uma nova na seleção.
+   */
+  const openTableDialog = useCallback(() => {
+    const el = editorRef.current;
+    if (!el) return;
+    setTableDialog(findTableAt(el.value, el.selectionStart) ?? { from: el.selectionStart, to: el.selectionEnd });
+  }, []);
+
+  /**
+   * Abre o diálogo de figura para inserir no lugar da seleção.
+   */
+  const openFigureDialog = useCallback(() => {
+    const el = editorRef.current;
+    if (el) setFigureRange({ from: el.selectionStart, to: el.selectionEnd });
+  }, []);
+
+  /**
+   * Substitui o trecho [from, to] do arquivo ativo por um bloco (tabela ou figura) em parágrafo próprio e o seleciona.
+   */
+  const insertBlock = useCallback((from: number, to: number, block: string) => {
+    const placed = placeBlock(currentContent, from, to, block);
+    recordChange(placed.content);
+    setTimeout(() => {
+      const el = editorRef.current;
+      if (!el) return;
+      el.focus();
+      el.setSelectionRange(placed.from, placed.to);
+    }, 0);
+  }, [currentContent, recordChange]);
+
+  /**
+   * Alterna a visibilidade do painel lateral; o preview HTML só existe para arquivos Markdown.
    */
   const togglePreview = useCallback(() => {
-    if (isMarkdownActive) setIsPreviewVisible(v => !v);
-  }, [isMarkdownActive]);
+    if (isMarkdownActive || previewPane === 'pdf') setIsPreviewVisible(v => !v);
+  }, [isMarkdownActive, previewPane]);
+
+  /**
+   * Alterna o painel lateral entre o preview HTML e o PDF compilado automaticamente, exibindo-o.
+   */
+  const togglePdfPane = useCallback(() => {
+    setPreviewPane(p => (p === 'pdf' && isPreviewVisible ? 'html' : 'pdf'));
+    setIsPreviewVisible(true);
+  }, [isPreviewVisible]);
+
+  /**
+   * Liga ou desliga a sincronização de rolagem entre editor e preview.
+   */
+  const toggleScrollSync = useCallback(() => setIsScrollSyncEnabled(v => !v), []);
 
   /**
    * Alterna o tema escuro claro.
    */
   const toggleDarkMode = useCallback(() => setIsDarkMode(v => !v), []);
 
+  /**
+   * Descarta o workspace atual (conteúdo e histórico) e volta ao modelo inicial.
+   */
+  const resetToTemplate = useCallback(() => {
+    const confirmed = window.confirm(`Restaurar o modelo ${template.name} inicial? Todo o conteúdo e o histórico atuais serão descartados.`);
+    if (!confirmed) return;
+    setHistory(initHistories(template.starterFiles));
+    setFiles(FILE_NAMES);
+    setActiveFile(FILE_NAMES[0]);
+  }, [template]);
+
+  /**
+   * Substitui o projeto pelo conteúdo inicial do modelo escolhido.
+   */
+  const createProjectFromTemplate = useCallback((id: TemplateId) => {
+    setIsTemplateDialogOpen(false);
+    setTemplateId(id);
+    setHistory(initHistories(getTemplate(id).starterFiles));
+    setFiles(FILE_NAMES);
+    setActiveFile(FILE_NAMES[0]);
+    setCompileProblems([]);
+  }, []);
+
+  /**
+   * Troca o modelo do projeto atual, gravando o configuracao.yaml migrado como uma alteração desfazível.
+   */
+  const switchTemplate = useCallback((id: TemplateId, migration: ConfigMigration) => {
+    setIsTemplateDialogOpen(false);
+    setTemplateId(id);
+    setHistory(prev => ({ ...prev, [FILE_NAMES[1]]: recordEdit(prev[FILE_NAMES[1]], migration.content, { depth: historyDepth }) }));
+    setCompileProblems([]);
+  }, [historyDepth]);
+
+  /**
+   * Lê e valida o .zip escolhido e abre a confirmação da importação (ou o erro de validação).
+   */
+  const importProject = useCallback((file: File) => {
+    readProjectArchive(file)
+      .then((project) => setPendingImport({ project, error: null }))
+      .catch((err) => setPendingImport({ project: null, error: err?.message || 'Não foi possível ler o .zip.' }));
+  }, []);
+
+  /**
+   * Aplica o projeto importado: "replace" recria o workspace só com os arquivos do .zip; "merge"
+   * adiciona os novos e sobrescreve os existentes registrando a alteração no histórico.
+   */
+  const applyImport = useCallback((mode: ImportMode) => {
+    const project = pendingImport?.project;
+    setPendingImport(null);
+    if (!project) return;
+    const names = project.files.map(f => f.name);
+    if (mode === 'replace') {
+      setTemplateId(project.manifest.template ?? DEFAULT_TEMPLATE_ID);
+      setHistory(Object.fromEntries(project.files.map(f => [f.name, createHistory(f.content)])));
+      setFiles(names);
+      setActiveFile(FILE_NAMES[0]);
+    } else {
+      setHistory(prev => {
+        const next = { ...prev };
+        for (const file of project.files) {
+          const h = prev[file.name];
+          next[file.name] = h ? recordEdit(h, file.content, { depth: historyDepth }) : createHistory(file.content);
+        }
+        return next;
+      });
+      setFiles(prev => [...prev, ...names.filter(n => !prev.includes(n))]);
+    }
+    setCompileProblems([]);
+  }, [pendingImport, historyDepth]);
+
+  /**
+   * Restaura um arquivo a partir de um snapshot como uma alteração desfazível, recriando-o se foi excluído.
+   */
+  const restoreSnapshotFile = useCallback((name: string, content: string) => {
+    setHistory(prev => ({
+      ...prev,
+      [name]: prev[name] ? recordEdit(prev[name], content, { depth: historyDepth }) : createHistory(content),
+    }));
+    setFiles(prev => (prev.includes(name) ? prev : [...prev, name]));
+  }, [historyDepth]);
+
+  /**
+   * Restaura o projeto inteiro de um snapshot: modelo, arquivos e ordem das abas. Os arquivos existentes
+   * recebem o conteúdo como uma única alteração de projeto (um Desfazer reverte todos); a troca de modelo
+   * e os arquivos criados ou removidos não são desfeitos.
+   */
+  const restoreSnapshot = useCallback((snapshot: Snapshot) => {
+    setIsSnapshotsOpen(false);
+    setTemplateId(snapshot.templateId);
+    const group = newEditGroup();
+    setHistory(prev => Object.fromEntries(snapshot.files.map(f => [
+      f.name,
+      prev[f.name] ? recordEdit(prev[f.name], f.content, { depth: historyDepth, group }) : createHistory(f.content),
+    ])));
+    const names = snapshot.files.map(f => f.name);
+    setFiles(names);
+    setActiveFile(prev => (names.includes(prev) ? prev : FILE_NAMES[0]));
+    setCompileProblems([]);
+  }, [historyDepth]);
+
   /**
    * Abre a modal responsável por gerar e exibir o PDF.
    */
@@ -256,62 +570,497 @@ export default function App() {
    */
   const closePdfModal = useCallback(() => {
     setIsPdfOpen(false);
+    setIsGeneratingPdf(false);
   }, []);
 
+  const indexMdContent = history['Index.md']?.present ?? '';
+  const configuracaoYamlContent = history['configuracao.yaml']?.present ?? '';
+  const referenciasBibContent = history['referencias.bib']?.present ?? '';
+
   /**
-   * Converte o conteúdo Markdown atual em HTML sanitizado.
+   * Converte o conteúdo Markdown atual em HTML sanitizado, com citações e referências; a folha de rosto
+   * só aparece no Index.md, o documento principal (capítulos extras não a repetem).
    */
   const parsedHtml = useMemo(() => {
-    if (!isMarkdownActive) return '';
-    const raw = marked.parse(currentContent) as string;
-    return DOMPurify.sanitize(raw);
-  }, [isMarkdownActive, currentContent]);
+    if (!isMarkdownActive || previewPane !== 'html') return '';
+    const configYaml = activeFile === FILE_NAMES[0] ? configuracaoYamlContent : undefined;
+    return renderMarkdownPreview(currentContent, { bibEntries, configYaml });
+  }, [isMarkdownActive, previewPane, activeFile, currentContent, bibEntries, configuracaoYamlContent]);
 
-  const showPreview = isPreviewVisible && isMarkdownActive;
+  /**
+   * HTML completo de Index.md (folha de rosto, corpo e referências) para o rascunho de PDF local.
+   */
+  const renderDraftHtml = useCallback(
+    () => renderMarkdownPreview(indexMdContent, { bibEntries, configYaml: configuracaoYamlContent }),
+    [indexMdContent, bibEntries, configuracaoYamlContent]
+  );
 
-  const indexMdContent = history['Index.md']?.present ?? '';
-  const configuracaoYamlContent = history['configuracao.yaml']?.present ?? '';
-  const referenciasBibContent = history['referencias.bib']?.present ?? '';
+  /**
+   * Idioma predominante do Index.md, usado pelo corretor no texto e nos campos do YAML que seguem o documento.
+   */
+  const documentLanguage = useMemo(() => detectLanguage(indexMdContent), [indexMdContent]);
+
+  /**
+   * Inclui uma palavra no dicionário do projeto, que é salvo junto com o workspace.
+   */
+  const addToDictionary = useCallback((word: string) => {
+    setProjectDictionary((prev: string[]) => (prev.includes(word) ? prev : [...prev, word].sort((a, b) => a.localeCompare(b))));
+  }, []);
+
+  const spellCheck = useMemo<SpellCheckOptions | null>(
+    () => (isSpellCheckEnabled
+      ? { language: documentLanguage, dictionary: projectDictionary, onAddWord: addToDictionary, onStatusChange: setSpellCheckError }
+      : null),
+    [isSpellCheckEnabled, documentLanguage, projectDictionary, addToDictionary]
+  );
+
+  const showPreview = isPreviewVisible && (isMarkdownActive || previewPane === 'pdf');
+  const isSyncActive = showPreview && previewPane === 'html' && isScrollSyncEnabled;
+
+  /**
+   * Leva o preview ao bloco correspondente à posição do editor.
+   */
+  const handleEditorSync = useCallback((position: SyncPosition) => {
+    if (Date.now() < syncLockUntilRef.current) return;
+    previewRef.current?.scrollToSource(position);
+  }, []);
+
+  /**
+   * Move o cursor do editor para o início da linha de origem do bloco clicado no preview.
+   */
+  const handlePreviewClick = useCallback((line: number) => {
+    syncLockUntilRef.current = Date.now() + SYNC_LOCK_MS;
+    const offset = lineStartOffset(currentContent, line);
+    editorRef.current?.setSelectionRange(offset, offset);
+  }, [currentContent]);
+
+  /**
+   * Leva as linhas dos problemas da compilação junto com as edições feitas depois dela (digitação,
+   * desfazer, substituições no projeto), para que não apontem para o texto errado.
+   */
+  const problemContentsRef = useRef<Record<string, string>>({});
+  useEffect(() => {
+    const previous = problemContentsRef.current;
+    const contents: Record<string, string> = Object.fromEntries(Object.entries(history).map(([name, h]: [string, HistoryState]) => [name, h.present]));
+    problemContentsRef.current = contents;
+    setCompileProblems((prev: CompileProblem[]) => Object.keys(contents).reduce(
+      (problems, name) => (previous[name] !== undefined && previous[name] !== contents[name]
+        ? mapProblemLines(problems, name, previous[name], contents[name])
+        : problems),
+      prev
+    ));
+  }, [history]);
+
+  /**
+   * Problemas da última compilação que pertencem ao arquivo aberto, exibidos como diagnósticos.
+   */
+  const activeFileProblems = useMemo(
+    () => compileProblems.filter(p => p.file === activeFile),
+    [compileProblems, activeFile]
+  );
+
+  /**
+   * Abre o arquivo e posiciona o cursor no início da linha informada.
+   */
+  const goToLine = useCallback((file: string, line: number) => {
+    if (!history[file]) return;
+    const offset = lineStartOffset(history[file].present, line);
+    setActiveFile(file);
+    setTimeout(() => editorRef.current?.setSelectionRange(offset, offset), 0);
+  }, [history]);
+
+  /**
+   * Leva ao arquivo e à linha de um problema da compilação.
+   */
+  const handleProblemSelect = useCallback((problem: CompileProblem) => {
+    if (problem.file) goToLine(problem.file, problem.line ?? 1);
+  }, [goToLine]);
+
+  /**
+   * Fecha a verificação de conformidade e leva ao trecho apontado pela regra.
+   */
+  const handleConformanceSelect = useCallback((file: string, line: number) => {
+    setIsConformanceOpen(false);
+    goToLine(file, line);
+  }, [goToLine]);
+
+  /**
+   * Abre o arquivo da ocorrência encontrada na busca e a seleciona no editor.
+   */
+  const selectSearchMatch = useCallback((file: string, match: SearchMatch) => {
+    setActiveFile(file);
+    setTimeout(() => editorRef.current?.setSelectionRange(match.from, match.to), 0);
+  }, []);
+
+  /**
+   * Substitui as ocorrências em todos os arquivos; os passos de histórico compartilham um grupo e
+   * são desfeitos juntos. Retorna o número de substituições.
+   */
+  const replaceInProject = useCallback((options: SearchOptions, replacement: string): number => {
+    const group = newEditGroup();
+    const next = { ...history };
+    let total = 0;
+    for (const name of files) {
+      const h = history[name];
+      if (!h) continue;
+      const { content, count } = replaceInContent(h.present, options, replacement);
+      if (!count) continue;
+      next[name] = recordEdit(h, content, { depth: historyDepth, group });
+      total += count;
+    }
+    if (total) setHistory(next);
+    return total;
+  }, [files, history, historyDepth]);
+
+  /**
+   * Títulos do arquivo Markdown ativo, para o painel de estrutura.
+   */
+  const outline = useMemo<OutlineHeading[]>(
+    () => (isMarkdownActive && isOutlineVisible ? buildOutline(currentContent) : []),
+    [isMarkdownActive, isOutlineVisible, currentContent]
+  );
+
+  /**
+   * Leva o cursor ao título escolhido na estrutura.
+   */
+  const selectOutlineHeading = useCallback((heading: OutlineHeading) => {
+    editorRef.current?.setSelectionRange(heading.from, heading.from);
+  }, []);
+
+  /**
+   * Move uma seção inteira do arquivo ativo como uma alteração desfazível.
+   */
+  const moveOutlineSection = useCallback((index: number, before: number) => {
+    const next = moveSection(currentContent, outline, index, before);
+    if (next !== null) recordChange(next);
+  }, [currentContent, outline, recordChange]);
+
+  /**
+   * Descarta a lista de problemas da compilação.
+   */
+  const clearCompileProblems = useCallback(() => setCompileProblems([]), []);
+
+  /**
+   * Arquivos criados pelo usuário, enviados ao backend junto com o trio principal. A referência só muda
+   * quando o nome ou o conteúdo de algum deles muda, e não a cada edição em outro arquivo.
+   */
+  const extraFilesRef = useRef<ProjectFile[]>([]);
+  const extraFiles = useMemo<ProjectFile[]>(() => {
+    const next = files.filter(f => !isProtectedFile(f)).map(name => ({ name, content: history[name]?.present ?? '' }));
+    const previous = extraFilesRef.current;
+    const unchanged = next.length === previous.length
+      && next.every((file, i) => file.name === previous[i].name && file.content === previous[i].content);
+    if (!unchanged) extraFilesRef.current = next;
+    return extraFilesRef.current;
+  }, [files, history]);
+
+  /**
+   * Todos os arquivos do projeto com o conteúdo atual, na ordem das abas.
+   */
+  const projectFiles = useMemo<ProjectFile[]>(
+    () => files.map(name => ({ name, content: history[name]?.present ?? '' })),
+    [files, history]
+  );
+
+  /**
+   * Payload do painel de PDF; uma nova referência dispara a recompilação automática.
+   */
+  const compilePayload = useMemo<CompilePdfPayload>(
+    () => ({ template: templateId, indexMd: indexMdContent, configuracaoYaml: configuracaoYamlContent, referenciasBib: referenciasBibContent, extraFiles }),
+    [templateId, indexMdContent, configuracaoYamlContent, referenciasBibContent, extraFiles]
+  );
+
+  /**
+   * Abre o seletor de arquivo para importar um projeto sem depender do input oculto do cabeçalho.
+   */
+  const chooseImportFile = useCallback(() => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.zip,application/zip';
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (file) importProject(file);
+    };
+    input.click();
+  }, [importProject]);
+
+  /**
+   * Ativa a aba vizinha à atual (delta 1 para a próxima, -1 para a anterior), voltando ao início no fim da lista.
+   */
+  const cycleTab = useCallback((delta: number) => {
+    const index = files.indexOf(activeFile);
+    setActiveFile(files[(index + delta + files.length) % files.length]);
+  }, [files, activeFile]);
+
+  /**
+   * Registro central das ações do cabeçalho, da toolbar e das abas, usado pela paleta e pelos atalhos de teclado.
+   */
+  const commands = useMemo<Command[]>(() => [
+    { id: 'app.commandPalette', category: 'Geral', title: 'Paleta de comandos', keys: ['Mod-Shift-p'], run: () => setIsPaletteOpen(true) },
+    { id: 'app.keybindings', category: 'Geral', title: 'Atalhos de teclado', run: () => setIsKeybindingsOpen(true) },
+    { id: 'project.new', category: 'Projeto', title: 'Novo projeto a partir de modelo', run: () => setIsTemplateDialogOpen(true) },
+    { id: 'project.reset', category: 'Projeto', title: `Restaurar o modelo ${template.name}`, run: resetToTemplate },
+    { id: 'project.export', category: 'Projeto', title: 'Exportar projeto (.zip)', run: () => setIsExportOpen(true) },
+    { id: 'project.import', category: 'Projeto', title: 'Importar projeto (.zip)', run: chooseImportFile },
+    { id: 'project.snapshots', category: 'Projeto', title: 'Snapshots', run: () => setIsSnapshotsOpen(true) },
+    { id: 'project.conformance', category: 'Projeto', title: `Verificar a submissão (${template.name})`, run: () => setIsConformanceOpen(true) },
+    { id: 'project.generatePdf', category: 'Projeto', title: 'Gerar PDF', run: generatePdf, enabled: isMarkdownActive && !isGeneratingPdf },
+    { id: 'edit.undo', category: 'Editar', title: 'Desfazer', keys: ['Mod-z'], run: handleUndo, enabled: canUndo },
+    { id: 'edit.redo', category: 'Editar', title: 'Refazer', keys: IS_MAC ? ['Mod-Shift-z'] : ['Mod-Shift-z', 'Mod-y'], run: handleRedo, enabled: canRedo },
+    {
+      id: 'edit.search',
+      category: 'Editar',
+      title: isSearchOpen ? 'Fechar a busca no projeto' : 'Buscar e substituir no projeto',
+      keys: ['Mod-Shift-f'],
+      run: () => setIsSearchOpen(v => !v),
+    },
+    { id: 'edit.spellCheck', category: 'Editar', title: isSpellCheckEnabled ? 'Desativar verificação ortográfica' : 'Ativar verificação ortográfica', run: () => setIsSpellCheckEnabled(v => !v) },
+    { id: 'view.preview', category: 'Exibir', title: isPreviewVisible ? 'Ocultar preview' : 'Mostrar preview', run: togglePreview, enabled: isMarkdownActive || previewPane === 'pdf' },
+    { id: 'view.pdfPane', category: 'Exibir', title: 'Alternar entre preview HTML e PDF ao vivo', run: togglePdfPane },
+    {
+      id: 'view.scrollSync',
+      category: 'Exibir',
+      title: isScrollSyncEnabled ? 'Desativar sincronização de rolagem' : 'Ativar sincronização de rolagem',
+      run: toggleScrollSync,
+      enabled: isPreviewVisible && isMarkdownActive && previewPane !== 'pdf',
+    },
+    { id: 'view.outline', category: 'Exibir', title: isOutlineVisible ? 'Ocultar sumário' : 'Mostrar sumário', run: () => setIsOutlineVisible(v => !v), enabled: isMarkdownActive },
+    { id: 'view.darkMode', category: 'Exibir', title: isDarkMode ? 'Tema claro' : 'Tema escuro', run: toggleDarkMode },
+    { id: 'view.nextTab', category: 'Exibir', title: 'Próxima aba', keys: ['Alt-PageDown'], run: () => cycleTab(1) },
+    { id: 'view.previousTab', category: 'Exibir', title: 'Aba anterior', keys: ['Alt-PageUp'], run: () => cycleTab(-1) },
+    ...(Object.keys(FORMAT_TITLES) as FormatAction[]).map((action): Command => ({
+      id: `format.${action}`,
+      category: 'Formatar',
+      title: FORMAT_TITLES[action],
+      keys: FORMAT_KEYS[action],
+      run: () => handleFormat(action),
+      enabled: isMarkdownActive,
+    })),
+    { id: 'format.table', category: 'Formatar', title: 'Inserir ou editar tabela', run: openTableDialog, enabled: isMarkdownActive },
+    { id: 'format.figure', category: 'Formatar', title: 'Inserir figura', run: openFigureDialog, enabled: isMarkdownActive },
+    ...files.map((name): Command => ({ id: `file.open:${name}`, category: 'Abrir arquivo', title: name, run: () => setActiveFile(name) })),
+  ], [
+    template.name, resetToTemplate, chooseImportFile, generatePdf, isMarkdownActive, isGeneratingPdf, handleUndo, handleRedo, canUndo, canRedo,
+    isSearchOpen, isSpellCheckEnabled, isPreviewVisible, togglePreview, previewPane, togglePdfPane, isScrollSyncEnabled, toggleScrollSync, isOutlineVisible,
+    isDarkMode, toggleDarkMode, cycleTab, handleFormat, openTableDialog, openFigureDialog, files,
+  ]);
+
+  const registry = useMemo<CommandRegistry>(() => commandRegistry(commands, keybindings), [commands, keybindings]);
+
+  const isModalOpen = isPaletteOpen || isKeybindingsOpen || isTemplateDialogOpen || isExportOpen || isSnapshotsOpen || isConformanceOpen
+    || isPdfOpen || !!tableDialog || !!figureRange || !!pendingImport;
+
+  /**
+   * Executa o comando associado ao atalho pressionado. O editor não tem histórico próprio, então os atalhos
+   * também valem no texto dele (um div contenteditable); combinações que o CodeMirror já tratou (defaultPrevented),
+   * campos de formulário, inclusive os do painel de busca do editor (onde Ctrl+Z é o desfazer nativo), e modais
+   * abertos ficam de fora.
+   */
+  const onKeyDown = useCallback((event: KeyboardEvent) => {
+    if (event.defaultPrevented || isModalOpen) return;
+    const target = event.target;
+    if (target instanceof Element && target.matches('input, textarea, select')) return;
+    const key = eventToKey(event);
+    const command = key ? commandForKey(commands, keybindings, key) : undefined;
+    if (!command) return;
+    event.preventDefault();
+    if (command.enabled !== false) command.run();
+  }, [commands, keybindings, isModalOpen]);
+
+  /**
+   * Registra e remove listeners globais de teclado.
+   */
+  useEffect(() => {
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onKeyDown]);
+
+  /**
+   * Fecha a paleta e executa o comando escolhido.
+   */
+  const runPaletteCommand = useCallback((command: Command) => {
+    setIsPaletteOpen(false);
+    command.run();
+  }, []);
 
   return (
     <div className="flex flex-col h-screen font-sans bg-gray-100 dark:bg-gray-800">
       <Header
-        onTogglePreview={togglePreview}
+        registry={registry}
         isPreviewVisible={isPreviewVisible}
-        onGeneratePdf={generatePdf}
+        previewPane={previewPane}
+        isScrollSyncEnabled={isScrollSyncEnabled}
         isGeneratingPdf={isGeneratingPdf}
         isDarkMode={isDarkMode}
-        onToggleDarkMode={toggleDarkMode}
         isMarkdownActive={isMarkdownActive}
-        onUndo={handleUndo}
-        onRedo={handleRedo}
-        canUndo={canUndo}
-        canRedo={canRedo}
+        historyDepth={historyDepth}
+        onHistoryDepthChange={changeHistoryDepth}
+        templateName={template.name}
+        isSearchOpen={isSearchOpen}
+        isSpellCheckEnabled={isSpellCheckEnabled}
+        spellCheckError={spellCheckError}
+        saveStatus={saveStatus}
       />
 
       <main className="flex-grow flex flex-col overflow-hidden">
-        <FileTabs files={FILE_NAMES} activeFile={activeFile} onTabClick={setActiveFile} />
-        <div className="flex-grow flex overflow-hidden min-h-0">
-          <div className={`transition-all duration-300 h-full min-h-0 flex flex-col bg-white dark:bg-gray-900 ${showPreview ? 'w-1/2' : 'w-full'}`}>
-            {isMarkdownActive && <Toolbar onFormat={handleFormat} />}
-            <div className="flex-grow relative min-h-0">
-              <Editor ref={editorRef} value={currentContent} onChange={handleContentChange} fileName={activeFile} />
-            </div>
+        {isRestoring ? (
+          <div className="flex-grow flex items-center justify-center text-gray-600 dark:text-gray-400">
+            <p>Carregando projeto…</p>
           </div>
+        ) : (
+          <>
+            <FileTabs
+              files={files}
+              activeFile={activeFile}
+              onTabClick={setActiveFile}
+              onCreate={createFile}
+              onRename={renameFile}
+              onDelete={deleteFile}
+              onReorder={reorderFiles}
+            />
+            <div className="flex-grow flex overflow-hidden min-h-0">
+              {isSearchOpen && (
+                <SearchPanel
+                  files={projectFiles}
+                  onSelectMatch={selectSearchMatch}
+                  onReplaceAll={replaceInProject}
+                  onClose={() => setIsSearchOpen(false)}
+                />
+              )}
+              <div className={`transition-all duration-300 h-full min-h-0 min-w-0 flex flex-col bg-white dark:bg-gray-900 ${showPreview ? 'w-1/2' : 'w-full'}`}>
+                {isMarkdownActive && (
+                  <Toolbar registry={registry} isOutlineVisible={isOutlineVisible} />
+                )}
+                <div className="flex-grow flex min-h-0">
+                  {isMarkdownActive && isOutlineVisible && (
+                    <OutlinePanel
+                      outline={outline}
+                      currentIndex={headingAtLine(outline, cursorLine)}
+                      onSelect={selectOutlineHeading}
+                      onMove={moveOutlineSection}
+                      onClose={() => setIsOutlineVisible(false)}
+                    />
+                  )}
+                  <div className="flex-grow relative min-h-0 min-w-0">
+                    <Editor
+                      ref={editorRef}
+                      value={currentContent}
+                      onChange={handleContentChange}
+                      fileName={activeFile}
+                      bibEntries={bibEntries}
+                      configSchema={activeFile === FILE_NAMES[1] ? template.schema : undefined}
+                      onSyncPosition={isSyncActive ? handleEditorSync : undefined}
+                      compileProblems={activeFileProblems}
+                      onCursorLineChange={setCursorLine}
+                      spellCheck={spellCheck}
+                    />
+                  </div>
+                </div>
+              </div>
 
-          <div className={`transition-all duration-300 h-full overflow-hidden border-l border-gray-200 dark:border-gray-700 ${showPreview ? 'w-1/2' : 'w-0'}`}>
-            <Preview ref={previewRef} htmlContent={parsedHtml} />
-          </div>
-        </div>
+              <div className={`transition-all duration-300 h-full min-w-0 overflow-hidden border-l border-gray-200 dark:border-gray-700 ${showPreview ? 'w-1/2' : 'w-0'}`}>
+                {previewPane === 'pdf' ? (
+                  showPreview && (
+                    <PdfPane
+                      payload={compilePayload}
+                      delayMs={autoCompileDelayMs}
+                      onDelayChange={setAutoCompileDelayMs}
+                      onCompileProblems={setCompileProblems}
+                    />
+                  )
+                ) : (
+                  <Preview
+                    ref={previewRef}
+                    htmlContent={parsedHtml}
+                    onSourceLineClick={isSyncActive ? handlePreviewClick : undefined}
+                  />
+                )}
+              </div>
+            </div>
+            {compileProblems.length > 0 && (
+              <ProblemsPanel problems={compileProblems} onSelect={handleProblemSelect} onClear={clearCompileProblems} />
+            )}
+          </>
+        )}
       </main>
 
       {isPdfOpen && (
         <PdfModal
           isOpen={isPdfOpen}
           onClose={closePdfModal}
+          template={templateId}
           indexMd={indexMdContent}
           configuracaoYaml={configuracaoYamlContent}
           referenciasBib={referenciasBibContent}
+          extraFiles={extraFiles}
+          renderDraftHtml={renderDraftHtml}
+          onLoadingChange={setIsGeneratingPdf}
+          onCompileProblems={setCompileProblems}
+        />
+      )}
+
+      {isTemplateDialogOpen && (
+        <NewProjectDialog
+          currentTemplateId={templateId}
+          configYaml={configuracaoYamlContent}
+          onCreate={createProjectFromTemplate}
+          onSwitch={switchTemplate}
+          onClose={() => setIsTemplateDialogOpen(false)}
+        />
+      )}
+
+      {isExportOpen && <ExportProjectDialog payload={compilePayload} onClose={() => setIsExportOpen(false)} />}
+
+      {isSnapshotsOpen && (
+        <SnapshotsPanel
+          files={projectFiles}
+          templateId={templateId}
+          onRestoreFile={restoreSnapshotFile}
+          onRestoreProject={restoreSnapshot}
+          onClose={() => setIsSnapshotsOpen(false)}
+        />
+      )}
+
+      {isConformanceOpen && (
+        <ConformancePanel
+          template={template}
+          payload={compilePayload}
+          onSelect={handleConformanceSelect}
+          onClose={() => setIsConformanceOpen(false)}
+        />
+      )}
+
+      {tableDialog && (
+        <TableDialog
+          initialTable={tableDialog.table}
+          initialOptions={tableDialog.options}
+          onSubmit={(block) => { insertBlock(tableDialog.from, tableDialog.to, block); setTableDialog(null); }}
+          onClose={() => setTableDialog(null)}
+        />
+      )}
+
+      {figureRange && (
+        <FigureDialog
+          onSubmit={(block) => { insertBlock(figureRange.from, figureRange.to, block); setFigureRange(null); }}
+          onClose={() => setFigureRange(null)}
+        />
+      )}
+
+      {isPaletteOpen && (
+        <CommandPalette commands={commands} overrides={keybindings} onRun={runPaletteCommand} onClose={() => setIsPaletteOpen(false)} />
+      )}
+
+      {isKeybindingsOpen && (
+        <KeybindingsDialog commands={commands} overrides={keybindings} onChange={setKeybindings} onClose={() => setIsKeybindingsOpen(false)} />
+      )}
+
+      {pendingImport && (
+        <ImportProjectDialog
+          project={pendingImport.project}
+          error={pendingImport.error}
+          currentContents={Object.fromEntries(projectFiles.map(f => [f.name, f.content]))}
+          onConfirm={applyImport}
+          onClose={() => setPendingImport(null)}
         />
       )}
     </div>
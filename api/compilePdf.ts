@@ -1,36 +1,166 @@
+import { FILE_NAMES } from "../constants";
+import type { ProjectFile } from "../lib/projectFiles";
+import type { TemplateId } from "../lib/templates";
+import { getCachedPdf, hashPayload, putCachedPdf } from "../lib/pdfCache";
+
 const API_URL = process.env.API_URL || "";
 const API_KEY = process.env.API_KEY || "";
+const DEFAULT_TIMEOUT_MS = Number(process.env.API_TIMEOUT_MS) || 60_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BACKOFF_MS = 500;
+
+/** Indica se há um backend de PDF configurado (API_URL); sem ele só o rascunho local está disponível. */
+export const isPdfApiConfigured = API_URL !== "";
+
+/** Status HTTP tratados como falha transitória (nova tentativa com backoff). */
+const TRANSIENT_STATUS = new Set([408, 429, 502, 503, 504]);
 
 export type CompilePdfPayload = {
+  /** Modelo de documento que o backend deve usar (ex.: "sbc", "abnt"). */
+  template: TemplateId;
   indexMd: string;
   configuracaoYaml: string;
   referenciasBib: string;
+  /** Arquivos adicionais do projeto (capítulos .md, .bib extras, trechos .tex) para `\input` ou concatenação. */
+  extraFiles?: ProjectFile[];
+};
+
+/**
+ * Arquivos do projeto contidos no payload, com os nomes do editor (para exportar, checar ou localizar problemas do log).
+ */
+export function payloadSources(payload: CompilePdfPayload): ProjectFile[] {
+  return [
+    { name: FILE_NAMES[0], content: payload.indexMd },
+    { name: FILE_NAMES[1], content: payload.configuracaoYaml },
+    { name: FILE_NAMES[2], content: payload.referenciasBib },
+    ...(payload.extraFiles ?? []),
+  ];
+}
+
+export type CompilePdfOptions = {
+  signal?: AbortSignal;
+  /** Tempo máximo de cada tentativa, em milissegundos. */
+  timeoutMs?: number;
+  /** Número de novas tentativas após falhas transitórias (rede, timeout, 5xx de gateway). */
+  retries?: number;
+  /** Espera antes da primeira nova tentativa; dobra a cada tentativa seguinte. */
+  backoffMs?: number;
+  /** Ignora o cache local e força uma nova compilação (o resultado novo substitui o do cache). */
+  force?: boolean;
 };
 
-export type CompilePdfResponse = {
-  blob: Blob;
-  fileName?: string;
+/** Tempos da requisição: total medido no cliente e, quando informado, o de compilação no servidor. */
+export type CompileTiming = {
+  totalMs: number;
+  serverMs?: number;
+  attempts: number;
 };
 
+export type CompilePdfResponse =
+  | { status: "success"; blob: Blob; fileName: string; timing: CompileTiming; cacheHit: boolean; fromLocalCache: boolean }
+  | { status: "compile-error"; blob: Blob; fileName: string; log?: string; timing: CompileTiming; cacheHit: boolean }
+  | { status: "auth-error"; httpStatus: number; message: string; timing: CompileTiming }
+  | { status: "network-error"; message: string; timing: CompileTiming }
+  | { status: "timeout"; timeoutMs: number; timing: CompileTiming };
+
 /**
- * Envia o payload para "/gerar-pdf" e retorna o PDF (ou um PDF de erro) com um nome sugerido.
+ * Compila o payload, servindo do cache local (IndexedDB, chaveado pelo SHA-256 do payload) quando
+ * possível. Apenas PDFs finais são guardados; falhas no cache nunca impedem a compilação.
  */
 export async function compilePdf(
   payload: CompilePdfPayload,
-  signal?: AbortSignal
+  options: CompilePdfOptions = {}
 ): Promise<CompilePdfResponse> {
-  const res = await fetch(`${API_URL}/gerar-pdf`, {
-    method: "POST",
-    headers: buildHeaders(API_KEY),
-    body: JSON.stringify(payload),
-    signal,
+  const startedAt = performance.now();
+  const hash = await hashPayload(payload).catch(() => null);
+  if (hash && !options.force) {
+    const cached = await getCachedPdf(hash).catch(() => undefined);
+    if (cached) {
+      const timing = { totalMs: Math.round(performance.now() - startedAt), attempts: 0 };
+      return { status: "success", blob: cached.blob, fileName: cached.fileName, timing, cacheHit: true, fromLocalCache: true };
+    }
+  }
+  const result = await requestPdf(payload, options);
+  if (hash && result.status === "success") await putCachedPdf(hash, result.blob, result.fileName).catch(() => undefined);
+  return result;
+}
+
+/**
+ * Envia o payload para "/gerar-pdf" e classifica a resposta: PDF final, PDF/log de erro de compilação,
+ * falha de autenticação, falha de rede ou timeout. Falhas transitórias são repetidas com backoff.
+ * Cancelamentos via "signal" são propagados como AbortError.
+ */
+async function requestPdf(payload: CompilePdfPayload, options: CompilePdfOptions): Promise<CompilePdfResponse> {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES, backoffMs = DEFAULT_BACKOFF_MS } = options;
+  const startedAt = performance.now();
+  const timing = (attempts: number, serverMs?: number): CompileTiming => ({
+    totalMs: Math.round(performance.now() - startedAt),
+    serverMs,
+    attempts,
   });
 
-  const blob = await res.blob();
-  const cd = res.headers.get("Content-Disposition") ?? "";
-  const name = extractFilenameFromContentDisposition(cd);
+  let last: CompilePdfResponse | null = null;
+  for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    if (attempt > 1) await delay(backoffMs * 2 ** (attempt - 2), signal);
+
+    const ctrl = new AbortController();
+    const onAbort = () => ctrl.abort();
+    signal?.addEventListener("abort", onAbort);
+    let timedOut = false;
+    const timer = setTimeout(() => { timedOut = true; ctrl.abort(); }, timeoutMs);
+
+    try {
+      const res = await fetch(`${API_URL}/gerar-pdf`, {
+        method: "POST",
+        headers: buildHeaders(API_KEY),
+        body: JSON.stringify(payload),
+        signal: ctrl.signal,
+      });
+      const blob = await res.blob();
+      const serverMs = parseServerTiming(res.headers);
+
+      if (res.status === 401 || res.status === 403) {
+        return { status: "auth-error", httpStatus: res.status, message: await readErrorMessage(blob, "Não autenticado."), timing: timing(attempt, serverMs) };
+      }
+      if (TRANSIENT_STATUS.has(res.status) && !isPdf(blob)) {
+        last = { status: "network-error", message: `O servidor respondeu HTTP ${res.status}.`, timing: timing(attempt, serverMs) };
+        continue;
+      }
 
-  return { blob, fileName: name || (res.ok ? "arquivo.pdf" : "erro.pdf") };
+      const cd = res.headers.get("Content-Disposition") ?? "";
+      const name = extractFilenameFromContentDisposition(cd);
+      const cacheHit = isCacheHit(res.headers);
+      if (isPdf(blob) && res.ok && !isErrorPdf(res.headers, name)) {
+        return { status: "success", blob, fileName: name || "arquivo.pdf", timing: timing(attempt, serverMs), cacheHit, fromLocalCache: false };
+      }
+      if (isPdf(blob) || blob.type.includes("json") || blob.type.startsWith("text/")) {
+        const log = isPdf(blob) ? undefined : await readErrorMessage(blob, "");
+        return { status: "compile-error", blob, fileName: name || "erro.pdf", log: log || undefined, timing: timing(attempt, serverMs), cacheHit };
+      }
+      return { status: "network-error", message: `Resposta inesperada do servidor (HTTP ${res.status}).`, timing: timing(attempt, serverMs) };
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      last = timedOut
+        ? { status: "timeout", timeoutMs, timing: timing(attempt) }
+        : { status: "network-error", message: (err as Error)?.message || "Falha de rede.", timing: timing(attempt) };
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+  return last!;
+}
+
+/**
+ * Aguarda o tempo de backoff, interrompendo com AbortError se a operação for cancelada.
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException("Aborted", "AbortError"));
+    const timer = setTimeout(() => { signal?.removeEventListener("abort", onAbort); resolve(); }, ms);
+    const onAbort = () => { clearTimeout(timer); reject(new DOMException("Aborted", "AbortError")); };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
 
 /**
@@ -45,6 +175,56 @@ function buildHeaders(apiKey?: string): HeadersInit {
   return headers;
 }
 
+/**
+ * Verifica se o corpo recebido é um PDF (pelo Content-Type).
+ */
+function isPdf(blob: Blob): boolean {
+  return blob.type.includes("pdf");
+}
+
+/**
+ * O backend devolve o PDF de erro com status 200; ele é reconhecido pelo header X-Compile-Status
+ * ou, na falta dele, pelo nome sugerido ("erro.pdf").
+ */
+function isErrorPdf(headers: Headers, fileName?: string): boolean {
+  const status = headers.get("X-Compile-Status");
+  if (status) return status.toLowerCase() !== "success";
+  return !!fileName && /^erro/i.test(fileName);
+}
+
+/**
+ * Lê a mensagem de um corpo de erro JSON ({ error } ou { log }) ou texto simples.
+ */
+async function readErrorMessage(blob: Blob, fallback: string): Promise<string> {
+  try {
+    const text = await blob.text();
+    if (!blob.type.includes("json")) return text || fallback;
+    const body = JSON.parse(text);
+    return String(body?.log ?? body?.error ?? fallback);
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Tempo de compilação informado pelo servidor via Server-Timing (ex.: "compile;dur=1234") ou X-Compile-Time.
+ */
+function parseServerTiming(headers: Headers): number | undefined {
+  const serverTiming = headers.get("Server-Timing");
+  const dur = serverTiming ? /dur=([\d.]+)/.exec(serverTiming) : null;
+  if (dur) return Math.round(Number(dur[1]));
+  const compileTime = Number(headers.get("X-Compile-Time"));
+  return Number.isFinite(compileTime) && compileTime > 0 ? Math.round(compileTime) : undefined;
+}
+
+/**
+ * Indica se o servidor respondeu a partir do cache (X-Cache: HIT ou X-Cache-Hit: true).
+ */
+function isCacheHit(headers: Headers): boolean {
+  const cache = headers.get("X-Cache") ?? headers.get("X-Cache-Hit") ?? "";
+  return /^(hit|true|1)$/i.test(cache.trim());
+}
+
 /**
  * Extrai o nome do arquivo do header Content-Disposition, incluindo suporte a RFC 5987 (filename*).
  */
@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Command as CommandIcon } from 'lucide-react';
+import { Command, effectiveKeys, formatKey, FuzzyMatch, fuzzyMatch, KeybindingOverrides } from '../lib/commands';
+
+export interface CommandPaletteProps {
+  commands: Command[];
+  overrides: KeybindingOverrides;
+  /** Executa o comando escolhido; a paleta é fechada pelo chamador. */
+  onRun: (command: Command) => void;
+  onClose: () => void;
+}
+
+type PaletteItem = { command: Command; label: string; match: FuzzyMatch };
+
+/**
+ * Texto do comando com as letras que casaram com a busca destacadas.
+ */
+function HighlightedLabel({ label, indices }: { label: string; indices: number[] }) {
+  const marked = new Set(indices);
+  return (
+    <span className="truncate">
+      {[...label].map((ch, i) => (marked.has(i) ? <strong key={i} className="text-blue-600 dark:text-blue-400">{ch}</strong> : ch))}
+    </span>
+  );
+}
+
+/**
+ * Paleta de comandos com busca aproximada: lista todas as ações do cabeçalho, da toolbar e das abas,
+ * com os atalhos em vigor, e executa a escolhida com Enter ou clique.
+ */
+export default function CommandPalette({ commands, overrides, onRun, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const selectedRef = useRef<HTMLLIElement>(null);
+
+  const items: PaletteItem[] = commands
+    .map((command) => {
+      const label = `${command.category}: ${command.title}`;
+      const match = fuzzyMatch(query, label);
+      return match ? { command, label, match } : null;
+    })
+    .filter((item): item is PaletteItem => item !== null)
+    .sort((a, b) => b.match.score - a.match.score);
+
+  useEffect(() => {
+    setSelected(0);
+  }, [query]);
+
+  /**
+   * Mantém o item selecionado visível ao navegar pelas setas.
+   */
+  useEffect(() => {
+    selectedRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  const run = (item: PaletteItem | undefined) => {
+    if (item && item.command.enabled !== false) onRun(item.command);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setSelected((i: number) => Math.min(items.length - 1, i + 1));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setSelected((i: number) => Math.max(0, i - 1));
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      run(items[selected]);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/30 p-4 pt-[12vh]" aria-modal="true" role="dialog" onMouseDown={onClose}>
+      <div
+        className="flex flex-col w-full max-w-xl max-h-[60vh] rounded-xl bg-white dark:bg-gray-800 shadow-2xl text-gray-800 dark:text-gray-100"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+          <CommandIcon size={16} className="text-gray-400" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Digite um comando…"
+            aria-label="Buscar comando"
+            className="flex-grow bg-transparent py-1 text-sm outline-none"
+          />
+        </div>
+        <ul className="flex-grow overflow-y-auto py-1 text-sm" role="listbox" aria-label="Comandos">
+          {items.length === 0 && <li className="px-3 py-2 text-gray-500 dark:text-gray-400">Nenhum comando encontrado.</li>}
+          {items.map((item, i) => {
+            const keys = effectiveKeys(item.command, overrides);
+            const isDisabled = item.command.enabled === false;
+            return (
+              <li
+                key={item.command.id}
+                ref={i === selected ? selectedRef : undefined}
+                role="option"
+                aria-selected={i === selected}
+                aria-disabled={isDisabled}
+                onMouseMove={() => setSelected(i)}
+                onClick={() => run(item)}
+                className={`flex items-center gap-3 px-3 py-1.5 cursor-pointer ${i === selected ? 'bg-blue-100 dark:bg-blue-900/40' : ''} ${isDisabled ? 'opacity-50 cursor-default' : ''}`}
+              >
+                <HighlightedLabel label={item.label} indices={item.match.indices} />
+                <span className="flex-grow" />
+                {keys.map((key) => (
+                  <kbd key={key} className="shrink-0 px-1.5 py-0.5 rounded border border-gray-300 dark:border-gray-600 text-xs text-gray-500 dark:text-gray-400 font-sans">
+                    {formatKey(key)}
+                  </kbd>
+                ))}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Loader, RefreshCw, X, XCircle } from 'lucide-react';
+import { CompilePdfPayload, payloadSources } from '../api/compilePdf';
+import { buildConformanceContext, ConformanceItem, RuleStatus, runConformance } from '../lib/conformance';
+import { getCachedPdf, hashPayload } from '../lib/pdfCache';
+import { pdfjs } from '../lib/pdfjs';
+import type { DocumentTemplate } from '../lib/templates';
+
+export interface ConformancePanelProps {
+  template: DocumentTemplate;
+  /** Conteúdo atual do projeto; o PDF compilado a partir dele (se estiver no cache) fornece o número de páginas. */
+  payload: CompilePdfPayload;
+  /** Leva o editor ao arquivo e à linha apontados por uma regra. */
+  onSelect: (file: string, line: number) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<RuleStatus, string> = { pass: 'OK', warn: 'Atenção', fail: 'Falha' };
+
+/**
+ * Ícone do resultado de uma regra.
+ */
+function StatusIcon({ status }: { status: RuleStatus }) {
+  if (status === 'pass') return <CheckCircle2 size={16} className="mt-0.5 shrink-0 text-green-600 dark:text-green-400" aria-label={STATUS_LABELS.pass} />;
+  if (status === 'warn') return <AlertTriangle size={16} className="mt-0.5 shrink-0 text-amber-600 dark:text-amber-400" aria-label={STATUS_LABELS.warn} />;
+  return <XCircle size={16} className="mt-0.5 shrink-0 text-red-600 dark:text-red-400" aria-label={STATUS_LABELS.fail} />;
+}
+
+/**
+ * Número de páginas do PDF compilado para o payload, quando ele está no cache local.
+ */
+async function cachedPageCount(payload: CompilePdfPayload): Promise<number | null> {
+  const hash = await hashPayload(payload);
+  const cached = hash ? await getCachedPdf(hash) : undefined;
+  if (!cached) return null;
+  const doc = await pdfjs.getDocument({ data: new Uint8Array(await cached.blob.arrayBuffer()) }).promise;
+  try {
+    return doc.numPages;
+  } finally {
+    doc.destroy();
+  }
+}
+
+/**
+ * Modal com a verificação de conformidade do modelo: cada regra aparece como um item do checklist
+ * (OK, atenção ou falha) e, quando possível, leva ao trecho do arquivo que precisa de ajuste.
+ */
+export default function ConformancePanel({ template, payload, onSelect, onClose }: ConformancePanelProps) {
+  const [pageLimit, setPageLimit] = useState<number | null>(template.pageLimit);
+  const [pageCount, setPageCount] = useState<number | null | undefined>(undefined);
+  const [items, setItems] = useState<ConformanceItem[] | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  /**
+   * Procura o PDF compilado do conteúdo atual para conhecer o número de páginas.
+   */
+  useEffect(() => {
+    let cancelled = false;
+    cachedPageCount(payload)
+      .then((count) => { if (!cancelled) setPageCount(count); })
+      .catch(() => { if (!cancelled) setPageCount(null); });
+    return () => { cancelled = true; };
+  }, [payload]);
+
+  /**
+   * Executa as regras do modelo sobre o conteúdo atual.
+   */
+  const run = useCallback(() => {
+    if (pageCount === undefined) return;
+    setIsRunning(true);
+    runConformance(template.rules, buildConformanceContext(payloadSources(payload), pageCount, pageLimit))
+      .then(setItems)
+      .finally(() => setIsRunning(false));
+  }, [template, payload, pageCount, pageLimit]);
+
+  useEffect(() => {
+    run();
+  }, [run]);
+
+  const count = (status: RuleStatus) => items?.filter((i) => i.result.status === status).length ?? 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" aria-modal="true" role="dialog">
+      <div className="flex flex-col w-full max-w-2xl max-h-[85vh] rounded-xl bg-white dark:bg-gray-800 shadow-2xl text-gray-800 dark:text-gray-100">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold">Verificação para submissão ({template.name})</h2>
+          <button type="button" onClick={onClose} className="p-1.5 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700" title="Fechar" aria-label="Fechar">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 px-4 py-2 border-b border-gray-200 dark:border-gray-700 text-sm">
+          <span className="flex items-center gap-1 text-green-700 dark:text-green-400"><CheckCircle2 size={14} /> {count('pass')}</span>
+          <span className="flex items-center gap-1 text-amber-700 dark:text-amber-400"><AlertTriangle size={14} /> {count('warn')}</span>
+          <span className="flex items-center gap-1 text-red-700 dark:text-red-400"><XCircle size={14} /> {count('fail')}</span>
+          <div className="flex-grow" />
+          {template.pageLimit !== null && (
+            <label className="flex items-center gap-2 text-xs">
+              Limite de páginas
+              <input
+                type="number"
+                min={1}
+                value={pageLimit ?? ''}
+                onChange={(e) => setPageLimit(e.target.value ? Math.max(1, Number(e.target.value)) : null)}
+                className="w-16 px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900"
+              />
+            </label>
+          )}
+          <button
+            type="button"
+            onClick={run}
+            disabled={isRunning || pageCount === undefined}
+            className="flex items-center gap-1.5 px-2 py-1 rounded-md text-xs hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            {isRunning ? <Loader size={14} className="animate-spin" /> : <RefreshCw size={14} />} Verificar novamente
+          </button>
+        </div>
+
+        <ul className="flex-grow overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700 text-sm" aria-label="Regras do modelo">
+          {items === null && <li className="px-4 py-3 text-gray-500 dark:text-gray-400">Verificando…</li>}
+          {items?.map(({ rule, result }) => (
+            <li key={rule.id}>
+              <button
+                type="button"
+                disabled={!result.file}
+                onClick={() => result.file && onSelect(result.file, result.line ?? 1)}
+                className="w-full flex items-start gap-2 px-4 py-2 text-left hover:bg-gray-100 dark:hover:bg-gray-700/50 disabled:cursor-default disabled:hover:bg-transparent"
+              >
+                <StatusIcon status={result.status} />
+                <span className="flex-1">
+                  <span className="block font-medium">{rule.title}</span>
+                  <span className="block text-xs text-gray-600 dark:text-gray-300">{result.message}</span>
+                </span>
+                {result.file && (
+                  <span className="shrink-0 text-xs text-gray-500 dark:text-gray-400 tabular-nums">
+                    {result.file}{result.line ? `:${result.line}` : ''}
+                  </span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <p className="px-4 py-2 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400">
+          As contagens de linhas são estimativas; confira o PDF final antes de submeter.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -8,13 +8,25 @@ import React, {
   WheelEvent,
 } from 'react';
 import CodeMirror from '@uiw/react-codemirror';
-import { EditorView, keymap } from '@codemirror/view';
-import { Extension } from '@codemirror/state';
+import { EditorView, keymap, ViewUpdate } from '@codemirror/view';
+import { ChangeSet, EditorState, Extension } from '@codemirror/state';
+import { StreamLanguage } from '@codemirror/language';
 import { markdown, markdownLanguage } from '@codemirror/lang-markdown';
 import { languages } from '@codemirror/language-data';
-import { defaultKeymap, history, historyKeymap } from '@codemirror/commands';
+import { defaultKeymap } from '@codemirror/commands';
 import { yaml } from '@codemirror/lang-yaml';
 import { bibtex } from '@citedrive/codemirror-lang-bibtex';
+import { stex } from '@codemirror/legacy-modes/mode/stex';
+import { getFileKind } from '../lib/projectFiles';
+import { BibEntry } from '../lib/bibtex';
+import { citationCompletionSource } from '../lib/citationCompletion';
+import { forceLinting, lintGutter } from '@codemirror/lint';
+import { ConfigSchema } from '../lib/configSchema';
+import { configLinter } from '../lib/configLint';
+import { bibtexLinter } from '../lib/bibtexLint';
+import { SyncPosition } from '../lib/scrollSync';
+import { CompileProblem, compileProblemsLinter } from '../lib/latexLog';
+import { SPELL_SOURCE, SpellCheckOptions, spellLinter } from '../lib/spellLint';
 
 const cmBaseTheme = EditorView.theme({
   '&': { height: '100%' },
@@ -25,30 +37,64 @@ const cmBaseTheme = EditorView.theme({
       'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace',
     fontSize: '14px',
   },
+  '.cm-lintRange.cm-spell-error': {
+    backgroundImage: 'none',
+    textDecoration: 'underline wavy #dc2626',
+    textDecorationSkipInk: 'none',
+    textUnderlineOffset: '3px',
+  },
 });
 
 export interface EditorProps {
   value: string;
-  onChange: (event: React.ChangeEvent<HTMLTextAreaElement>) => void;
+  /**
+   * Recebe o novo texto, as alterações do CodeMirror que o produziram e se elas vieram de
+   * digitação (agrupável em um único passo de desfazer). O histórico fica a cargo do chamador.
+   */
+  onChange: (value: string, changes: ChangeSet, isTyping: boolean) => void;
   fileName?: string;
+  /** Entradas BibTeX do projeto, usadas no autocompletar de citações em arquivos Markdown. */
+  bibEntries?: BibEntry[];
+  /** Esquema do modelo; quando informado, o arquivo é validado como configuracao.yaml. */
+  configSchema?: ConfigSchema;
+  /** Notifica a linha visível no topo (ao rolar) ou a linha do cursor, para sincronizar o preview. */
+  onSyncPosition?: (position: SyncPosition) => void;
+  /** Problemas da última compilação localizados neste arquivo. */
+  compileProblems?: CompileProblem[];
+  /** Notifica a linha do cursor (começa em 1) sempre que ela pode ter mudado. */
+  onCursorLineChange?: (line: number) => void;
+  /** Corretor ortográfico para arquivos Markdown e YAML; null ou ausente desativa a verificação. */
+  spellCheck?: SpellCheckOptions | null;
 }
 
 /**
- * Retorna a extensão de linguagem adequada conforme o nome do arquivo.
+ * Retorna a extensão de linguagem adequada conforme a extensão do arquivo.
  */
 function getLanguageExtension(fileName?: string): Extension {
-  const name = (fileName || '').toLowerCase();
-  if (name.endsWith('.yaml') || name.endsWith('.yml') || name === 'configuracao.yaml') return yaml();
-  if (name.endsWith('.bib') || name === 'referencias.bib') return bibtex();
-  return markdown({ base: markdownLanguage, codeLanguages: languages });
+  switch (getFileKind(fileName || '')) {
+    case 'yaml': return yaml();
+    case 'bibtex': return bibtex();
+    case 'latex': return StreamLanguage.define(stex);
+    default: return markdown({ base: markdownLanguage, codeLanguages: languages });
+  }
 }
 
 /**
  * Componente de editor baseado em CodeMirror com detecção de tema, troca dinâmica
  * de linguagem por arquivo e API via ref compatível com um HTMLTextAreaElement.
  */
-const Editor = forwardRef<HTMLTextAreaElement, EditorProps>(({ value, onChange, fileName }, ref) => {
+const Editor = forwardRef<HTMLTextAreaElement, EditorProps>(({ value, onChange, fileName, bibEntries, configSchema, onSyncPosition, compileProblems, onCursorLineChange, spellCheck }, ref) => {
   const viewRef = useRef<EditorView | null>(null);
+  const bibEntriesRef = useRef<BibEntry[]>(bibEntries ?? []);
+  bibEntriesRef.current = bibEntries ?? [];
+  const onSyncPositionRef = useRef(onSyncPosition);
+  onSyncPositionRef.current = onSyncPosition;
+  const compileProblemsRef = useRef<CompileProblem[]>(compileProblems ?? []);
+  compileProblemsRef.current = compileProblems ?? [];
+  const onCursorLineChangeRef = useRef(onCursorLineChange);
+  onCursorLineChangeRef.current = onCursorLineChange;
+  const spellCheckRef = useRef<SpellCheckOptions | null>(spellCheck ?? null);
+  spellCheckRef.current = spellCheck ?? null;
   const [isDark, setIsDark] = useState<boolean>(() => document.documentElement.classList.contains('dark'));
   const [isFocused, setIsFocused] = useState(false);
 
@@ -59,12 +105,87 @@ const Editor = forwardRef<HTMLTextAreaElement, EditorProps>(({ value, onChange,
   }, []);
 
   const languageExt = useMemo<Extension>(() => getLanguageExtension(fileName), [fileName]);
+  const fileKind = getFileKind(fileName || '') ?? 'markdown';
+  const isMarkdown = fileKind === 'markdown';
+
+  /**
+   * Autocompletar de \cite{...} e [@chave] lendo sempre as entradas mais recentes via ref.
+   */
+  const citationExt = useMemo<Extension>(
+    () => EditorState.languageData.of(() => [{ autocomplete: citationCompletionSource(() => bibEntriesRef.current) }]),
+    []
+  );
+
+  /**
+   * Diagnósticos do arquivo ativo (esquema do YAML, regras do BibTeX, problemas da compilação,
+   * ortografia), com marcadores na margem apenas para os que não são de ortografia.
+   */
+  const lintExt = useMemo<Extension>(() => {
+    const linters: Extension[] = [compileProblemsLinter(() => compileProblemsRef.current)];
+    if (configSchema) linters.push(configLinter(configSchema));
+    if (fileKind === 'bibtex') linters.push(bibtexLinter());
+    if (fileKind === 'markdown' || fileKind === 'yaml') linters.push(spellLinter(fileKind, () => spellCheckRef.current));
+    return [...linters, lintGutter({ markerFilter: (diagnostics) => diagnostics.filter((d) => d.source !== SPELL_SOURCE) })];
+  }, [configSchema, fileKind]);
+
+  /**
+   * Reexecuta o lint quando chega o resultado de uma nova compilação, sem esperar por edições.
+   */
+  useEffect(() => {
+    if (viewRef.current) forceLinting(viewRef.current);
+  }, [compileProblems]);
+
+  /**
+   * Reverifica a ortografia ao ligar/desligar o corretor, trocar o idioma ou alterar o dicionário do projeto.
+   */
+  useEffect(() => {
+    if (viewRef.current) forceLinting(viewRef.current);
+  }, [!!spellCheck, spellCheck?.language, spellCheck?.dictionary]);
+
+  /**
+   * Emite a posição para o preview: linha (fracionária) no topo ao rolar e linha do cursor ao movê-lo.
+   */
+  const syncExt = useMemo<Extension>(() => [
+    EditorView.domEventObservers({
+      scroll: (_event, view) => {
+        if (!onSyncPositionRef.current) return;
+        const top = view.scrollDOM.scrollTop;
+        const block = view.lineBlockAtHeight(top);
+        const line = view.state.doc.lineAt(block.from).number + (top - block.top) / Math.max(1, block.height);
+        onSyncPositionRef.current({ line, offset: 0 });
+      },
+    }),
+    EditorView.updateListener.of((update) => {
+      if (!update.selectionSet || !update.view.hasFocus || !onSyncPositionRef.current) return;
+      const { view } = update;
+      view.requestMeasure({
+        read: () => {
+          const head = view.state.selection.main.head;
+          const coords = view.coordsAtPos(head);
+          const offset = coords ? coords.top - view.scrollDOM.getBoundingClientRect().top : 0;
+          return { line: view.state.doc.lineAt(head).number, offset };
+        },
+        write: (position) => onSyncPositionRef.current?.(position),
+      });
+    }),
+  ], []);
+
+  /**
+   * Informa a linha do cursor ao mover a seleção ou editar o texto.
+   */
+  const cursorExt = useMemo<Extension>(() => EditorView.updateListener.of((update) => {
+    if (!update.selectionSet && !update.docChanged) return;
+    onCursorLineChangeRef.current?.(update.state.doc.lineAt(update.state.selection.main.head).number);
+  }), []);
 
   const extensions = useMemo<Extension[]>(() => [
     cmBaseTheme,
-    history(),
-    keymap.of([...defaultKeymap, ...historyKeymap]),
+    keymap.of(defaultKeymap),
     languageExt,
+    isMarkdown ? citationExt : [],
+    lintExt,
+    syncExt,
+    cursorExt,
     EditorView.lineWrapping,
     EditorView.theme(
       {
@@ -73,7 +194,7 @@ const Editor = forwardRef<HTMLTextAreaElement, EditorProps>(({ value, onChange,
       },
       { dark: isDark }
     ),
-  ], [isDark, languageExt]);
+  ], [isDark, languageExt, isMarkdown, citationExt, lintExt, syncExt, cursorExt]);
 
   useEffect(() => {
     const view = viewRef.current;
@@ -101,7 +222,7 @@ const Editor = forwardRef<HTMLTextAreaElement, EditorProps>(({ value, onChange,
       get selectionEnd() { return view ? view.state.selection.main.to : 0; },
       setSelectionRange: (start: number, end: number) => {
         if (!view) return;
-        view.dispatch({ selection: { anchor: start, head: end } });
+        view.dispatch({ selection: { anchor: start, head: end }, scrollIntoView: true });
         view.focus();
       },
       get value() { return value; },
@@ -110,11 +231,11 @@ const Editor = forwardRef<HTMLTextAreaElement, EditorProps>(({ value, onChange,
   }, [value]);
 
   /**
-   * Adapta o onChange do CodeMirror para o formato esperado (event.target.value).
+   * Repassa o novo texto com as alterações da atualização e se ela veio apenas de digitação.
    */
-  const handleChange = (next: string) => {
-    const evt = { target: { value: next } } as unknown as React.ChangeEvent<HTMLTextAreaElement>;
-    onChange(evt);
+  const handleChange = (next: string, update: ViewUpdate) => {
+    const isTyping = update.transactions.every((tr) => !tr.docChanged || tr.isUserEvent('input.type') || (tr.isUserEvent('delete') && !tr.isUserEvent('delete.cut')));
+    onChange(next, update.changes, isTyping);
   };
 
   /**
@@ -140,6 +261,8 @@ const Editor = forwardRef<HTMLTextAreaElement, EditorProps>(({ value, onChange,
         onChange={handleChange}
         height="100%"
         basicSetup={{
+          history: false,
+          historyKeymap: false,
           lineNumbers: true,
           highlightActiveLine: true,
           highlightActiveLineGutter: true,
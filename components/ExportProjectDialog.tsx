@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { Download, Loader, X } from 'lucide-react';
+import { CompilePdfPayload, payloadSources } from '../api/compilePdf';
+import { CachedPdf, getCachedPdf, hashPayload } from '../lib/pdfCache';
+import { archiveFileName, buildProjectArchive } from '../lib/projectArchive';
+
+export interface ExportProjectDialogProps {
+  /** Mesmo conjunto de arquivos enviado na compilação do PDF. */
+  payload: CompilePdfPayload;
+  onClose: () => void;
+}
+
+/**
+ * Modal de exportação do projeto em .zip, com a opção de incluir o PDF já compilado para o conteúdo atual.
+ */
+export default function ExportProjectDialog({ payload, onClose }: ExportProjectDialogProps) {
+  const [cachedPdf, setCachedPdf] = useState<CachedPdf | null>(null);
+  const [includePdf, setIncludePdf] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const files = payloadSources(payload);
+
+  /**
+   * Procura no cache local o PDF compilado a partir exatamente deste conteúdo.
+   */
+  useEffect(() => {
+    let cancelled = false;
+    hashPayload(payload)
+      .then((hash) => (hash ? getCachedPdf(hash) : undefined))
+      .then((cached) => { if (!cancelled) setCachedPdf(cached ?? null); })
+      .catch(() => { /* Sem cache disponível: exporta apenas os fontes. */ });
+    return () => { cancelled = true; };
+  }, [payload]);
+
+  /**
+   * Gera o .zip e dispara o download.
+   */
+  const handleExport = () => {
+    setIsExporting(true);
+    setError(null);
+    const pdf = includePdf && cachedPdf ? { blob: cachedPdf.blob, fileName: cachedPdf.fileName } : undefined;
+    buildProjectArchive(files, payload.template, pdf)
+      .then((blob) => {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = archiveFileName();
+        link.click();
+        window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+        onClose();
+      })
+      .catch((err) => setError(err?.message || 'Falha ao gerar o .zip.'))
+      .finally(() => setIsExporting(false));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" aria-modal="true" role="dialog">
+      <div className="w-full max-w-md rounded-xl bg-white dark:bg-gray-800 shadow-2xl text-gray-800 dark:text-gray-100">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold">Exportar projeto (.zip)</h2>
+          <button type="button" onClick={onClose} className="p-1.5 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700" title="Fechar" aria-label="Fechar">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-4 py-3 space-y-3 text-sm">
+          <p className="text-gray-600 dark:text-gray-300">
+            O .zip terá os arquivos abaixo, um <code>manifest.json</code> e as imagens referenciadas por URL que puderem ser baixadas.
+          </p>
+          <ul className="max-h-48 overflow-auto rounded border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+            {files.map((file) => (
+              <li key={file.name} className="px-3 py-1.5 font-mono text-xs">{file.name}</li>
+            ))}
+          </ul>
+          <label className={`flex items-center gap-2 ${cachedPdf ? '' : 'opacity-60'}`}>
+            <input type="checkbox" checked={includePdf && !!cachedPdf} disabled={!cachedPdf} onChange={(e) => setIncludePdf(e.target.checked)} />
+            {cachedPdf ? `Incluir o último PDF compilado (${cachedPdf.fileName})` : 'Nenhum PDF compilado para o conteúdo atual'}
+          </label>
+          {error && <p role="alert" className="text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-gray-200 dark:border-gray-700">
+          <button type="button" onClick={onClose} className="px-3 py-1.5 rounded-md text-sm hover:bg-gray-200 dark:hover:bg-gray-700">
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={isExporting}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-md text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-60"
+          >
+            {isExporting ? <Loader size={16} className="animate-spin" /> : <Download size={16} />} Exportar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { ImagePlus, X } from 'lucide-react';
+import { BlockFormat, figureBlock, FigureKind } from '../lib/floatBlocks';
+
+export interface FigureDialogProps {
+  /** Recebe o bloco gerado, inserido no lugar da seleção. */
+  onSubmit: (block: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Modal de figura: gera o ambiente figure (ou table com imagem, como no modelo SBC) com \includegraphics,
+ * legenda, rótulo e largura, ou a imagem com atributos do Pandoc.
+ */
+export default function FigureDialog({ onSubmit, onClose }: FigureDialogProps) {
+  const [kind, setKind] = useState<FigureKind>('figure');
+  const [format, setFormat] = useState<BlockFormat>('latex');
+  const [source, setSource] = useState('');
+  const [caption, setCaption] = useState('');
+  const [label, setLabel] = useState('');
+  const [width, setWidth] = useState(70);
+
+  const effectiveFormat: BlockFormat = kind === 'table' ? 'latex' : format;
+  const block = figureBlock({ kind, source, caption, label, width, format: effectiveFormat });
+  const inputClass = 'w-full px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" aria-modal="true" role="dialog">
+      <div className="w-full max-w-lg rounded-xl bg-white dark:bg-gray-800 shadow-2xl text-gray-800 dark:text-gray-100">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold">Inserir figura</h2>
+          <button type="button" onClick={onClose} className="p-1.5 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700" title="Fechar" aria-label="Fechar">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-4 py-3 space-y-3 text-sm">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1">
+              <span className="block text-xs text-gray-600 dark:text-gray-300">Tipo</span>
+              <select value={kind} onChange={(e) => setKind(e.target.value as FigureKind)} className={inputClass}>
+                <option value="figure">Figura</option>
+                <option value="table">Tabela (imagem)</option>
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="block text-xs text-gray-600 dark:text-gray-300">Formato</span>
+              <select
+                value={effectiveFormat}
+                onChange={(e) => setFormat(e.target.value as BlockFormat)}
+                disabled={kind === 'table'}
+                title={kind === 'table' ? 'Tabelas em imagem só existem no ambiente table do LaTeX' : undefined}
+                className={`${inputClass} disabled:opacity-60`}
+              >
+                <option value="latex">LaTeX (ambiente {kind})</option>
+                <option value="markdown">Markdown (Pandoc)</option>
+              </select>
+            </label>
+          </div>
+          <label className="block space-y-1">
+            <span className="block text-xs text-gray-600 dark:text-gray-300">Imagem (caminho no projeto ou URL)</span>
+            <input value={source} onChange={(e) => setSource(e.target.value)} placeholder="imagens/figura.png" className={inputClass} autoFocus />
+          </label>
+          <label className="block space-y-1">
+            <span className="block text-xs text-gray-600 dark:text-gray-300">Legenda</span>
+            <input value={caption} onChange={(e) => setCaption(e.target.value)} className={inputClass} />
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1">
+              <span className="block text-xs text-gray-600 dark:text-gray-300">Rótulo</span>
+              <input value={label} onChange={(e) => setLabel(e.target.value)} placeholder={kind === 'table' ? 'tab:exemplo' : 'fig:exemplo'} className={inputClass} />
+            </label>
+            <label className="space-y-1">
+              <span className="block text-xs text-gray-600 dark:text-gray-300">Largura: {width}% do texto</span>
+              <input type="range" min={10} max={100} step={5} value={width} onChange={(e) => setWidth(Number(e.target.value))} className="w-full" />
+            </label>
+          </div>
+
+          <pre className="overflow-auto p-2 rounded-md bg-gray-100 dark:bg-gray-900 text-xs" aria-label="Código gerado">{block}</pre>
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-gray-200 dark:border-gray-700">
+          <button type="button" onClick={onClose} className="px-3 py-1.5 rounded-md text-sm hover:bg-gray-200 dark:hover:bg-gray-700">
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={() => onSubmit(block)}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-md text-sm bg-blue-600 text-white hover:bg-blue-700"
+          >
+            <ImagePlus size={16} /> Inserir
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
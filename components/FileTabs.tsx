@@ -1,11 +1,19 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { isProtectedFile } from '../lib/projectFiles';
 
 export interface FileTabsProps {
   files: string[];
   activeFile: string;
   onTabClick: (file: string) => void;
+  onCreate: (name: string) => string | null;
+  onRename: (oldName: string, newName: string) => string | null;
+  onDelete: (file: string) => void;
+  onReorder: (from: number, to: number) => void;
 }
 
+type EditingState = { mode: 'create' } | { mode: 'rename'; file: string } | null;
+
 /**
  * Retorna as classes Tailwind para um tab, variando conforme esteja ativo ou não.
  */
@@ -17,25 +25,127 @@ function getTabClass(isActive: boolean): string {
 }
 
 /**
- * Renderiza uma barra de abas para arquivos e chama onTabClick ao selecionar.
+ * Campo inline para nomear arquivos: Enter confirma, Escape ou perda de foco cancela.
+ */
+function FileNameInput({ initial, onSubmit, onCancel }: { initial: string; onSubmit: (name: string) => string | null; onCancel: () => void }) {
+  const [value, setValue] = useState(initial);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onCancel();
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      setError(onSubmit(value));
+    }
+  };
+
+  return (
+    <span className="relative self-center">
+      <input
+        autoFocus
+        value={value}
+        onChange={(e) => { setValue(e.target.value); setError(null); }}
+        onKeyDown={handleKeyDown}
+        onBlur={onCancel}
+        onFocus={(e) => e.target.setSelectionRange(0, Math.max(0, initial.lastIndexOf('.')) || initial.length)}
+        placeholder="capitulo.md"
+        aria-label="Nome do arquivo"
+        aria-invalid={!!error}
+        className={`w-40 px-2 py-1 text-sm rounded border bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-100 focus:outline-none ${error ? 'border-red-500' : 'border-blue-500'}`}
+      />
+      {error && (
+        <span role="alert" className="absolute left-0 top-full mt-1 z-20 whitespace-nowrap rounded bg-red-600 px-2 py-1 text-xs text-white shadow">
+          {error}
+        </span>
+      )}
+    </span>
+  );
+}
+
+/**
+ * Renderiza a barra de abas dos arquivos do projeto, com criação, renomeação (duplo clique),
+ * exclusão e reordenação por arrastar e soltar.
  */
-export default function FileTabs({ files, activeFile, onTabClick }: FileTabsProps) {
+export default function FileTabs({ files, activeFile, onTabClick, onCreate, onRename, onDelete, onReorder }: FileTabsProps) {
+  const [editing, setEditing] = useState<EditingState>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  /**
+   * Conclui a criação/renomeação; mantém o campo aberto quando o callback retorna erro.
+   */
+  const submit = (name: string): string | null => {
+    if (!editing) return null;
+    const error = editing.mode === 'create' ? onCreate(name) : onRename(editing.file, name);
+    if (!error) setEditing(null);
+    return error;
+  };
+
   return (
     <div className="flex-shrink-0 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
-      <nav className="flex space-x-2 px-4" aria-label="Files">
-        {files.map((file) => {
+      <nav className="flex items-stretch space-x-2 px-4 overflow-x-auto" aria-label="Files">
+        {files.map((file, index) => {
           const isActive = activeFile === file;
+          const isProtected = isProtectedFile(file);
+          if (editing?.mode === 'rename' && editing.file === file) {
+            return (
+              <React.Fragment key={file}>
+                <FileNameInput initial={file} onSubmit={submit} onCancel={() => setEditing(null)} />
+              </React.Fragment>
+            );
+          }
           return (
-            <button
+            <div
               key={file}
-              onClick={() => onTabClick(file)}
-              className={getTabClass(isActive)}
-              aria-current={isActive ? 'page' : undefined}
+              draggable
+              onDragStart={(e) => { setDragIndex(index); e.dataTransfer.effectAllowed = 'move'; }}
+              onDragOver={(e) => { if (dragIndex !== null) e.preventDefault(); }}
+              onDrop={(e) => {
+                e.preventDefault();
+                if (dragIndex !== null) onReorder(dragIndex, index);
+                setDragIndex(null);
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              className={`group flex items-center ${dragIndex === index ? 'opacity-50' : ''}`}
             >
-              {file}
-            </button>
+              <button
+                onClick={() => onTabClick(file)}
+                onDoubleClick={() => { if (!isProtected) setEditing({ mode: 'rename', file }); }}
+                className={getTabClass(isActive)}
+                aria-current={isActive ? 'page' : undefined}
+                title={isProtected ? file : `${file} (duplo clique para renomear)`}
+              >
+                {file}
+              </button>
+              {!isProtected && (
+                <button
+                  type="button"
+                  onClick={() => onDelete(file)}
+                  className="ml-0.5 p-0.5 rounded text-gray-400 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-gray-200 dark:hover:bg-gray-700 hover:text-gray-700 dark:hover:text-gray-200"
+                  title={`Excluir ${file}`}
+                  aria-label={`Excluir ${file}`}
+                >
+                  <X size={14} />
+                </button>
+              )}
+            </div>
           );
         })}
+
+        {editing?.mode === 'create' ? (
+          <FileNameInput initial="" onSubmit={submit} onCancel={() => setEditing(null)} />
+        ) : (
+          <button
+            type="button"
+            onClick={() => setEditing({ mode: 'create' })}
+            className="self-center p-1.5 rounded text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 hover:text-gray-700 dark:hover:text-gray-200"
+            title="Novo arquivo"
+            aria-label="Novo arquivo"
+          >
+            <Plus size={16} />
+          </button>
+        )}
       </nav>
     </div>
   );
@@ -1,18 +1,27 @@
 import React from 'react';
-import { Eye, EyeOff, FileDown, Loader, Moon, Sun, Undo, Redo } from 'lucide-react';
+import { HISTORY_DEPTHS } from '../lib/editHistory';
+import type { CommandRegistry } from '../lib/commands';
+import { ClipboardCheck, Cloud, Command, CloudOff, Eye, EyeOff, FileArchive, FileDown, FilePlus2, FileText, FolderOpen, History, Keyboard, Link2, Link2Off, Loader, Moon, Search, SpellCheck, Sun, Undo, Redo, RotateCcw } from 'lucide-react';
 
 export interface HeaderProps {
-  onTogglePreview: () => void;
+  /** Registro de comandos: os botões executam os comandos pelo id e mostram os atalhos em vigor. */
+  registry: CommandRegistry;
   isPreviewVisible: boolean;
-  onGeneratePdf: () => void;
+  previewPane: 'html' | 'pdf';
+  isScrollSyncEnabled: boolean;
   isGeneratingPdf: boolean;
   isDarkMode: boolean;
-  onToggleDarkMode: () => void;
   isMarkdownActive: boolean;
-  onUndo: () => void;
-  onRedo: () => void;
-  canUndo: boolean;
-  canRedo: boolean;
+  /** Número máximo de passos de desfazer por arquivo. */
+  historyDepth: number;
+  onHistoryDepthChange: (depth: number) => void;
+  /** Nome do modelo de documento do projeto. */
+  templateName: string;
+  isSearchOpen: boolean;
+  isSpellCheckEnabled: boolean;
+  /** Motivo da falha ao carregar o corretor, exibido no botão de ortografia. */
+  spellCheckError: string | null;
+  saveStatus: 'idle' | 'saving' | 'saved' | 'error';
 }
 
 export interface ActionButtonProps {
@@ -48,24 +57,55 @@ function Divider() {
   return <div className="h-6 w-px bg-gray-200 dark:bg-gray-700 mx-1" />;
 }
 
+/**
+ * Indica o estado do salvamento automático local do workspace.
+ */
+function SaveIndicator({ status }: { status: HeaderProps['saveStatus'] }) {
+  if (status === 'error') {
+    return (
+      <span className="p-2 text-red-500 dark:text-red-400" title="Falha ao salvar localmente" aria-label="Falha ao salvar localmente">
+        <CloudOff size={18} />
+      </span>
+    );
+  }
+  if (status === 'idle') return null;
+  const label = status === 'saving' ? 'Salvando…' : 'Salvo localmente';
+  return (
+    <span className={`p-2 text-gray-400 dark:text-gray-500 ${status === 'saving' ? 'animate-pulse' : ''}`} title={label} aria-label={label}>
+      <Cloud size={18} />
+    </span>
+  );
+}
+
 /**
  * Cabeçalho da aplicação com controles de desfazer/refazer, preview, geração de PDF e alternância de tema.
  */
 export default function Header({
-  onTogglePreview,
+  registry,
   isPreviewVisible,
-  onGeneratePdf,
+  previewPane,
+  isScrollSyncEnabled,
   isGeneratingPdf,
   isDarkMode,
-  onToggleDarkMode,
   isMarkdownActive,
-  onUndo,
-  onRedo,
-  canUndo,
-  canRedo,
+  historyDepth,
+  onHistoryDepthChange,
+  templateName,
+  isSearchOpen,
+  isSpellCheckEnabled,
+  spellCheckError,
+  saveStatus,
 }: HeaderProps) {
+  const { run, isEnabled, tooltip } = registry;
+  const isPdfPane = previewPane === 'pdf';
+  const canShowPreview = isMarkdownActive || isPdfPane;
   const previewAria = isPreviewVisible ? 'Hide Preview' : 'Show Preview';
-  const previewTitle = !isMarkdownActive ? 'Preview is only available for Markdown files' : undefined;
+  const previewTitle = !canShowPreview ? 'Preview is only available for Markdown files' : undefined;
+  const pdfPaneLabel = isPdfPane && isPreviewVisible ? 'Show HTML preview' : 'Show live PDF';
+  const syncLabel = isScrollSyncEnabled ? 'Disable scroll sync' : 'Enable scroll sync';
+  const spellLabel = isSpellCheckEnabled ? 'Disable spell check' : 'Enable spell check';
+  const spellFailed = isSpellCheckEnabled && !!spellCheckError;
+  const spellTitle = spellFailed ? `Spell check failed to load: ${spellCheckError}` : tooltip('edit.spellCheck', `${spellLabel} (Portuguese and English)`);
   const pdfTitle = !isMarkdownActive ? 'PDF generation is only available for Markdown files' : undefined;
 
   return (
@@ -78,30 +118,95 @@ export default function Header({
           </div>
 
           <div className="flex items-center space-x-1">
-            <ActionButton onClick={onUndo} disabled={!canUndo} ariaLabel="Undo">
+            <SaveIndicator status={saveStatus} />
+            <ActionButton onClick={() => run('project.new')} ariaLabel="New project from template" title={tooltip('project.new', `New project from template (current: ${templateName})`)}>
+              <FilePlus2 size={20} />
+            </ActionButton>
+            <ActionButton onClick={() => run('project.reset')} ariaLabel="Reset to template" title={tooltip('project.reset', `Reset to ${templateName} template`)}>
+              <RotateCcw size={20} />
+            </ActionButton>
+            <ActionButton onClick={() => run('project.export')} ariaLabel="Export project (.zip)" title={tooltip('project.export', 'Export project (.zip)')}>
+              <FileArchive size={20} />
+            </ActionButton>
+            <ActionButton onClick={() => run('project.import')} ariaLabel="Import project (.zip)" title={tooltip('project.import', 'Import project (.zip)')}>
+              <FolderOpen size={20} />
+            </ActionButton>
+
+            <Divider />
+
+            <ActionButton onClick={() => run('edit.search')} ariaLabel="Search in project" title={tooltip('edit.search', 'Search and replace in all files')}>
+              <Search size={20} className={isSearchOpen ? 'text-blue-500' : undefined} />
+            </ActionButton>
+            <ActionButton onClick={() => run('edit.spellCheck')} ariaLabel={spellFailed ? 'Spell check failed to load' : spellLabel} title={spellTitle}>
+              <SpellCheck size={20} className={spellFailed ? 'text-red-500' : isSpellCheckEnabled ? 'text-blue-500' : undefined} />
+            </ActionButton>
+            <ActionButton onClick={() => run('project.snapshots')} ariaLabel="Snapshots" title={tooltip('project.snapshots', 'Snapshots (save and compare checkpoints)')}>
+              <History size={20} />
+            </ActionButton>
+            <ActionButton onClick={() => run('edit.undo')} disabled={!isEnabled('edit.undo')} ariaLabel="Undo" title={tooltip('edit.undo', 'Undo')}>
               <Undo size={20} />
             </ActionButton>
-            <ActionButton onClick={onRedo} disabled={!canRedo} ariaLabel="Redo">
+            <ActionButton onClick={() => run('edit.redo')} disabled={!isEnabled('edit.redo')} ariaLabel="Redo" title={tooltip('edit.redo', 'Redo')}>
               <Redo size={20} />
             </ActionButton>
+            <select
+              value={historyDepth}
+              onChange={(e) => onHistoryDepthChange(Number(e.target.value))}
+              aria-label="Undo history depth"
+              title="Undo history depth (steps per file)"
+              className="text-xs rounded border border-gray-200 dark:border-gray-700 bg-transparent text-gray-500 dark:text-gray-400 px-1 py-1"
+            >
+              {HISTORY_DEPTHS.map((depth) => <option key={depth} value={depth}>{depth}</option>)}
+            </select>
 
             <Divider />
 
             <div title={previewTitle}>
-              <ActionButton onClick={onTogglePreview} disabled={!isMarkdownActive} ariaLabel={previewAria}>
-                {isPreviewVisible && isMarkdownActive ? <EyeOff size={20} /> : <Eye size={20} />}
+              <ActionButton onClick={() => run('view.preview')} disabled={!isEnabled('view.preview')} ariaLabel={previewAria} title={previewTitle ? undefined : tooltip('view.preview', previewAria)}>
+                {isPreviewVisible && canShowPreview ? <EyeOff size={20} /> : <Eye size={20} />}
               </ActionButton>
             </div>
 
+            <ActionButton onClick={() => run('view.pdfPane')} ariaLabel={pdfPaneLabel} title={tooltip('view.pdfPane', pdfPaneLabel)}>
+              <FileText size={20} className={isPdfPane && isPreviewVisible ? 'text-blue-500' : undefined} />
+            </ActionButton>
+
+            <ActionButton
+              onClick={() => run('view.scrollSync')}
+              disabled={!isEnabled('view.scrollSync')}
+              ariaLabel={syncLabel}
+              title={tooltip('view.scrollSync', syncLabel)}
+            >
+              {isScrollSyncEnabled ? <Link2 size={20} /> : <Link2Off size={20} />}
+            </ActionButton>
+
             <div title={pdfTitle}>
-              <ActionButton onClick={onGeneratePdf} disabled={isGeneratingPdf || !isMarkdownActive} ariaLabel="Generate PDF">
+              <ActionButton
+                onClick={() => run('project.generatePdf')}
+                disabled={!isEnabled('project.generatePdf')}
+                ariaLabel="Generate PDF"
+                title={pdfTitle ? undefined : tooltip('project.generatePdf', 'Generate PDF')}
+              >
                 {isGeneratingPdf ? <Loader size={20} className="animate-spin" /> : <FileDown size={20} />}
               </ActionButton>
             </div>
+            <ActionButton onClick={() => run('project.conformance')} ariaLabel="Check submission" title={tooltip('project.conformance', `Check submission against ${templateName} rules`)}>
+              <ClipboardCheck size={20} />
+            </ActionButton>
 
             <Divider />
 
-            <ActionButton onClick={onToggleDarkMode} ariaLabel={isDarkMode ? 'Switch to Light Mode' : 'Switch to Dark Mode'}>
+            <ActionButton onClick={() => run('app.commandPalette')} ariaLabel="Command palette" title={tooltip('app.commandPalette', 'Command palette')}>
+              <Command size={20} />
+            </ActionButton>
+            <ActionButton onClick={() => run('app.keybindings')} ariaLabel="Keyboard shortcuts" title={tooltip('app.keybindings', 'Keyboard shortcuts')}>
+              <Keyboard size={20} />
+            </ActionButton>
+            <ActionButton
+              onClick={() => run('view.darkMode')}
+              ariaLabel={isDarkMode ? 'Switch to Light Mode' : 'Switch to Dark Mode'}
+              title={tooltip('view.darkMode', isDarkMode ? 'Switch to Light Mode' : 'Switch to Dark Mode')}
+            >
               {isDarkMode ? <Sun size={20} /> : <Moon size={20} />}
             </ActionButton>
           </div>
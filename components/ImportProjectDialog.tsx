@@ -0,0 +1,94 @@
+import React from 'react';
+import { AlertCircle, X } from 'lucide-react';
+import type { ImportedProject } from '../lib/projectArchive';
+
+/** Modo de importação: substituir o workspace inteiro ou mesclar os arquivos do .zip nele. */
+export type ImportMode = 'replace' | 'merge';
+
+export interface ImportProjectDialogProps {
+  /** Projeto lido do .zip, ou null quando a leitura falhou. */
+  project: ImportedProject | null;
+  /** Mensagem de validação quando o .zip foi recusado. */
+  error: string | null;
+  /** Conteúdo atual de cada arquivo do workspace, para indicar o que será sobrescrito. */
+  currentContents: Record<string, string>;
+  onConfirm: (mode: ImportMode) => void;
+  onClose: () => void;
+}
+
+/**
+ * Modal de confirmação da importação de um .zip: mostra o que será criado, sobrescrito ou ignorado
+ * e deixa escolher entre mesclar e substituir o projeto.
+ */
+export default function ImportProjectDialog({ project, error, currentContents, onConfirm, onClose }: ImportProjectDialogProps) {
+  const statusOf = (name: string, content: string) => {
+    if (!(name in currentContents)) return { label: 'novo', className: 'text-green-600 dark:text-green-400' };
+    if (currentContents[name] === content) return { label: 'sem alterações', className: 'text-gray-500 dark:text-gray-400' };
+    return { label: 'sobrescreve o atual', className: 'text-amber-600 dark:text-amber-400' };
+  };
+  const removed = project ? Object.keys(currentContents).filter((name) => !project.files.some((f) => f.name === name)) : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" aria-modal="true" role="dialog">
+      <div className="w-full max-w-lg rounded-xl bg-white dark:bg-gray-800 shadow-2xl text-gray-800 dark:text-gray-100">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold">Importar projeto (.zip)</h2>
+          <button type="button" onClick={onClose} className="p-1.5 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700" title="Fechar" aria-label="Fechar">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-4 py-3 space-y-3 text-sm">
+          {error || !project ? (
+            <p role="alert" className="flex items-start gap-2 text-red-600 dark:text-red-400">
+              <AlertCircle size={16} className="mt-0.5 shrink-0" /> {error ?? 'Não foi possível ler o .zip.'}
+            </p>
+          ) : (
+            <>
+              <p className="text-gray-600 dark:text-gray-300">
+                Exportado em {new Date(project.manifest.exportedAt).toLocaleString()}. Arquivos do .zip:
+              </p>
+              <ul className="max-h-56 overflow-auto rounded border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+                {project.files.map((file) => {
+                  const status = statusOf(file.name, file.content);
+                  return (
+                    <li key={file.name} className="flex justify-between gap-3 px-3 py-1.5">
+                      <span className="font-mono text-xs">{file.name}</span>
+                      <span className={`text-xs ${status.className}`}>{status.label}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+              {project.skipped.length > 0 && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Não serão importados (imagens, PDF ou arquivos fora do manifest): {project.skipped.join(', ')}.
+                </p>
+              )}
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                <strong>Mesclar</strong> mantém os demais arquivos e permite desfazer cada sobrescrita.{' '}
+                <strong>Substituir</strong> descarta o projeto atual e o histórico
+                {removed.length > 0 ? `, removendo ${removed.join(', ')}` : ''}.
+              </p>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-gray-200 dark:border-gray-700">
+          <button type="button" onClick={onClose} className="px-3 py-1.5 rounded-md text-sm hover:bg-gray-200 dark:hover:bg-gray-700">
+            Cancelar
+          </button>
+          {project && !error && (
+            <>
+              <button type="button" onClick={() => onConfirm('merge')} className="px-3 py-1.5 rounded-md text-sm border border-blue-600 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30">
+                Mesclar
+              </button>
+              <button type="button" onClick={() => onConfirm('replace')} className="px-3 py-1.5 rounded-md text-sm bg-red-600 text-white hover:bg-red-700">
+                Substituir projeto
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Keyboard, Plus, RotateCcw, X } from 'lucide-react';
+import { Command, effectiveKeys, eventToKey, findConflicts, formatKey, fuzzyMatch, isUsableKey, KeybindingOverrides, normalizeKey } from '../lib/commands';
+
+export interface KeybindingsDialogProps {
+  commands: Command[];
+  overrides: KeybindingOverrides;
+  /** Recebe os atalhos do usuário atualizados, persistidos pelo workspace. */
+  onChange: (overrides: KeybindingOverrides) => void;
+  onClose: () => void;
+}
+
+/**
+ * Editor de atalhos: grava novas combinações de teclas por comando, remove ou restaura as padrão e
+ * avisa quando um atalho já é usado pelo editor (defaultKeymap do CodeMirror) ou por outro comando.
+ */
+export default function KeybindingsDialog({ commands, overrides, onChange, onClose }: KeybindingsDialogProps) {
+  const [filter, setFilter] = useState('');
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const conflicts = findConflicts(commands, overrides);
+  const visible = commands.filter((c) => fuzzyMatch(filter, `${c.category}: ${c.title}`));
+
+  /**
+   * Enquanto grava, captura a próxima combinação antes do editor e dos atalhos globais; Esc cancela.
+   */
+  useEffect(() => {
+    if (!recordingId) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.key === 'Escape' && !event.ctrlKey && !event.metaKey && !event.altKey) {
+        setRecordingId(null);
+        setError(null);
+        return;
+      }
+      const key = eventToKey(event);
+      if (!key) return;
+      if (!isUsableKey(key)) {
+        setError(`${formatKey(key)} atrapalharia a digitação: use Ctrl, Cmd ou Alt, ou uma tecla F1–F12.`);
+        return;
+      }
+      const command = commands.find((c) => c.id === recordingId);
+      const current = command ? effectiveKeys(command, overrides) : [];
+      if (!current.some((k) => normalizeKey(k) === key)) onChange({ ...overrides, [recordingId]: [...current, key] });
+      setRecordingId(null);
+      setError(null);
+    };
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [recordingId, commands, overrides, onChange]);
+
+  const removeKey = (command: Command, key: string) => {
+    onChange({ ...overrides, [command.id]: effectiveKeys(command, overrides).filter((k) => k !== key) });
+  };
+
+  const resetCommand = (id: string) => {
+    const { [id]: _removed, ...rest } = overrides;
+    onChange(rest);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" aria-modal="true" role="dialog">
+      <div className="flex flex-col w-full max-w-3xl max-h-[90vh] rounded-xl bg-white dark:bg-gray-800 shadow-2xl text-gray-800 dark:text-gray-100">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="flex items-center gap-2 text-lg font-semibold">
+            <Keyboard size={18} /> Atalhos de teclado
+          </h2>
+          <button type="button" onClick={onClose} className="p-1.5 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700" title="Fechar" aria-label="Fechar">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-4 py-3 space-y-2 border-b border-gray-200 dark:border-gray-700 text-sm">
+          <input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filtrar comandos…"
+            aria-label="Filtrar comandos"
+            className="w-full px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900"
+            autoFocus
+          />
+          {recordingId && (
+            <p className="text-xs text-blue-700 dark:text-blue-300" role="status">
+              Pressione a nova combinação de teclas (Esc cancela).
+            </p>
+          )}
+          {error && <p className="text-xs text-red-600 dark:text-red-400" role="alert">{error}</p>}
+        </div>
+
+        <ul className="flex-grow overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+          {visible.map((command) => {
+            const keys = effectiveKeys(command, overrides);
+            const isCustom = command.id in overrides;
+            const isRecording = recordingId === command.id;
+            return (
+              <li key={command.id} className="px-4 py-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="flex-grow min-w-[12rem]">
+                    <span className="text-gray-500 dark:text-gray-400">{command.category}: </span>
+                    {command.title}
+                    {isCustom && <span className="ml-2 text-xs text-blue-600 dark:text-blue-400">personalizado</span>}
+                  </span>
+                  {keys.map((key) => (
+                    <span key={key} className="flex items-center gap-1 pl-1.5 rounded border border-gray-300 dark:border-gray-600 text-xs">
+                      <kbd className="font-sans">{formatKey(key)}</kbd>
+                      <button
+                        type="button"
+                        onClick={() => removeKey(command, key)}
+                        className="p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+                        title="Remover atalho"
+                        aria-label={`Remover ${formatKey(key)} de ${command.title}`}
+                      >
+                        <X size={12} />
+                      </button>
+                    </span>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => { setRecordingId(isRecording ? null : command.id); setError(null); }}
+                    className={`flex items-center gap-1 px-2 py-0.5 rounded-md text-xs hover:bg-gray-200 dark:hover:bg-gray-700 ${isRecording ? 'bg-blue-100 dark:bg-blue-900/40' : ''}`}
+                    title="Gravar atalho"
+                  >
+                    <Plus size={12} /> {isRecording ? 'Gravando…' : 'Atalho'}
+                  </button>
+                  {isCustom && (
+                    <button
+                      type="button"
+                      onClick={() => resetCommand(command.id)}
+                      className="p-1 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700"
+                      title="Restaurar padrão"
+                      aria-label={`Restaurar atalhos padrão de ${command.title}`}
+                    >
+                      <RotateCcw size={14} />
+                    </button>
+                  )}
+                </div>
+                {conflicts[command.id]?.map((conflict) => (
+                  <p key={conflict.description} className="flex items-center gap-1.5 mt-1 text-xs text-amber-700 dark:text-amber-400">
+                    <AlertTriangle size={12} /> Conflito: {conflict.description}
+                  </p>
+                ))}
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex justify-between gap-2 px-4 py-3 border-t border-gray-200 dark:border-gray-700">
+          <button
+            type="button"
+            onClick={() => onChange({})}
+            disabled={!Object.keys(overrides).length}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            <RotateCcw size={14} /> Restaurar todos
+          </button>
+          <button type="button" onClick={onClose} className="px-3 py-1.5 rounded-md text-sm bg-blue-600 text-white hover:bg-blue-700">
+            Concluir
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { ConfigMigration, migrateConfig, TemplateId, TEMPLATES } from '../lib/templates';
+
+export interface NewProjectDialogProps {
+  currentTemplateId: TemplateId;
+  /** configuracao.yaml atual, usado para prever a migração ao trocar de modelo. */
+  configYaml: string;
+  /** Descarta o projeto atual e cria um novo com o conteúdo inicial do modelo. */
+  onCreate: (templateId: TemplateId) => void;
+  /** Mantém o projeto atual, trocando o modelo e gravando o configuracao.yaml migrado. */
+  onSwitch: (templateId: TemplateId, migration: ConfigMigration) => void;
+  onClose: () => void;
+}
+
+/**
+ * Modal de escolha de modelo: cria um projeto novo a partir dele ou troca o modelo do projeto
+ * atual, mostrando antes quais chaves do configuracao.yaml serão removidas ou adicionadas.
+ */
+export default function NewProjectDialog({ currentTemplateId, configYaml, onCreate, onSwitch, onClose }: NewProjectDialogProps) {
+  const [selected, setSelected] = useState<TemplateId>(currentTemplateId);
+  const target = TEMPLATES.find((t) => t.id === selected)!;
+
+  /**
+   * Prévia da migração do configuracao.yaml para o modelo selecionado.
+   */
+  const migration = useMemo((): { result: ConfigMigration | null; error: string | null } => {
+    if (selected === currentTemplateId) return { result: null, error: null };
+    try {
+      return { result: migrateConfig(configYaml, target), error: null };
+    } catch (err) {
+      return { result: null, error: (err as Error).message };
+    }
+  }, [selected, currentTemplateId, configYaml, target]);
+
+  /**
+   * Cria o projeto novo após confirmar o descarte do atual.
+   */
+  const handleCreate = () => {
+    if (!window.confirm(`Criar um projeto ${target.name}? Todo o conteúdo e o histórico atuais serão descartados.`)) return;
+    onCreate(selected);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" aria-modal="true" role="dialog">
+      <div className="w-full max-w-2xl rounded-xl bg-white dark:bg-gray-800 shadow-2xl text-gray-800 dark:text-gray-100">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold">Modelo do documento</h2>
+          <button type="button" onClick={onClose} className="p-1.5 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700" title="Fechar" aria-label="Fechar">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-4 py-3 space-y-3 text-sm">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2" role="radiogroup" aria-label="Modelos">
+            {TEMPLATES.map((template) => (
+              <button
+                key={template.id}
+                type="button"
+                role="radio"
+                aria-checked={selected === template.id}
+                onClick={() => setSelected(template.id)}
+                className={`text-left p-3 rounded-lg border transition-colors ${selected === template.id
+                  ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30'
+                  : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}
+              >
+                <span className="flex items-center justify-between font-semibold">
+                  {template.name}
+                  {template.id === currentTemplateId && <span className="text-xs font-normal text-gray-500 dark:text-gray-400">atual</span>}
+                </span>
+                <span className="block mt-1 text-xs text-gray-600 dark:text-gray-300">{template.description}</span>
+              </button>
+            ))}
+          </div>
+
+          {migration.error && (
+            <p role="alert" className="flex items-start gap-2 text-red-600 dark:text-red-400">
+              <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+              Não é possível trocar o modelo do projeto atual. {migration.error}
+            </p>
+          )}
+          {migration.result && (
+            <div className="space-y-1 text-xs text-gray-600 dark:text-gray-300">
+              <p>Ao trocar o modelo do projeto atual, as chaves em comum do configuracao.yaml são mantidas.</p>
+              {migration.result.dropped.length > 0 && (
+                <p className="flex items-start gap-2 text-amber-700 dark:text-amber-300">
+                  <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+                  <span>
+                    Serão removidas por não existirem no modelo {target.name}: <strong>{migration.result.dropped.join(', ')}</strong>.
+                  </span>
+                </p>
+              )}
+              {migration.result.added.length > 0 && (
+                <p>Serão adicionadas com o valor de exemplo do modelo: {migration.result.added.join(', ')}.</p>
+              )}
+              <p>A alteração pode ser desfeita no configuracao.yaml.</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-gray-200 dark:border-gray-700">
+          <button type="button" onClick={onClose} className="px-3 py-1.5 rounded-md text-sm hover:bg-gray-200 dark:hover:bg-gray-700">
+            Cancelar
+          </button>
+          <button
+            type="button"
+            disabled={!migration.result}
+            onClick={() => migration.result && onSwitch(selected, migration.result)}
+            className="px-3 py-1.5 rounded-md text-sm border border-blue-600 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 disabled:opacity-50"
+          >
+            Trocar modelo do projeto atual
+          </button>
+          <button type="button" onClick={handleCreate} className="px-3 py-1.5 rounded-md text-sm bg-blue-600 text-white hover:bg-blue-700">
+            Criar projeto novo
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
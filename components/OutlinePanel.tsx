@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, GripVertical, X } from 'lucide-react';
+import type { OutlineHeading } from '../lib/documentOutline';
+
+export interface OutlinePanelProps {
+  outline: OutlineHeading[];
+  /** Índice da seção em que está o cursor, ou -1. */
+  currentIndex: number;
+  onSelect: (heading: OutlineHeading) => void;
+  /** Move a seção "index" (com as subseções) para antes da seção "before" (ou para o fim, com outline.length). */
+  onMove: (index: number, before: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Chave estável de uma seção entre edições, usada para lembrar quais estão recolhidas.
+ */
+function headingKey(heading: OutlineHeading): string {
+  return `${heading.level}:${heading.text}`;
+}
+
+/**
+ * Estrutura do documento a partir dos títulos Markdown, com a numeração do Pandoc, destaque da seção
+ * atual, navegação por clique e reordenação de seções inteiras por arrastar e soltar.
+ */
+export default function OutlinePanel({ outline, currentIndex, onSelect, onMove, onClose }: OutlinePanelProps) {
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const currentRef = useRef<HTMLLIElement>(null);
+
+  /**
+   * Mantém a seção atual visível na lista.
+   */
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [currentIndex]);
+
+  const toggle = (heading: OutlineHeading) => {
+    const key = headingKey(heading);
+    setCollapsed((prev: Record<string, boolean>) => ({ ...prev, [key]: !prev[key] }));
+  };
+
+  /**
+   * Conclui o arrastar soltando a seção antes de "before".
+   */
+  const drop = (before: number) => {
+    if (dragIndex !== null) onMove(dragIndex, before);
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const visible: number[] = [];
+  let hiddenBelow = Infinity;
+  outline.forEach((heading, i) => {
+    if (heading.level > hiddenBelow) return;
+    hiddenBelow = collapsed[headingKey(heading)] ? heading.level : Infinity;
+    visible.push(i);
+  });
+  const minLevel = Math.min(...outline.map((h) => h.level));
+
+  return (
+    <aside className="flex flex-col w-60 shrink-0 h-full min-h-0 border-r border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 text-sm text-gray-800 dark:text-gray-100">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="font-medium">Estrutura</h2>
+        <button type="button" onClick={onClose} className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700" title="Fechar estrutura" aria-label="Fechar estrutura">
+          <X size={16} />
+        </button>
+      </div>
+
+      {outline.length === 0 ? (
+        <p className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400">Nenhum título (#, ##, …) neste arquivo.</p>
+      ) : (
+        <ul className="flex-grow overflow-y-auto py-1" aria-label="Seções do documento">
+          {visible.map((i) => {
+            const heading = outline[i];
+            const hasChildren = outline[i + 1]?.level > heading.level;
+            const isCollapsed = !!collapsed[headingKey(heading)];
+            return (
+              <li
+                key={`${i}:${headingKey(heading)}`}
+                ref={i === currentIndex ? currentRef : undefined}
+                draggable
+                onDragStart={(e) => { setDragIndex(i); e.dataTransfer.effectAllowed = 'move'; }}
+                onDragOver={(e) => {
+                  if (dragIndex === null) return;
+                  e.preventDefault();
+                  setDropIndex(i);
+                }}
+                onDrop={(e) => { e.preventDefault(); drop(i); }}
+                onDragEnd={() => { setDragIndex(null); setDropIndex(null); }}
+                className={`group flex items-center border-t-2 ${dropIndex === i && dragIndex !== i ? 'border-blue-500' : 'border-transparent'} ${dragIndex === i ? 'opacity-50' : ''}`}
+                style={{ paddingLeft: `${(heading.level - minLevel) * 12 + 4}px` }}
+              >
+                <button
+                  type="button"
+                  onClick={() => toggle(heading)}
+                  className={`p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${hasChildren ? '' : 'invisible'}`}
+                  aria-label={isCollapsed ? 'Expandir seção' : 'Recolher seção'}
+                  aria-expanded={!isCollapsed}
+                >
+                  {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onSelect(heading)}
+                  title={`Linha ${heading.line}`}
+                  aria-current={i === currentIndex ? 'location' : undefined}
+                  className={`flex-1 min-w-0 flex gap-1.5 px-1 py-0.5 rounded text-left ${i === currentIndex
+                    ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200'
+                    : 'hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+                >
+                  {heading.number && <span className="shrink-0 tabular-nums text-gray-500 dark:text-gray-400">{heading.number}</span>}
+                  <span className={`truncate ${heading.level === minLevel ? 'font-medium' : ''}`}>{heading.text || '(sem título)'}</span>
+                </button>
+                <GripVertical size={14} className="shrink-0 mr-1 text-gray-400 opacity-0 group-hover:opacity-100 cursor-grab" aria-hidden="true" />
+              </li>
+            );
+          })}
+          <li
+            onDragOver={(e) => {
+              if (dragIndex === null) return;
+              e.preventDefault();
+              setDropIndex(outline.length);
+            }}
+            onDrop={(e) => { e.preventDefault(); drop(outline.length); }}
+            className={`h-6 border-t-2 ${dropIndex === outline.length ? 'border-blue-500' : 'border-transparent'}`}
+            aria-hidden="true"
+          />
+        </ul>
+      )}
+      <p className="px-3 py-1.5 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400">
+        Arraste um título para mover a seção inteira.
+      </p>
+    </aside>
+  );
+}
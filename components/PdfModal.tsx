@@ -1,28 +1,43 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { Loader, X, Download, Maximize2, ZoomIn, ZoomOut, ChevronLeft, ChevronRight, StretchHorizontal, ListTree } from 'lucide-react';
-import { Document, Page, pdfjs } from 'react-pdf';
-import { compilePdf } from '../api/compilePdf';
+import { AlertCircle, Clock, FileWarning, Loader, Lock, RefreshCw, Trash2, X, Download, Maximize2, ZoomIn, ZoomOut, ChevronLeft, ChevronRight, StretchHorizontal, ListTree } from 'lucide-react';
+import { Document, Page } from 'react-pdf';
+import { compilePdf, CompilePdfResponse, CompileTiming, isPdfApiConfigured, payloadSources } from '../api/compilePdf';
+import type { TemplateId } from '../lib/templates';
+import type { ProjectFile } from '../lib/projectFiles';
+import { CompileProblem, parseLatexLog, readCompileLog } from '../lib/latexLog';
+import '../lib/pdfjs';
+import { clearPdfCache } from '../lib/pdfCache';
+import { renderDraftPdf } from '../lib/draftPdf';
 
 import 'react-pdf/dist/Page/TextLayer.css';
 import 'react-pdf/dist/Page/AnnotationLayer.css';
 
-pdfjs.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
-
 type TocItem = { title: string; pageNumber: number | null; items?: TocItem[] };
 
+type CompileFailure = Extract<CompilePdfResponse, { status: 'auth-error' | 'timeout' }>;
+
 export interface PdfModalProps {
   isOpen: boolean;
   onClose: () => void;
+  template: TemplateId;
   indexMd: string;
   configuracaoYaml: string;
   referenciasBib: string;
+  extraFiles: ProjectFile[];
+  /** HTML do preview (folha de rosto, corpo e referências) usado no rascunho quando o backend não está disponível. */
+  renderDraftHtml: () => string;
+  /** Informa quando o PDF (ou o rascunho) começa e termina de ser gerado. */
+  onLoadingChange?: (isLoading: boolean) => void;
+  /** Recebe os problemas extraídos do log quando a compilação falha (lista vazia em caso de sucesso). */
+  onCompileProblems?: (problems: CompileProblem[]) => void;
 }
 
 /**
  * Exibe um modal com pré-visualização de PDF gerado no backend, suporte a zoom,
- * navegação por páginas e sumário (TOC) quando disponível.
+ * navegação por páginas e sumário (TOC) quando disponível. Sem backend configurado ou alcançável,
+ * exibe um rascunho gerado no navegador a partir do preview HTML.
  */
-export default function PdfModal({ isOpen, onClose, indexMd, configuracaoYaml, referenciasBib }: PdfModalProps) {
+export default function PdfModal({ isOpen, onClose, template, indexMd, configuracaoYaml, referenciasBib, extraFiles, renderDraftHtml, onLoadingChange, onCompileProblems }: PdfModalProps) {
   const viewerRef = useRef<HTMLDivElement | null>(null);
   const [viewerWidth, setViewerWidth] = useState(0);
   const [docProxy, setDocProxy] = useState<any>(null);
@@ -39,6 +54,22 @@ export default function PdfModal({ isOpen, onClose, indexMd, configuracaoYaml, r
   const [pdfBlob, setPdfBlob] = useState<Blob | null>(null);
   const [objectUrl, setObjectUrl] = useState<string | null>(null);
   const [downloadName, setDownloadName] = useState<string>('document.pdf');
+  const [problemCount, setProblemCount] = useState(0);
+  const [failure, setFailure] = useState<CompileFailure | null>(null);
+  const [compileLog, setCompileLog] = useState<string | null>(null);
+  const [isCompileError, setIsCompileError] = useState(false);
+  const [timing, setTiming] = useState<CompileTiming | null>(null);
+  const [cacheHit, setCacheHit] = useState(false);
+  const [fromLocalCache, setFromLocalCache] = useState(false);
+  const [retryToken, setRetryToken] = useState(0);
+  const [cacheMessage, setCacheMessage] = useState<string | null>(null);
+  const cacheMessageTimerRef = useRef<number | undefined>(undefined);
+  const [draftReason, setDraftReason] = useState<string | null>(null);
+  const forceNextRef = useRef(false);
+  const renderDraftHtmlRef = useRef(renderDraftHtml);
+  renderDraftHtmlRef.current = renderDraftHtml;
+  const onCompileProblemsRef = useRef(onCompileProblems);
+  onCompileProblemsRef.current = onCompileProblems;
 
   /**
    * Compila o PDF quando o modal abre e gerencia o ciclo de vida do Blob URL.
@@ -49,16 +80,65 @@ export default function PdfModal({ isOpen, onClose, indexMd, configuracaoYaml, r
 
     setIsLoading(true);
     setError(null);
+    setProblemCount(0);
+    setFailure(null);
+    setCompileLog(null);
+    setIsCompileError(false);
+    setTiming(null);
+    setCacheHit(false);
+    setFromLocalCache(false);
+    setDraftReason(null);
     setPdfBlob(null);
     setObjectUrl((old) => { if (old) URL.revokeObjectURL(old); return null; });
 
-    compilePdf({ indexMd, configuracaoYaml, referenciasBib }, ctrl.signal)
-      .then(({ blob, fileName }) => {
-        setPdfBlob(blob);
-        if (fileName) setDownloadName(fileName);
-        const url = URL.createObjectURL(blob);
-        setObjectUrl(url);
-      })
+    /**
+     * Gera o rascunho local e o exibe no lugar do PDF do backend, registrando o motivo.
+     */
+    const showDraft = (reason: string) => renderDraftPdf(renderDraftHtmlRef.current()).then((blob) => {
+      if (ctrl.signal.aborted) return;
+      setDraftReason(reason);
+      setDownloadName('rascunho.pdf');
+      setPdfBlob(blob);
+      setObjectUrl(URL.createObjectURL(blob));
+    });
+
+    const payload = { template, indexMd, configuracaoYaml, referenciasBib, extraFiles };
+    const force = forceNextRef.current;
+    forceNextRef.current = false;
+    const pending = !isPdfApiConfigured
+      ? showDraft('Nenhum servidor de PDF configurado (API_URL).')
+      : compilePdf(payload, { signal: ctrl.signal, force }).then((result) => {
+        if (result.status === 'network-error') {
+          return showDraft(`O servidor de PDF não está acessível: ${result.message}`);
+        }
+        setTiming(result.timing);
+        if (result.status !== 'success' && result.status !== 'compile-error') {
+          setFailure(result);
+          return;
+        }
+        setCacheHit(result.cacheHit);
+        setFromLocalCache(result.status === 'success' && result.fromLocalCache);
+        setDownloadName(result.fileName);
+        if (result.blob.type.includes('pdf')) {
+          setPdfBlob(result.blob);
+          setObjectUrl(URL.createObjectURL(result.blob));
+        }
+        if (result.status === 'success') {
+          onCompileProblemsRef.current?.([]);
+          return;
+        }
+        setIsCompileError(true);
+        setCompileLog(result.log ?? null);
+        (result.log !== undefined ? Promise.resolve(result.log) : readCompileLog(result.blob))
+          .then((log) => {
+            if (ctrl.signal.aborted) return;
+            const problems = parseLatexLog(log, payloadSources(payload));
+            setProblemCount(problems.length);
+            onCompileProblemsRef.current?.(problems);
+          })
+          .catch(() => { /* Sem log legível: o PDF de erro continua disponível para leitura. */ });
+      });
+    pending
       .catch((err) => {
         if (err?.name === 'AbortError') return;
         setError(err?.message || 'Falha ao compilar o PDF.');
@@ -69,7 +149,38 @@ export default function PdfModal({ isOpen, onClose, indexMd, configuracaoYaml, r
       ctrl.abort();
       setObjectUrl((old) => { if (old) URL.revokeObjectURL(old); return null; });
     };
-  }, [isOpen, indexMd, configuracaoYaml, referenciasBib]);
+  }, [isOpen, template, indexMd, configuracaoYaml, referenciasBib, extraFiles, retryToken]);
+
+  /**
+   * Mantém o pai informado sobre a geração em andamento.
+   */
+  useEffect(() => {
+    onLoadingChange?.(isLoading);
+  }, [isLoading, onLoadingChange]);
+
+  /**
+   * Recompila ignorando o PDF guardado no cache local.
+   */
+  const forceRebuild = useCallback(() => {
+    forceNextRef.current = true;
+    setRetryToken((t) => t + 1);
+  }, []);
+
+  /**
+   * Esvazia o cache local de PDFs compilados.
+   */
+  const handleClearCache = useCallback(() => {
+    clearPdfCache()
+      .then(() => setCacheMessage('Cache de PDFs limpo.'))
+      .catch(() => setCacheMessage('Não foi possível limpar o cache de PDFs.'));
+    window.clearTimeout(cacheMessageTimerRef.current);
+    cacheMessageTimerRef.current = window.setTimeout(() => setCacheMessage(null), 3000);
+  }, []);
+
+  /**
+   * Cancela o sumiço pendente da mensagem do cache quando o modal é desmontado.
+   */
+  useEffect(() => () => window.clearTimeout(cacheMessageTimerRef.current), []);
 
   /**
    * Observa redimensionamentos do container para recalcular o ajuste de largura.
@@ -183,8 +294,30 @@ export default function PdfModal({ isOpen, onClose, indexMd, configuracaoYaml, r
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/75 p-2 sm:p-3" aria-modal="true" role="dialog">
       <div className="relative flex flex-col w-[98vw] h-[98vh] bg-gray-100 dark:bg-gray-800 rounded-xl shadow-2xl">
         <div className="flex items-center justify-between px-4 py-3 border-b border-gray-300 dark:border-gray-700">
-          <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100">{isLoading ? 'Gerando PDF…' : 'Pré-visualização do PDF'}</h2>
+          <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100">{isLoading ? 'Gerando PDF…' : failure ? 'Falha ao gerar PDF' : draftReason ? 'Rascunho do PDF' : 'Pré-visualização do PDF'}</h2>
           <div className="flex items-center gap-2">
+            {cacheMessage && <span className="text-xs text-gray-500 dark:text-gray-400">{cacheMessage}</span>}
+            <button
+              type="button"
+              disabled={isLoading || !isPdfApiConfigured}
+              onClick={forceRebuild}
+              className="p-2 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
+              title="Recompilar sem usar o cache"
+              aria-label="Recompilar sem usar o cache"
+            >
+              <RefreshCw size={18} />
+            </button>
+
+            <button
+              type="button"
+              onClick={handleClearCache}
+              className="p-2 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+              title="Limpar cache de PDFs"
+              aria-label="Limpar cache de PDFs"
+            >
+              <Trash2 size={18} />
+            </button>
+
             <button
               type="button"
               disabled={!objectUrl}
@@ -214,7 +347,7 @@ export default function PdfModal({ isOpen, onClose, indexMd, configuracaoYaml, r
           </div>
         </div>
 
-        {!isLoading && (
+        {!isLoading && pdfBlob && (
           <div className="flex items-center gap-2 px-4 py-2 border-b border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-200">
             <button type="button" onClick={zoomOut} className="p-1.5 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700" title="Diminuir zoom" aria-label="Diminuir zoom">
               <ZoomOut size={18} />
@@ -241,6 +374,35 @@ export default function PdfModal({ isOpen, onClose, indexMd, configuracaoYaml, r
             <button type="button" onClick={nextPage} disabled={pageNumber >= numPages} className="p-1.5 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50" title="Próxima página" aria-label="Próxima página">
               <ChevronRight size={18} />
             </button>
+
+            {timing && <TimingBadge timing={timing} cacheHit={cacheHit} fromLocalCache={fromLocalCache} />}
+          </div>
+        )}
+
+        {draftReason && !isLoading && (
+          <div className="flex items-center gap-2 px-4 py-2 border-b border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/30 text-sm text-amber-800 dark:text-amber-200">
+            <FileWarning size={16} className="shrink-0" />
+            <span>
+              <strong>Rascunho</strong> gerado no navegador a partir do preview HTML. {draftReason} O layout final depende da compilação LaTeX no servidor.
+            </span>
+            {isPdfApiConfigured && (
+              <button
+                type="button"
+                onClick={() => setRetryToken((t) => t + 1)}
+                className="ml-auto flex shrink-0 items-center gap-1 px-2 py-1 rounded-md hover:bg-amber-100 dark:hover:bg-amber-800/50"
+              >
+                <RefreshCw size={14} /> Tentar o servidor novamente
+              </button>
+            )}
+          </div>
+        )}
+
+        {isCompileError && (
+          <div className="flex items-center gap-2 px-4 py-2 border-b border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/30 text-sm text-red-700 dark:text-red-300">
+            <AlertCircle size={16} />
+            {problemCount > 0
+              ? `A compilação falhou com ${problemCount} ${problemCount === 1 ? 'problema' : 'problemas'}. Eles foram marcados no editor e listados no painel de problemas.`
+              : 'A compilação falhou. O PDF abaixo contém o log do LaTeX.'}
           </div>
         )}
 
@@ -270,6 +432,10 @@ export default function PdfModal({ isOpen, onClose, indexMd, configuracaoYaml, r
             <div ref={viewerRef} className="w-full h-full">
               {isLoading ? (
                 <LoaderBlock text="Compilando PDF…" />
+              ) : failure ? (
+                <FailureBlock failure={failure} onRetry={() => setRetryToken((t) => t + 1)} />
+              ) : compileLog !== null && !pdfBlob ? (
+                <pre className="p-4 text-sm whitespace-pre-wrap text-gray-800 dark:text-gray-200">{compileLog}</pre>
               ) : error ? (
                 <div className="flex flex-col items-center justify-center h-full text-red-600 dark:text-red-400"><p>{error}</p></div>
               ) : pdfBlob ? (
@@ -303,6 +469,61 @@ export default function PdfModal({ isOpen, onClose, indexMd, configuracaoYaml, r
   );
 }
 
+/**
+ * Resumo dos tempos da compilação (cliente e servidor) e indicação de resposta vinda do cache.
+ */
+function TimingBadge({ timing, cacheHit, fromLocalCache }: { timing: CompileTiming; cacheHit: boolean; fromLocalCache: boolean }) {
+  const seconds = (ms: number) => `${(ms / 1000).toFixed(1)} s`;
+  const parts = [fromLocalCache ? `Aberto do cache local em ${seconds(timing.totalMs)}` : `Compilado em ${seconds(timing.totalMs)}`];
+  if (timing.serverMs !== undefined) parts.push(`servidor ${seconds(timing.serverMs)}`);
+  if (timing.attempts > 1) parts.push(`${timing.attempts} tentativas`);
+  return (
+    <span className="ml-auto text-xs text-gray-500 dark:text-gray-400 tabular-nums">
+      {parts.join(' · ')}
+      {cacheHit && (
+        <span className="ml-2 px-1.5 py-0.5 rounded bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300">
+          {fromLocalCache ? 'cache local' : 'cache'}
+        </span>
+      )}
+    </span>
+  );
+}
+
+/**
+ * Tela de falha para autenticação e timeout, com orientação e opção de tentar novamente
+ * (falhas de rede caem no rascunho local).
+ */
+function FailureBlock({ failure, onRetry }: { failure: CompileFailure; onRetry: () => void }) {
+  const attempts = failure.timing.attempts > 1 ? ` (${failure.timing.attempts} tentativas)` : '';
+  const content = failure.status === 'auth-error'
+    ? {
+      icon: <Lock size={32} />,
+      title: 'Falha de autenticação',
+      text: `O servidor recusou a requisição (HTTP ${failure.httpStatus}): "${failure.message}". Verifique a API key configurada em API_KEY.`,
+    }
+    : {
+      icon: <Clock size={32} />,
+      title: 'Tempo esgotado',
+      text: `O servidor não respondeu em ${Math.round(failure.timeoutMs / 1000)} s${attempts}. Documentos grandes podem exigir um timeout maior (API_TIMEOUT_MS).`,
+    };
+  return (
+    <div className="flex flex-col items-center justify-center h-full gap-3 px-6 text-center text-gray-700 dark:text-gray-200">
+      <span className="text-red-500 dark:text-red-400">{content.icon}</span>
+      <h3 className="text-lg font-semibold">{content.title}</h3>
+      <p className="max-w-lg text-sm text-gray-600 dark:text-gray-300">{content.text}</p>
+      {failure.status !== 'auth-error' && (
+        <button
+          type="button"
+          onClick={onRetry}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-md bg-blue-600 text-white hover:bg-blue-700"
+        >
+          <RefreshCw size={16} /> Tentar novamente
+        </button>
+      )}
+    </div>
+  );
+}
+
 /**
  * Exibe um estado de carregamento consistente com ícone e texto.
  */
@@ -0,0 +1,217 @@
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle2, Clock, CloudOff, Loader } from 'lucide-react';
+import { Document, Page } from 'react-pdf';
+import { compilePdf, CompilePdfPayload, isPdfApiConfigured, payloadSources } from '../api/compilePdf';
+import { CompileProblem, parseLatexLog, readCompileLog } from '../lib/latexLog';
+import '../lib/pdfjs';
+
+import 'react-pdf/dist/Page/TextLayer.css';
+import 'react-pdf/dist/Page/AnnotationLayer.css';
+
+/** "waiting" cobre o intervalo sem edições antes da compilação; "unavailable", a falta de servidor configurado. */
+type PaneStatus = 'waiting' | 'compiling' | 'up-to-date' | 'error' | 'unavailable';
+
+/**
+ * PDF exibido (ou em preparação) no painel; "rendered" conta as páginas já desenhadas e "request" identifica
+ * a compilação que o gerou.
+ */
+type PdfSlot = { id: number; request: number; blob: Blob; numPages: number; rendered: number };
+
+/** Mensagem do painel quando não há API_URL: o PDF ao vivo depende do servidor de compilação. */
+const UNAVAILABLE_MESSAGE = 'O PDF ao vivo precisa do servidor de compilação (API_URL não configurada). '
+  + 'Use "Generate PDF" para gerar um rascunho no navegador.';
+
+/** Atrasos oferecidos para a recompilação automática, em milissegundos. */
+export const AUTO_COMPILE_DELAYS = [1000, 2000, 5000, 10000];
+
+export interface PdfPaneProps {
+  payload: CompilePdfPayload;
+  /** Tempo sem edições antes de recompilar automaticamente. */
+  delayMs: number;
+  onDelayChange: (delayMs: number) => void;
+  onCompileProblems?: (problems: CompileProblem[]) => void;
+}
+
+const STATUS_BADGE: Record<PaneStatus, { label: string; className: string; icon: React.ReactNode }> = {
+  waiting: { label: 'Aguardando edições…', className: 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-300', icon: <Clock size={12} /> },
+  compiling: { label: 'Compilando…', className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300', icon: <Loader size={12} className="animate-spin" /> },
+  'up-to-date': { label: 'Atualizado', className: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300', icon: <CheckCircle2 size={12} /> },
+  error: { label: 'Erro', className: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300', icon: <AlertCircle size={12} /> },
+  unavailable: { label: 'Sem servidor', className: 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-300', icon: <CloudOff size={12} /> },
+};
+
+/**
+ * Painel de PDF acoplado ao lado do editor: recompila após um período sem edições, cancela
+ * compilações obsoletas e mantém o PDF anterior (e sua rolagem) até o novo estar desenhado.
+ */
+export default function PdfPane({ payload, delayMs, onDelayChange, onCompileProblems }: PdfPaneProps) {
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const savedScrollRef = useRef<number | null>(null);
+  const nextIdRef = useRef(0);
+  const requestRef = useRef(0);
+  const onCompileProblemsRef = useRef(onCompileProblems);
+  onCompileProblemsRef.current = onCompileProblems;
+  const [width, setWidth] = useState(0);
+  const [current, setCurrent] = useState<PdfSlot | null>(null);
+  const [pending, setPending] = useState<PdfSlot | null>(null);
+  const [status, setStatus] = useState<PaneStatus>(isPdfApiConfigured ? 'waiting' : 'unavailable');
+  const [message, setMessage] = useState<string | null>(isPdfApiConfigured ? null : UNAVAILABLE_MESSAGE);
+
+  /**
+   * Recompila após "delayMs" sem alterações; uma nova edição aborta a compilação em andamento. Sem servidor
+   * configurado não há o que compilar: o painel só explica como gerar o rascunho.
+   */
+  useEffect(() => {
+    if (!isPdfApiConfigured) return;
+    const ctrl = new AbortController();
+    const request = ++requestRef.current;
+    setStatus('waiting');
+    const timer = window.setTimeout(() => {
+      setStatus('compiling');
+      compilePdf(payload, { signal: ctrl.signal })
+        .then((result) => {
+          if (result.status === 'success') {
+            onCompileProblemsRef.current?.([]);
+            setMessage(null);
+            setPending({ id: ++nextIdRef.current, request, blob: result.blob, numPages: 0, rendered: 0 });
+            return;
+          }
+          setStatus('error');
+          // Um PDF anterior ainda sendo desenhado não corresponde mais ao conteúdo atual.
+          setPending(null);
+          if (result.status !== 'compile-error') {
+            setMessage(result.status === 'timeout' ? 'Tempo esgotado ao compilar.' : result.message);
+            return;
+          }
+          setMessage('A compilação falhou; veja o painel de problemas.');
+          // Sem PDF anterior para manter, o PDF de erro (com o log) ocupa o painel.
+          if (result.blob.type.includes('pdf')) {
+            setCurrent((prev) => prev ?? { id: ++nextIdRef.current, request, blob: result.blob, numPages: 0, rendered: 0 });
+          }
+          (result.log !== undefined ? Promise.resolve(result.log) : readCompileLog(result.blob))
+            .then((log) => { if (!ctrl.signal.aborted) onCompileProblemsRef.current?.(parseLatexLog(log, payloadSources(payload))); })
+            .catch(() => { /* Sem log legível: o status de erro continua visível. */ });
+        })
+        .catch((err) => {
+          if (err?.name === 'AbortError') return;
+          setStatus('error');
+          setPending(null);
+          setMessage(err?.message || 'Falha ao compilar o PDF.');
+        });
+    }, delayMs);
+    return () => {
+      window.clearTimeout(timer);
+      ctrl.abort();
+    };
+  }, [payload, delayMs]);
+
+  /**
+   * Acompanha a largura do painel para ajustar as páginas.
+   */
+  useEffect(() => {
+    const el = scrollerRef.current;
+    if (!el) return;
+    const ro = new ResizeObserver(() => setWidth(el.clientWidth));
+    ro.observe(el);
+    setWidth(el.clientWidth);
+    return () => ro.disconnect();
+  }, []);
+
+  /**
+   * Promove o PDF novo quando todas as páginas foram desenhadas, preservando a rolagem.
+   */
+  useEffect(() => {
+    if (!pending || pending.numPages === 0 || pending.rendered < pending.numPages) return;
+    savedScrollRef.current = scrollerRef.current?.scrollTop ?? null;
+    setCurrent(pending);
+    setPending(null);
+    // Se outra edição já chegou, o badge continua em "Aguardando"/"Compilando".
+    if (pending.request === requestRef.current) setStatus('up-to-date');
+  }, [pending]);
+
+  /**
+   * Restaura a rolagem depois da troca de documento, antes da pintura.
+   */
+  useLayoutEffect(() => {
+    if (savedScrollRef.current === null || !scrollerRef.current) return;
+    scrollerRef.current.scrollTop = savedScrollRef.current;
+    savedScrollRef.current = null;
+  }, [current]);
+
+  /**
+   * Atualiza o número de páginas ou a contagem de páginas desenhadas do slot indicado.
+   */
+  const updateSlot = useCallback((id: number, update: (slot: PdfSlot) => PdfSlot) => {
+    setPending((slot) => (slot && slot.id === id ? update(slot) : slot));
+    setCurrent((slot) => (slot && slot.id === id ? update(slot) : slot));
+  }, []);
+
+  const pageWidth = Math.max(0, width - 32);
+  const badge = STATUS_BADGE[status];
+
+  return (
+    <div className="h-full flex flex-col bg-gray-50 dark:bg-gray-900">
+      <div className="flex-shrink-0 flex items-center justify-between gap-2 px-3 py-1.5 border-b border-gray-200 dark:border-gray-700 text-xs text-gray-600 dark:text-gray-300">
+        <span className={`flex items-center gap-1 px-2 py-0.5 rounded-full ${badge.className}`} title={message ?? undefined}>
+          {badge.icon} {badge.label}
+        </span>
+        <label className="flex items-center gap-1">
+          Recompilar após
+          <select
+            value={delayMs}
+            onChange={(e) => onDelayChange(Number(e.target.value))}
+            className="rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-1 py-0.5"
+          >
+            {AUTO_COMPILE_DELAYS.map((ms) => <option key={ms} value={ms}>{ms / 1000} s</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div ref={scrollerRef} className="relative flex-1 overflow-auto">
+        {!current && (status === 'waiting' || status === 'compiling' || status === 'up-to-date') && (
+          <div className="flex flex-col items-center justify-center h-full text-gray-600 dark:text-gray-400">
+            <Loader size={28} className="animate-spin mb-3" />
+            <p>{status === 'waiting' ? 'Aguardando edições…' : 'Compilando PDF…'}</p>
+          </div>
+        )}
+        {!current && status === 'error' && (
+          <div className="flex flex-col items-center justify-center h-full px-6 text-center text-red-600 dark:text-red-400">
+            <p>{message}</p>
+          </div>
+        )}
+        {status === 'unavailable' && (
+          <div className="flex flex-col items-center justify-center h-full px-6 text-center text-gray-600 dark:text-gray-400">
+            <CloudOff size={28} className="mb-3" />
+            <p>{message}</p>
+          </div>
+        )}
+        {[current, pending].map((slot) => slot && (
+          <React.Fragment key={slot.id}>
+            <Document
+              file={slot.blob}
+              onLoadSuccess={(doc) => updateSlot(slot.id, (s) => ({ ...s, numPages: doc.numPages }))}
+              onLoadError={() => {
+                setStatus('error');
+                setMessage('Falha ao abrir o PDF gerado.');
+                setPending((p) => (p && p.id === slot.id ? null : p));
+              }}
+              loading=""
+              className={slot === current ? 'py-4 space-y-4' : 'invisible absolute inset-x-0 top-0 py-4 space-y-4'}
+            >
+              {pageWidth > 0 && Array.from({ length: slot.numPages }, (_, i) => (
+                <React.Fragment key={i}>
+                  <Page
+                    pageNumber={i + 1}
+                    width={pageWidth}
+                    onRenderSuccess={() => updateSlot(slot.id, (s) => ({ ...s, rendered: s.rendered + 1 }))}
+                    className="bg-white shadow-sm mx-auto w-fit"
+                  />
+                </React.Fragment>
+              ))}
+            </Document>
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+}
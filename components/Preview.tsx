@@ -1,17 +1,51 @@
-import React, { forwardRef } from 'react';
+import React, { forwardRef, useImperativeHandle, useRef } from 'react';
+
+import 'katex/dist/katex.min.css';
+import { previewOffsetForLine, sourceLineAt, SyncPosition } from '../lib/scrollSync';
 
 export interface PreviewProps {
   htmlContent: string;
+  /** Chamado com a linha de origem do bloco clicado, quando houver. */
+  onSourceLineClick?: (line: number) => void;
+}
+
+export interface PreviewHandle {
+  /** Rola o preview até o bloco correspondente à posição do editor. */
+  scrollToSource: (position: SyncPosition) => void;
 }
 
 /**
  * Exibe conteúdo HTML já processado dentro de um contêiner rolável com estilos de tipografia.
  */
-const Preview = forwardRef<HTMLDivElement, PreviewProps>(function Preview({ htmlContent }, ref) {
+const Preview = forwardRef<PreviewHandle, PreviewProps>(function Preview({ htmlContent, onSourceLineClick }, ref) {
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  useImperativeHandle(ref, () => ({
+    scrollToSource: ({ line, offset }) => {
+      const scroller = scrollerRef.current;
+      const content = contentRef.current;
+      if (!scroller || !content) return;
+      const top = previewOffsetForLine(content, line);
+      if (top === null) return;
+      scroller.scrollTop = top - offset;
+    },
+  }), []);
+
+  /**
+   * Repassa a linha de origem do bloco clicado, ignorando cliques em links.
+   */
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!onSourceLineClick || (event.target as Element).closest('a')) return;
+    const line = sourceLineAt(event.target);
+    if (line !== null) onSourceLineClick(line);
+  };
+
   return (
-    <div className="h-full overflow-y-auto bg-white dark:bg-gray-800 transition-colors duration-300">
+    <div ref={scrollerRef} className="h-full overflow-y-auto bg-white dark:bg-gray-800 transition-colors duration-300">
       <div
-        ref={ref}
+        ref={contentRef}
+        onClick={handleClick}
         className="prose dark:prose-invert max-w-none p-6"
         dangerouslySetInnerHTML={{ __html: htmlContent }}
       />
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { AlertCircle, AlertTriangle, ChevronDown, ChevronUp, X } from 'lucide-react';
+import type { CompileProblem } from '../lib/latexLog';
+
+export interface ProblemsPanelProps {
+  problems: CompileProblem[];
+  onSelect: (problem: CompileProblem) => void;
+  onClear: () => void;
+}
+
+/**
+ * Painel com os erros e avisos da última compilação; clicar em um item leva ao arquivo e à linha.
+ * Itens cuja linha foi editada desde então aparecem como desatualizados.
+ */
+export default function ProblemsPanel({ problems, onSelect, onClear }: ProblemsPanelProps) {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const errors = problems.filter((p) => p.severity === 'error').length;
+  const warnings = problems.length - errors;
+
+  return (
+    <div className="flex-shrink-0 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 text-sm">
+      <div className="flex items-center justify-between px-3 py-1.5 text-gray-700 dark:text-gray-200">
+        <button
+          type="button"
+          onClick={() => setIsCollapsed((c) => !c)}
+          className="flex items-center gap-2 font-medium"
+          aria-expanded={!isCollapsed}
+        >
+          {isCollapsed ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+          Problemas da compilação
+          <span className="flex items-center gap-1 text-red-600 dark:text-red-400"><AlertCircle size={14} /> {errors}</span>
+          <span className="flex items-center gap-1 text-amber-600 dark:text-amber-400"><AlertTriangle size={14} /> {warnings}</span>
+        </button>
+        <button
+          type="button"
+          onClick={onClear}
+          className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+          title="Limpar problemas"
+          aria-label="Limpar problemas"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      {!isCollapsed && (
+        <ul className="max-h-48 overflow-y-auto border-t border-gray-200 dark:border-gray-700">
+          {problems.map((problem, i) => (
+            <li key={i}>
+              <button
+                type="button"
+                disabled={!problem.file}
+                onClick={() => onSelect(problem)}
+                title={problem.detail}
+                className="w-full flex items-start gap-2 px-3 py-1 text-left text-gray-800 dark:text-gray-100 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:cursor-default disabled:hover:bg-transparent"
+              >
+                {problem.severity === 'error'
+                  ? <AlertCircle size={14} className="mt-0.5 shrink-0 text-red-600 dark:text-red-400" />
+                  : <AlertTriangle size={14} className="mt-0.5 shrink-0 text-amber-600 dark:text-amber-400" />}
+                <span className="flex-1">{problem.message}</span>
+                <span
+                  className={`shrink-0 text-xs text-gray-500 dark:text-gray-400 tabular-nums${problem.stale ? ' italic' : ''}`}
+                  title={problem.stale ? 'A linha foi alterada depois da compilação; recompile para atualizar.' : undefined}
+                >
+                  {problem.file ? `${problem.file}${problem.line ? `:${problem.line}` : ''}` : 'sem localização'}
+                  {problem.stale && ' · desatualizado'}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
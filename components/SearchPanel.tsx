@@ -0,0 +1,184 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CaseSensitive, ChevronDown, ChevronRight, Regex, ReplaceAll, WholeWord, X } from 'lucide-react';
+import type { ProjectFile } from '../lib/projectFiles';
+import { MAX_SEARCH_MATCHES, SearchMatch, SearchOptions, SearchResult, searchProject } from '../lib/projectSearch';
+
+export interface SearchPanelProps {
+  /** Arquivos do projeto com o conteúdo atual, na ordem das abas. */
+  files: ProjectFile[];
+  /** Leva o editor ao arquivo e seleciona a ocorrência. */
+  onSelectMatch: (file: string, match: SearchMatch) => void;
+  /** Substitui em todos os arquivos como um único passo de desfazer; retorna o número de substituições. */
+  onReplaceAll: (options: SearchOptions, replacement: string) => number;
+  onClose: () => void;
+}
+
+type OptionToggleProps = {
+  active: boolean;
+  onToggle: () => void;
+  label: string;
+  children: React.ReactNode;
+};
+
+/**
+ * Botão liga/desliga de uma opção da busca.
+ */
+function OptionToggle({ active, onToggle, label, children }: OptionToggleProps) {
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      aria-pressed={active}
+      aria-label={label}
+      title={label}
+      className={`p-1 rounded ${active ? 'bg-blue-600 text-white' : 'text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+    >
+      {children}
+    </button>
+  );
+}
+
+/**
+ * Painel de busca e substituição em todos os arquivos do projeto, com expressão regular,
+ * diferenciação de maiúsculas e palavra inteira; as ocorrências ficam agrupadas por arquivo.
+ */
+export default function SearchPanel({ files, onSelectMatch, onReplaceAll, onClose }: SearchPanelProps) {
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+  const [notice, setNotice] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const options: SearchOptions = { query, regex, caseSensitive, wholeWord };
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  /**
+   * Resultado da busca atual, ou a mensagem de erro quando a expressão regular é inválida.
+   */
+  const search: { result: SearchResult | null; error: string | null } = useMemo(() => {
+    try {
+      return { result: searchProject(files, { query, regex, caseSensitive, wholeWord }), error: null };
+    } catch (err) {
+      return { result: null, error: (err as Error).message };
+    }
+  }, [files, query, regex, caseSensitive, wholeWord]);
+
+  /**
+   * Substitui todas as ocorrências após confirmação.
+   */
+  const handleReplaceAll = () => {
+    const result = search.result;
+    if (!result || result.total === 0) return;
+    const count = result.truncated ? `mais de ${MAX_SEARCH_MATCHES}` : String(result.total);
+    if (!window.confirm(`Substituir ${count} ocorrências em ${result.files.length} arquivo(s)? A operação pode ser desfeita de uma vez.`)) return;
+    const replaced = onReplaceAll(options, replacement);
+    setNotice(`${replaced} ocorrência(s) substituída(s).`);
+  };
+
+  const toggleFile = (file: string) => setCollapsed((prev: Record<string, boolean>) => ({ ...prev, [file]: !prev[file] }));
+
+  return (
+    <aside className="flex flex-col w-80 shrink-0 h-full min-h-0 border-r border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 text-sm text-gray-800 dark:text-gray-100">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="font-medium">Buscar no projeto</h2>
+        <button type="button" onClick={onClose} className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700" title="Fechar busca" aria-label="Fechar busca">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="px-3 py-2 space-y-2 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center gap-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 pr-1">
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => { setQuery(e.target.value); setNotice(null); }}
+            placeholder="Buscar"
+            aria-label="Buscar"
+            className="flex-1 min-w-0 px-2 py-1.5 bg-transparent outline-none"
+          />
+          <OptionToggle active={caseSensitive} onToggle={() => setCaseSensitive((v: boolean) => !v)} label="Diferenciar maiúsculas e minúsculas">
+            <CaseSensitive size={16} />
+          </OptionToggle>
+          <OptionToggle active={wholeWord} onToggle={() => setWholeWord((v: boolean) => !v)} label="Palavra inteira">
+            <WholeWord size={16} />
+          </OptionToggle>
+          <OptionToggle active={regex} onToggle={() => setRegex((v: boolean) => !v)} label="Expressão regular">
+            <Regex size={16} />
+          </OptionToggle>
+        </div>
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            placeholder={regex ? 'Substituir ($1, $& …)' : 'Substituir'}
+            aria-label="Substituir por"
+            className="flex-1 min-w-0 px-2 py-1.5 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900"
+          />
+          <button
+            type="button"
+            onClick={handleReplaceAll}
+            disabled={!search.result?.total}
+            className="p-1.5 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
+            title="Substituir todas"
+            aria-label="Substituir todas"
+          >
+            <ReplaceAll size={16} />
+          </button>
+        </div>
+        {search.error && <p role="alert" className="text-xs text-red-600 dark:text-red-400">{search.error}</p>}
+        {search.result && query && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {search.result.total === 0
+              ? 'Nenhuma ocorrência.'
+              : `${search.result.truncated ? 'Mais de ' : ''}${search.result.total} ocorrência(s) em ${search.result.files.length} arquivo(s).`}
+          </p>
+        )}
+        {notice && <p role="status" className="text-xs text-green-700 dark:text-green-400">{notice}</p>}
+      </div>
+
+      <ul className="flex-grow overflow-y-auto" aria-label="Resultados da busca">
+        {search.result?.files.map(({ file, matches }) => (
+          <li key={file}>
+            <button
+              type="button"
+              onClick={() => toggleFile(file)}
+              aria-expanded={!collapsed[file]}
+              className="w-full flex items-center gap-1 px-2 py-1 font-mono text-xs font-semibold hover:bg-gray-200 dark:hover:bg-gray-700"
+            >
+              {collapsed[file] ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+              <span className="flex-1 text-left truncate">{file}</span>
+              <span className="rounded-full bg-gray-200 dark:bg-gray-700 px-1.5 font-sans font-normal">{matches.length}</span>
+            </button>
+            {!collapsed[file] && (
+              <ul>
+                {matches.map((match) => (
+                  <li key={match.from}>
+                    <button
+                      type="button"
+                      onClick={() => onSelectMatch(file, match)}
+                      className="w-full flex items-baseline gap-2 pl-7 pr-2 py-0.5 text-left text-xs hover:bg-gray-200 dark:hover:bg-gray-700"
+                    >
+                      <span className="shrink-0 w-8 text-right text-gray-400 tabular-nums">{match.line}</span>
+                      <span className="min-w-0 truncate font-mono">
+                        {match.before}
+                        <mark className="rounded-sm bg-yellow-200 text-gray-900 dark:bg-yellow-500/60 dark:text-gray-50">{match.text}</mark>
+                        {match.after}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+}
@@ -0,0 +1,291 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Camera, Loader, RotateCcw, Trash2, X } from 'lucide-react';
+import { DiffCell, DiffLine, diffLines, diffStats, foldUnchanged, toSideBySide } from '../lib/lineDiff';
+import type { ProjectFile } from '../lib/projectFiles';
+import { deleteSnapshot, listSnapshots, saveSnapshot, Snapshot } from '../lib/snapshots';
+import { getTemplate, TemplateId } from '../lib/templates';
+
+type DiffMode = 'side' | 'inline';
+
+export interface SnapshotsPanelProps {
+  /** Arquivos atuais do projeto, na ordem das abas. */
+  files: ProjectFile[];
+  templateId: TemplateId;
+  /** Grava o conteúdo do snapshot no arquivo como uma alteração desfazível. */
+  onRestoreFile: (name: string, content: string) => void;
+  /** Restaura todos os arquivos e o modelo do snapshot. */
+  onRestoreProject: (snapshot: Snapshot) => void;
+  onClose: () => void;
+}
+
+const LINE_CLASSES: Record<DiffLine['type'], string> = {
+  equal: '',
+  removed: 'bg-red-50 text-red-900 dark:bg-red-900/30 dark:text-red-200',
+  added: 'bg-green-50 text-green-900 dark:bg-green-900/30 dark:text-green-200',
+};
+
+const LINE_SIGNS: Record<DiffLine['type'], string> = { equal: ' ', removed: '-', added: '+' };
+
+/**
+ * Linha que indica quantas linhas iguais foram omitidas.
+ */
+function FoldRow({ count }: { count: number }) {
+  return (
+    <div className="px-3 py-0.5 text-center bg-gray-100 text-gray-500 dark:bg-gray-700/60 dark:text-gray-400 select-none">
+      … {count} {count === 1 ? 'linha igual' : 'linhas iguais'}
+    </div>
+  );
+}
+
+/**
+ * Célula de um lado do diff lado a lado (vazia quando a linha não existe naquele lado).
+ */
+function SideCell({ cell }: { cell?: DiffCell }) {
+  return (
+    <div className={`flex min-w-0 ${cell ? LINE_CLASSES[cell.type] : 'bg-gray-50 dark:bg-gray-800/60'}`}>
+      <span className="w-10 shrink-0 pr-2 text-right text-gray-400 select-none">{cell?.line ?? ''}</span>
+      <span className="min-w-0 flex-1 whitespace-pre-wrap break-words">{cell?.text ?? ''}</span>
+    </div>
+  );
+}
+
+/**
+ * Modal de snapshots: salva pontos de restauração nomeados do projeto inteiro, compara cada arquivo
+ * de um snapshot com o estado atual (lado a lado ou inline) e restaura um arquivo ou o projeto todo.
+ */
+export default function SnapshotsPanel({ files, templateId, onRestoreFile, onRestoreProject, onClose }: SnapshotsPanelProps) {
+  const [snapshots, setSnapshots] = useState<Snapshot[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedFile, setSelectedFile] = useState<string>(files[0]?.name ?? '');
+  const [mode, setMode] = useState<DiffMode>('side');
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Carrega os snapshots salvos e seleciona o mais recente.
+   */
+  useEffect(() => {
+    listSnapshots()
+      .then((list) => {
+        setSnapshots(list);
+        setSelectedId(list[0]?.id ?? null);
+      })
+      .catch(() => {
+        setSnapshots([]);
+        setError('Não foi possível ler os snapshots salvos neste navegador.');
+      });
+  }, []);
+
+  const selected = snapshots?.find((s) => s.id === selectedId) ?? null;
+
+  /**
+   * Arquivos comparáveis: os do snapshot seguidos dos que só existem no projeto atual.
+   */
+  const fileNames: string[] = useMemo(() => {
+    const names = selected ? selected.files.map((f) => f.name) : [];
+    return [...names, ...files.map((f) => f.name).filter((n) => !names.includes(n))];
+  }, [selected, files]);
+
+  const activeName = fileNames.includes(selectedFile) ? selectedFile : fileNames[0] ?? '';
+  const snapshotFile = selected?.files.find((f) => f.name === activeName);
+  const currentFile = files.find((f) => f.name === activeName);
+
+  const diff: DiffLine[] = useMemo(
+    () => (selected ? diffLines(snapshotFile?.content ?? '', currentFile?.content ?? '') : []),
+    [selected, snapshotFile, currentFile]
+  );
+  const stats = diffStats(diff);
+  const isUnchanged = !!snapshotFile && !!currentFile && stats.added === 0 && stats.removed === 0;
+
+  /**
+   * Salva o estado atual como um novo snapshot.
+   */
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    saveSnapshot(name, files, templateId)
+      .then((snapshot) => {
+        setSnapshots((prev: Snapshot[] | null) => [snapshot, ...(prev ?? [])]);
+        setSelectedId(snapshot.id);
+        setName('');
+      })
+      .catch(() => setError('Falha ao salvar o snapshot; verifique o espaço disponível no navegador.'))
+      .finally(() => setIsSaving(false));
+  };
+
+  /**
+   * Exclui um snapshot após confirmação.
+   */
+  const handleDelete = (snapshot: Snapshot) => {
+    if (!window.confirm(`Excluir o snapshot "${snapshot.name}"?`)) return;
+    deleteSnapshot(snapshot.id)
+      .then(() => {
+        setSnapshots((prev: Snapshot[] | null) => (prev ?? []).filter((s) => s.id !== snapshot.id));
+        if (selectedId === snapshot.id) setSelectedId(null);
+      })
+      .catch(() => setError('Falha ao excluir o snapshot.'));
+  };
+
+  /**
+   * Restaura o projeto inteiro após confirmação.
+   */
+  const handleRestoreProject = () => {
+    if (!selected) return;
+    const removed = files.filter((f) => !selected.files.some((s) => s.name === f.name)).map((f) => f.name);
+    const warning = removed.length ? ` Os arquivos ${removed.join(', ')} não existem no snapshot e serão removidos.` : '';
+    const template = selected.templateId !== templateId
+      ? ` O modelo passará de ${getTemplate(templateId).name} para ${getTemplate(selected.templateId).name}; essa troca não é desfeita com Desfazer.`
+      : '';
+    if (!window.confirm(`Restaurar o projeto inteiro para o snapshot "${selected.name}"? Desfazer reverte os textos de uma vez.${warning}${template}`)) return;
+    onRestoreProject(selected);
+  };
+
+  const inlineItems = foldUnchanged(diff, (line) => line.type !== 'equal');
+  const sideItems = foldUnchanged(toSideBySide(diff), (row) => row.left?.type !== 'equal' || row.right?.type !== 'equal');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" aria-modal="true" role="dialog">
+      <div className="flex flex-col w-full max-w-6xl h-[85vh] rounded-xl bg-white dark:bg-gray-800 shadow-2xl text-gray-800 dark:text-gray-100">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold">Snapshots do projeto</h2>
+          <button type="button" onClick={onClose} className="p-1.5 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700" title="Fechar" aria-label="Fechar">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex flex-grow min-h-0 text-sm">
+          <aside className="flex flex-col w-64 shrink-0 border-r border-gray-200 dark:border-gray-700">
+            <form onSubmit={handleSave} className="p-3 space-y-2 border-b border-gray-200 dark:border-gray-700">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Nome (ex.: antes da revisão)"
+                aria-label="Nome do snapshot"
+                className="w-full px-2 py-1.5 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900"
+              />
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="flex w-full items-center justify-center gap-2 px-3 py-1.5 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-60"
+              >
+                {isSaving ? <Loader size={16} className="animate-spin" /> : <Camera size={16} />} Salvar snapshot
+              </button>
+            </form>
+            {error && <p role="alert" className="px-3 py-2 text-red-600 dark:text-red-400">{error}</p>}
+            <ul className="flex-grow overflow-auto divide-y divide-gray-200 dark:divide-gray-700" aria-label="Snapshots salvos">
+              {snapshots === null && <li className="px-3 py-2 text-gray-500">Carregando…</li>}
+              {snapshots?.length === 0 && <li className="px-3 py-2 text-gray-500 dark:text-gray-400">Nenhum snapshot salvo.</li>}
+              {snapshots?.map((snapshot) => (
+                <li key={snapshot.id} className={`flex items-start gap-1 ${snapshot.id === selectedId ? 'bg-blue-50 dark:bg-blue-900/30' : ''}`}>
+                  <button type="button" onClick={() => setSelectedId(snapshot.id)} className="flex-grow min-w-0 px-3 py-2 text-left">
+                    <span className="block truncate font-medium">{snapshot.name}</span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      {new Date(snapshot.createdAt).toLocaleString()} · {getTemplate(snapshot.templateId).name} · {snapshot.files.length} arquivos
+                    </span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(snapshot)}
+                    className="m-1.5 p-1 rounded-md text-gray-500 hover:text-red-600 hover:bg-gray-200 dark:hover:bg-gray-700"
+                    title="Excluir snapshot"
+                    aria-label={`Excluir snapshot ${snapshot.name}`}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </aside>
+
+          <section className="flex flex-col flex-grow min-w-0">
+            {!selected ? (
+              <p className="m-auto text-gray-500 dark:text-gray-400">Salve ou selecione um snapshot para comparar com o estado atual.</p>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center gap-2 px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+                  <select
+                    value={activeName}
+                    onChange={(e) => setSelectedFile(e.target.value)}
+                    aria-label="Arquivo comparado"
+                    className="px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 font-mono text-xs"
+                  >
+                    {fileNames.map((fileName) => <option key={fileName} value={fileName}>{fileName}</option>)}
+                  </select>
+                  <span className="text-xs">
+                    <span className="text-green-700 dark:text-green-400">+{stats.added}</span>{' '}
+                    <span className="text-red-700 dark:text-red-400">−{stats.removed}</span>
+                  </span>
+                  <div className="flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden text-xs" role="group" aria-label="Modo do diff">
+                    {(['side', 'inline'] as DiffMode[]).map((m) => (
+                      <button
+                        key={m}
+                        type="button"
+                        aria-pressed={mode === m}
+                        onClick={() => setMode(m)}
+                        className={`px-2 py-1 ${mode === m ? 'bg-blue-600 text-white' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                      >
+                        {m === 'side' ? 'Lado a lado' : 'Inline'}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex-grow" />
+                  <button
+                    type="button"
+                    disabled={!snapshotFile || isUnchanged}
+                    onClick={() => snapshotFile && onRestoreFile(snapshotFile.name, snapshotFile.content)}
+                    className="flex items-center gap-1.5 px-2 py-1 rounded-md border border-blue-600 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 disabled:opacity-50"
+                    title="Grava o conteúdo do snapshot neste arquivo; a alteração pode ser desfeita"
+                  >
+                    <RotateCcw size={14} /> Restaurar este arquivo
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleRestoreProject}
+                    className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700"
+                  >
+                    <RotateCcw size={14} /> Restaurar projeto inteiro
+                  </button>
+                </div>
+
+                {mode === 'side' && (
+                  <div className="grid grid-cols-2 text-xs font-semibold border-b border-gray-200 dark:border-gray-700">
+                    <span className="px-3 py-1">Snapshot {snapshotFile ? '' : '(arquivo não existe)'}</span>
+                    <span className="px-3 py-1 border-l border-gray-200 dark:border-gray-700">Atual {currentFile ? '' : '(arquivo não existe)'}</span>
+                  </div>
+                )}
+                <div className="flex-grow overflow-auto font-mono text-xs leading-5">
+                  {isUnchanged ? (
+                    <p className="p-4 font-sans text-sm text-gray-500 dark:text-gray-400">Sem diferenças entre o snapshot e o estado atual deste arquivo.</p>
+                  ) : mode === 'side' ? (
+                    sideItems.map((item, i) => (typeof item === 'number'
+                      ? <React.Fragment key={i}><FoldRow count={item} /></React.Fragment>
+                      : (
+                        <div key={i} className="grid grid-cols-2">
+                          <SideCell cell={item.left} />
+                          <div className="border-l border-gray-200 dark:border-gray-700 min-w-0"><SideCell cell={item.right} /></div>
+                        </div>
+                      )))
+                  ) : (
+                    inlineItems.map((item, i) => (typeof item === 'number'
+                      ? <React.Fragment key={i}><FoldRow count={item} /></React.Fragment>
+                      : (
+                        <div key={i} className={`flex ${LINE_CLASSES[item.type]}`}>
+                          <span className="w-10 shrink-0 pr-2 text-right text-gray-400 select-none">{item.oldLine ?? ''}</span>
+                          <span className="w-10 shrink-0 pr-2 text-right text-gray-400 select-none">{item.newLine ?? ''}</span>
+                          <span className="w-4 shrink-0 select-none">{LINE_SIGNS[item.type]}</span>
+                          <span className="min-w-0 flex-1 whitespace-pre-wrap break-words">{item.text}</span>
+                        </div>
+                      )))
+                  )}
+                </div>
+              </>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import { AlignCenter, AlignJustify, AlignLeft, AlignRight, BetweenHorizontalEnd, BetweenVerticalEnd, ClipboardPaste, Table, Trash2, X } from 'lucide-react';
+import { normalizeTable, parseDelimited, TableAlignment, TableData } from '../lib/markdownTable';
+import { BlockFormat, TableBlockOptions, tableBlock } from '../lib/floatBlocks';
+
+export interface TableDialogProps {
+  /** Tabela sob o cursor, quando o diálogo foi aberto para editá-la. */
+  initialTable?: TableData;
+  initialOptions?: TableBlockOptions;
+  /** Recebe o bloco gerado, que substitui a tabela editada ou é inserido no cursor. */
+  onSubmit: (block: string) => void;
+  onClose: () => void;
+}
+
+const ALIGNMENT_ORDER: TableAlignment[] = [null, 'left', 'center', 'right'];
+
+const ALIGNMENT_LABELS: Record<string, string> = { null: 'Alinhamento padrão', left: 'À esquerda', center: 'Centralizado', right: 'À direita' };
+
+/**
+ * Ícone do alinhamento de uma coluna.
+ */
+function AlignmentIcon({ align }: { align: TableAlignment }) {
+  if (align === 'left') return <AlignLeft size={14} />;
+  if (align === 'center') return <AlignCenter size={14} />;
+  if (align === 'right') return <AlignRight size={14} />;
+  return <AlignJustify size={14} className="opacity-50" />;
+}
+
+/**
+ * Modal de tabela: editor em grade (com colagem de CSV/TSV do Excel ou Planilhas) que gera uma pipe table do
+ * Pandoc ou um ambiente table do LaTeX com legenda e rótulo; também reedita a tabela que estava sob o cursor.
+ */
+export default function TableDialog({ initialTable, initialOptions, onSubmit, onClose }: TableDialogProps) {
+  const [table, setTable] = useState<TableData>(() => initialTable ?? normalizeTable([['', '', ''], ['', '', ''], ['', '', '']]));
+  const [format, setFormat] = useState<BlockFormat>(initialOptions?.format ?? 'latex');
+  const [caption, setCaption] = useState(initialOptions?.caption ?? '');
+  const [label, setLabel] = useState(initialOptions?.label ?? '');
+  const [pasteText, setPasteText] = useState('');
+  const isEditing = !!initialTable;
+  const columns = table.align.length;
+
+  const update = (change: (t: TableData) => TableData) => setTable((prev: TableData) => change(prev));
+
+  const setCell = (row: number, col: number, text: string) => update((t) => ({
+    ...t,
+    rows: t.rows.map((r, i) => (i === row ? r.map((c, j) => (j === col ? text : c)) : r)),
+  }));
+
+  /**
+   * Preenche a grade a partir da célula (row, col) com o texto colado, aumentando-a quando necessário.
+   */
+  const fillFrom = (row: number, col: number, data: string[][]) => update((t) => {
+    const rows = t.rows.map((r) => [...r]);
+    data.forEach((cells, i) => {
+      rows[row + i] ??= [];
+      cells.forEach((cell, j) => { rows[row + i][col + j] = cell; });
+    });
+    return normalizeTable(rows, t.align);
+  });
+
+  const addRow = () => update((t) => ({ ...t, rows: [...t.rows, t.align.map(() => '')] }));
+  const addColumn = () => update((t) => ({ rows: t.rows.map((r) => [...r, '']), align: [...t.align, null] }));
+  const removeRow = (row: number) => update((t) => ({ ...t, rows: t.rows.filter((_, i) => i !== row) }));
+  const removeColumn = (col: number) => update((t) => ({
+    rows: t.rows.map((r) => r.filter((_, j) => j !== col)),
+    align: t.align.filter((_, j) => j !== col),
+  }));
+  const cycleAlign = (col: number) => update((t) => ({
+    ...t,
+    align: t.align.map((a, j) => (j === col ? ALIGNMENT_ORDER[(ALIGNMENT_ORDER.indexOf(a) + 1) % ALIGNMENT_ORDER.length] : a)),
+  }));
+
+  /**
+   * Colar várias células (texto com tabulações ou quebras de linha) espalha o conteúdo pela grade.
+   */
+  const handleCellPaste = (row: number, col: number, event: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = event.clipboardData.getData('text/plain');
+    if (!/[\t\n]/.test(text.replace(/\n+$/, ''))) return;
+    event.preventDefault();
+    fillFrom(row, col, parseDelimited(text));
+  };
+
+  /**
+   * Substitui a grade pelo CSV/TSV do campo de importação.
+   */
+  const importPasted = () => {
+    const rows = parseDelimited(pasteText);
+    if (!rows.length) return;
+    setTable(normalizeTable(rows));
+    setPasteText('');
+  };
+
+  const block = tableBlock(table, { format, caption, label });
+  const inputClass = 'w-full px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" aria-modal="true" role="dialog">
+      <div className="flex flex-col w-full max-w-4xl max-h-[90vh] rounded-xl bg-white dark:bg-gray-800 shadow-2xl text-gray-800 dark:text-gray-100">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold">{isEditing ? 'Editar tabela' : 'Inserir tabela'}</h2>
+          <button type="button" onClick={onClose} className="p-1.5 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700" title="Fechar" aria-label="Fechar">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto px-4 py-3 space-y-3 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <button type="button" onClick={addRow} className="flex items-center gap-1.5 px-2 py-1 rounded-md text-xs hover:bg-gray-200 dark:hover:bg-gray-700">
+              <BetweenHorizontalEnd size={14} /> Linha
+            </button>
+            <button type="button" onClick={addColumn} className="flex items-center gap-1.5 px-2 py-1 rounded-md text-xs hover:bg-gray-200 dark:hover:bg-gray-700">
+              <BetweenVerticalEnd size={14} /> Coluna
+            </button>
+            <span className="text-xs text-gray-500 dark:text-gray-400">A primeira linha é o cabeçalho. Cole células de uma planilha direto na grade.</span>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="border-collapse">
+              <thead>
+                <tr>
+                  {table.align.map((align, col) => (
+                    <th key={col} className="px-1 pb-1 font-normal">
+                      <div className="flex items-center justify-center gap-1">
+                        <button
+                          type="button"
+                          onClick={() => cycleAlign(col)}
+                          className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+                          title={ALIGNMENT_LABELS[String(align)]}
+                          aria-label={`Coluna ${col + 1}: ${ALIGNMENT_LABELS[String(align)]}`}
+                        >
+                          <AlignmentIcon align={align} />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => removeColumn(col)}
+                          disabled={columns <= 1}
+                          className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-30"
+                          title="Remover coluna"
+                          aria-label={`Remover coluna ${col + 1}`}
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </th>
+                  ))}
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {table.rows.map((cells, row) => (
+                  <tr key={row}>
+                    {cells.map((cell, col) => (
+                      <td key={col} className="p-0.5">
+                        <input
+                          value={cell}
+                          onChange={(e) => setCell(row, col, e.target.value)}
+                          onPaste={(e) => handleCellPaste(row, col, e)}
+                          placeholder={row === 0 ? `Coluna ${col + 1}` : ''}
+                          aria-label={`Linha ${row + 1}, coluna ${col + 1}`}
+                          className={`min-w-[8rem] ${inputClass} ${row === 0 ? 'font-semibold' : ''}`}
+                        />
+                      </td>
+                    ))}
+                    <td className="pl-1">
+                      <button
+                        type="button"
+                        onClick={() => removeRow(row)}
+                        disabled={table.rows.length <= 1}
+                        className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-30"
+                        title="Remover linha"
+                        aria-label={`Remover linha ${row + 1}`}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <details className="rounded-md border border-gray-200 dark:border-gray-700">
+            <summary className="px-3 py-1.5 cursor-pointer select-none">Importar CSV/TSV</summary>
+            <div className="px-3 pb-3 space-y-2">
+              <textarea
+                value={pasteText}
+                onChange={(e) => setPasteText(e.target.value)}
+                rows={4}
+                placeholder={'Nome;Valor\nA;1'}
+                className={`${inputClass} font-mono text-xs`}
+                aria-label="Texto em CSV ou TSV"
+              />
+              <button
+                type="button"
+                onClick={importPasted}
+                disabled={!pasteText.trim()}
+                className="flex items-center gap-1.5 px-2 py-1 rounded-md text-xs hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                <ClipboardPaste size={14} /> Substituir a grade
+              </button>
+            </div>
+          </details>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <label className="space-y-1">
+              <span className="block text-xs text-gray-600 dark:text-gray-300">Formato</span>
+              <select value={format} onChange={(e) => setFormat(e.target.value as BlockFormat)} className={inputClass}>
+                <option value="latex">LaTeX (ambiente table)</option>
+                <option value="markdown">Markdown (pipe table)</option>
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="block text-xs text-gray-600 dark:text-gray-300">Legenda</span>
+              <input value={caption} onChange={(e) => setCaption(e.target.value)} className={inputClass} />
+            </label>
+            <label className="space-y-1">
+              <span className="block text-xs text-gray-600 dark:text-gray-300">Rótulo</span>
+              <input value={label} onChange={(e) => setLabel(e.target.value)} placeholder={format === 'latex' ? 'tab:resultados' : 'tbl:resultados'} className={inputClass} />
+            </label>
+          </div>
+
+          <pre className="max-h-48 overflow-auto p-2 rounded-md bg-gray-100 dark:bg-gray-900 text-xs" aria-label="Código gerado">{block}</pre>
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-gray-200 dark:border-gray-700">
+          <button type="button" onClick={onClose} className="px-3 py-1.5 rounded-md text-sm hover:bg-gray-200 dark:hover:bg-gray-700">
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={() => onSubmit(block)}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-md text-sm bg-blue-600 text-white hover:bg-blue-700"
+          >
+            <Table size={16} /> {isEditing ? 'Atualizar tabela' : 'Inserir'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
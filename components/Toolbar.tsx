@@ -1,40 +1,31 @@
 import React from 'react';
-import { Bold, Italic, Heading1, Heading2, Heading3, Quote, List, ListOrdered, Code, Link, Image, Minus } from 'lucide-react';
-
-export type ToolbarAction =
-  | 'bold'
-  | 'italic'
-  | 'h1'
-  | 'h2'
-  | 'h3'
-  | 'quote'
-  | 'ul'
-  | 'ol'
-  | 'code'
-  | 'link'
-  | 'image'
-  | 'hr';
+import { Bold, Italic, Heading1, Heading2, Heading3, Quote, List, ListOrdered, Code, Link, Image, ImagePlus, Minus, ListTree, Table } from 'lucide-react';
+import type { CommandRegistry } from '../lib/commands';
 
 export interface ToolbarProps {
-  onFormat: (type: ToolbarAction, payload?: unknown) => void;
+  /** Registro de comandos: cada botão executa o comando pelo id e mostra o atalho em vigor. */
+  registry: CommandRegistry;
+  isOutlineVisible: boolean;
 }
 
 interface ActionButtonProps {
-  title: string;
-  onClick: () => void;
+  registry: CommandRegistry;
+  /** Id do comando no registro (ex.: "format.bold"). */
+  command: string;
+  label: string;
   children: React.ReactNode;
 }
 
 /**
  * Renderiza um botão de ação da toolbar com acessibilidade e estilos consistentes.
  */
-function ActionButton({ title, onClick, children }: ActionButtonProps) {
+function ActionButton({ registry, command, label, children }: ActionButtonProps) {
   return (
     <button
       type="button"
-      onClick={onClick}
-      title={title}
-      aria-label={title}
+      onClick={() => registry.run(command)}
+      title={registry.tooltip(command, label)}
+      aria-label={label}
       className="p-2 rounded text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 focus:outline-none focus:ring-1 focus:ring-blue-500 transition-colors"
     >
       {children}
@@ -52,54 +43,69 @@ function Divider() {
 /**
  * Barra de ferramentas para formatação Markdown com ações como negrito, títulos e listas.
  */
-export default function Toolbar({ onFormat }: ToolbarProps) {
+export default function Toolbar({ registry, isOutlineVisible }: ToolbarProps) {
   return (
     <div className="flex-shrink-0 flex items-center space-x-1 p-2 bg-gray-50 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 overflow-x-auto">
-      <ActionButton title="Bold" onClick={() => onFormat('bold')}>
+      <ActionButton registry={registry} command="view.outline" label={isOutlineVisible ? 'Hide outline' : 'Show outline'}>
+        <ListTree size={18} className={isOutlineVisible ? 'text-blue-500' : undefined} />
+      </ActionButton>
+
+      <Divider />
+
+      <ActionButton registry={registry} command="format.bold" label="Bold">
         <Bold size={18} />
       </ActionButton>
-      <ActionButton title="Italic" onClick={() => onFormat('italic')}>
+      <ActionButton registry={registry} command="format.italic" label="Italic">
         <Italic size={18} />
       </ActionButton>
 
       <Divider />
 
-      <ActionButton title="Heading 1" onClick={() => onFormat('h1')}>
+      <ActionButton registry={registry} command="format.h1" label="Heading 1">
         <Heading1 size={18} />
       </ActionButton>
-      <ActionButton title="Heading 2" onClick={() => onFormat('h2')}>
+      <ActionButton registry={registry} command="format.h2" label="Heading 2">
         <Heading2 size={18} />
       </ActionButton>
-      <ActionButton title="Heading 3" onClick={() => onFormat('h3')}>
+      <ActionButton registry={registry} command="format.h3" label="Heading 3">
         <Heading3 size={18} />
       </ActionButton>
 
       <Divider />
 
-      <ActionButton title="Blockquote" onClick={() => onFormat('quote')}>
+      <ActionButton registry={registry} command="format.quote" label="Blockquote">
         <Quote size={18} />
       </ActionButton>
-      <ActionButton title="Unordered List" onClick={() => onFormat('ul')}>
+      <ActionButton registry={registry} command="format.ul" label="Unordered List">
         <List size={18} />
       </ActionButton>
-      <ActionButton title="Ordered List" onClick={() => onFormat('ol')}>
+      <ActionButton registry={registry} command="format.ol" label="Ordered List">
         <ListOrdered size={18} />
       </ActionButton>
 
       <Divider />
 
-      <ActionButton title="Code" onClick={() => onFormat('code')}>
+      <ActionButton registry={registry} command="format.code" label="Code">
         <Code size={18} />
       </ActionButton>
-      <ActionButton title="Link" onClick={() => onFormat('link')}>
+      <ActionButton registry={registry} command="format.link" label="Link">
         <Link size={18} />
       </ActionButton>
-      <ActionButton title="Image" onClick={() => onFormat('image')}>
+      <ActionButton registry={registry} command="format.image" label="Image">
         <Image size={18} />
       </ActionButton>
-      <ActionButton title="Horizontal Rule" onClick={() => onFormat('hr')}>
+      <ActionButton registry={registry} command="format.hr" label="Horizontal Rule">
         <Minus size={18} />
       </ActionButton>
+
+      <Divider />
+
+      <ActionButton registry={registry} command="format.table" label="Insert or edit table">
+        <Table size={18} />
+      </ActionButton>
+      <ActionButton registry={registry} command="format.figure" label="Insert figure">
+        <ImagePlus size={18} />
+      </ActionButton>
     </div>
   );
 }
@@ -144,3 +144,175 @@ export const INITIAL_FILE_CONTENTS: Record<string, string> = {
     [FILE_NAMES[1]]: INITIAL_YAML,
     [FILE_NAMES[2]]: INITIAL_BIB,
 };
+
+const ABNT_MARKDOWN = `
+# Introdução
+
+Este modelo segue as normas da ABNT para trabalhos acadêmicos (NBR 14724). O texto
+deve ser digitado em fonte de 12 pontos, com espaçamento 1,5 entre linhas, em folha A4
+com margens de 3 cm à esquerda e acima e 2 cm à direita e abaixo.
+
+A capa, a folha de rosto, o resumo e o abstract são gerados a partir do
+\`configuracao.yaml\`. Comece a escrever a partir desta seção.
+
+## Objetivos
+
+Descreva o objetivo geral e os objetivos específicos do trabalho.
+
+# Fundamentação Teórica
+
+As citações seguem o sistema autor-data da NBR 10520, por exemplo \\cite{abnt:14724}.
+Citações diretas com mais de três linhas devem ter recuo de 4 cm, fonte menor e
+espaçamento simples.
+
+# Metodologia
+
+Descreva os métodos, materiais e procedimentos adotados.
+
+# Resultados e Discussão
+
+Tabelas e figuras devem ter legenda e fonte, como na Tabela \\ref{tab:exemplo}.
+
+\\begin{table}[ht]
+\\centering
+\\caption{Exemplo de tabela}
+\\label{tab:exemplo}
+\\begin{tabular}{ll}
+Item & Valor \\\\
+A & 1 \\\\
+\\end{tabular}
+\\end{table}
+
+# Conclusão
+
+Retome os objetivos e apresente as contribuições e os trabalhos futuros.
+`;
+
+const ABNT_YAML = `title: "Título do trabalho"
+subtitle: "Subtítulo, se houver"
+author:
+  - Nome Completo do Autor
+orientador: "Prof. Dr. Nome do Orientador"
+instituicao: "Universidade Federal do Brasil"
+programa: "Programa de Pós-Graduação em Ciência da Computação"
+natureza: "Dissertação apresentada ao Programa de Pós-Graduação em Ciência da Computação como requisito parcial para obtenção do título de Mestre."
+local: "Cidade"
+ano: "2025"
+resumo: |
+  Elemento obrigatório, constituído de uma sequência de frases concisas e
+  objetivas, com 150 a 500 palavras, seguido das palavras-chave.
+palavras_chave: 'Palavra 1. Palavra 2. Palavra 3'
+abstract: |
+  Mandatory element: the abstract in English, with the same content as the
+  Portuguese "resumo".
+keywords: 'Keyword 1. Keyword 2. Keyword 3'
+`;
+
+const ABNT_BIB = `
+@Manual{abnt:14724,
+  author = 	 {{Associação Brasileira de Normas Técnicas}},
+  title = 	 {{NBR} 14724: Informação e documentação — Trabalhos acadêmicos — Apresentação},
+  address = 	 {Rio de Janeiro},
+  year = 	 {2011}
+}
+`;
+
+const IEEE_MARKDOWN = `
+# Introduction
+
+This template follows the IEEE conference style: US Letter or A4 paper, two columns,
+10-point Times font. The title, authors, affiliation, abstract and index terms come
+from \`configuracao.yaml\`.
+
+# Related Work
+
+Citations are numbered in order of appearance, e.g. \\cite{ieee:editorial}.
+
+# Method
+
+Equations are numbered consecutively, as in \\eqref{eq:example}.
+
+\\begin{equation}
+\\label{eq:example}
+a + b = \\gamma
+\\end{equation}
+
+# Results
+
+Place figure captions below figures and table captions above tables.
+
+# Conclusion
+
+Summarize the contributions of the paper.
+`;
+
+const IEEE_YAML = `title: "Paper Title"
+author:
+  - First Author \\inst{1}
+  - Second Author \\inst{2}
+instituicao: "Dept. of Computer Science, University Name"
+address: "City, Country"
+email: "first.author@example.com, second.author@example.com"
+abstract: |
+  This document is a model and instructions for writing papers with the
+  IEEE conference template. Keep the abstract under 250 words.
+keywords: 'component, formatting, style, styling, insert'
+`;
+
+const IEEE_BIB = `
+@Misc{ieee:editorial,
+  author = 	 {{IEEE}},
+  title = 	 {{IEEE} Editorial Style Manual for Authors},
+  howpublished = {IEEE Author Center},
+  year = 	 {2021}
+}
+`;
+
+const REPORT_MARKDOWN = `
+# Sumário Executivo
+
+Apresente em poucos parágrafos o contexto, as principais conclusões e as recomendações.
+
+# Contexto
+
+Descreva a situação que motivou o relatório.
+
+# Atividades Realizadas
+
+* Atividade 1
+* Atividade 2
+
+# Resultados
+
+Apresente os resultados obtidos, com tabelas e figuras quando necessário.
+
+# Próximos Passos
+
+Liste as ações recomendadas e os responsáveis.
+`;
+
+const REPORT_YAML = `title: "Título do relatório"
+subtitle: "Período ou projeto"
+author:
+  - Nome do Responsável
+instituicao: "Organização"
+date: "Março de 2025"
+`;
+
+export const ABNT_FILE_CONTENTS: Record<string, string> = {
+    [FILE_NAMES[0]]: ABNT_MARKDOWN,
+    [FILE_NAMES[1]]: ABNT_YAML,
+    [FILE_NAMES[2]]: ABNT_BIB,
+};
+
+export const IEEE_FILE_CONTENTS: Record<string, string> = {
+    [FILE_NAMES[0]]: IEEE_MARKDOWN,
+    [FILE_NAMES[1]]: IEEE_YAML,
+    [FILE_NAMES[2]]: IEEE_BIB,
+};
+
+export const REPORT_FILE_CONTENTS: Record<string, string> = {
+    [FILE_NAMES[0]]: REPORT_MARKDOWN,
+    [FILE_NAMES[1]]: REPORT_YAML,
+    [FILE_NAMES[2]]: '',
+};
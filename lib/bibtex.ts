@@ -0,0 +1,355 @@
+export type BibField = {
+  /** Nome do campo em minúsculas. */
+  name: string;
+  /** Valor sem as chaves/aspas externas e com macros @string expandidas. */
+  value: string;
+  from: number;
+  to: number;
+  valueFrom: number;
+  valueTo: number;
+};
+
+export type BibEntry = {
+  /** Tipo da entrada em minúsculas (book, incollection...). */
+  type: string;
+  key: string;
+  fields: Record<string, string>;
+  fieldList: BibField[];
+  from: number;
+  to: number;
+  keyFrom: number;
+  keyTo: number;
+};
+
+export type BibParseError = {
+  from: number;
+  to: number;
+  message: string;
+  /** Inserção sugerida para corrigir o erro (ex.: a chave de fechamento ausente). */
+  insert?: { at: number; text: string };
+};
+
+export type BibParseResult = { entries: BibEntry[]; errors: BibParseError[] };
+
+const MONTH_MACROS: Record<string, string> = {
+  jan: 'January', feb: 'February', mar: 'March', apr: 'April', may: 'May', jun: 'June',
+  jul: 'July', aug: 'August', sep: 'September', oct: 'October', nov: 'November', dec: 'December',
+};
+
+/**
+ * Analisador BibTeX tolerante a erros: continua na próxima entrada quando encontra problemas
+ * e registra a posição de cada entrada, chave e campo para uso em diagnósticos.
+ */
+class BibParser {
+  private pos = 0;
+  private readonly strings: Record<string, string> = { ...MONTH_MACROS };
+  readonly entries: BibEntry[] = [];
+  readonly errors: BibParseError[] = [];
+
+  constructor(private readonly src: string) {}
+
+  parse(): BibParseResult {
+    while (this.pos < this.src.length) {
+      const at = this.src.indexOf('@', this.pos);
+      if (at < 0) break;
+      this.pos = at;
+      try {
+        this.parseEntry();
+      } catch (err) {
+        if (!(err instanceof BibSyntaxError)) throw err;
+        this.errors.push({ from: err.from, to: err.to, message: err.message, insert: err.insert });
+        this.pos = this.recoveryPoint(at, err.resumeAt);
+      }
+    }
+    return { entries: this.entries, errors: this.errors };
+  }
+
+  /**
+   * Posição da próxima linha que começa com "@", usada para retomar após um erro.
+   */
+  private recoveryPoint(entryStart: number, resumeAt: number): number {
+    const re = /^[ \t]*@/gm;
+    re.lastIndex = Math.max(this.src.lastIndexOf('\n', resumeAt - 1) + 1, entryStart + 1);
+    const m = re.exec(this.src);
+    return m ? m.index + m[0].length - 1 : this.src.length;
+  }
+
+  private parseEntry() {
+    const start = this.pos;
+    this.pos++;
+    const type = this.readIdentifier().toLowerCase();
+    if (!type) {
+      this.pos = start + 1;
+      return;
+    }
+    this.skipWhitespace();
+    const open = this.src[this.pos];
+    if (open !== '{' && open !== '(') {
+      // Texto solto com "@" (ex.: e-mails em comentários) é ignorado, como faz o BibTeX.
+      this.pos = start + 1;
+      return;
+    }
+    const close = open === '{' ? '}' : ')';
+    this.pos++;
+
+    if (type === 'comment' || type === 'preamble') {
+      this.pos = this.findClosing(start, open, close) + 1;
+      return;
+    }
+    if (type === 'string') {
+      this.skipWhitespace();
+      const name = this.readIdentifier().toLowerCase();
+      this.skipWhitespace();
+      this.expect('=', start);
+      const { value } = this.readValue(start, close);
+      this.strings[name] = value;
+      this.skipWhitespace();
+      this.expect(close, start);
+      return;
+    }
+
+    this.skipWhitespace();
+    const keyFrom = this.pos;
+    while (this.pos < this.src.length && !/[,\s}\)]/.test(this.src[this.pos])) this.pos++;
+    const keyTo = this.pos;
+    const key = this.src.slice(keyFrom, keyTo);
+    if (!key) throw new BibSyntaxError(`Entrada @${type} sem chave de citação.`, start, keyFrom, keyFrom, { at: keyFrom, text: 'chave' });
+
+    const fieldList: BibField[] = [];
+    const fields: Record<string, string> = {};
+    this.skipWhitespace();
+    while (this.src[this.pos] === ',') {
+      this.pos++;
+      this.skipWhitespace();
+      if (this.src[this.pos] === close) break;
+      const nameFrom = this.pos;
+      const name = this.readIdentifier().toLowerCase();
+      if (!name) {
+        throw new BibSyntaxError(`Campo inválido em "${key}".`, nameFrom, nameFrom + 1, this.findClosing(start, open, close));
+      }
+      this.skipWhitespace();
+      this.expect('=', start);
+      const { value, valueFrom, valueTo } = this.readValue(start, close);
+      fieldList.push({ name, value, from: nameFrom, to: valueTo, valueFrom, valueTo });
+      fields[name] = value;
+      this.skipWhitespace();
+    }
+    if (this.src[this.pos] !== close) {
+      if (this.pos >= this.src.length || this.isEntryStartAtLineStart(this.pos)) {
+        throw new BibSyntaxError(`Chaves desbalanceadas: a entrada "${key}" não foi fechada com "${close}".`, start, keyTo, this.pos, this.closingInsert(this.pos, close));
+      }
+      throw new BibSyntaxError(`Esperado "," ou "${close}" na entrada "${key}".`, this.pos, this.pos + 1, this.pos, { at: keyTo, text: ',' });
+    }
+    this.pos++;
+    this.entries.push({ type, key, fields, fieldList, from: start, to: this.pos, keyFrom, keyTo });
+  }
+
+  /**
+   * Lê um valor de campo: {texto}, "texto", número ou macro, concatenados com "#".
+   */
+  private readValue(entryStart: number, close: string): { value: string; valueFrom: number; valueTo: number } {
+    this.skipWhitespace();
+    const valueFrom = this.pos;
+    let value = '';
+    for (;;) {
+      const ch = this.src[this.pos];
+      if (ch === '{') {
+        const end = this.findClosing(entryStart, '{', '}');
+        value += this.src.slice(this.pos + 1, end);
+        this.pos = end + 1;
+      } else if (ch === '"') {
+        const end = this.findQuoteEnd(entryStart);
+        value += this.src.slice(this.pos + 1, end);
+        this.pos = end + 1;
+      } else if (ch !== undefined && /[0-9]/.test(ch)) {
+        const from = this.pos;
+        while (/[0-9]/.test(this.src[this.pos] ?? '')) this.pos++;
+        value += this.src.slice(from, this.pos);
+      } else if (ch !== undefined && /[A-Za-z_]/.test(ch)) {
+        const name = this.readIdentifier().toLowerCase();
+        value += this.strings[name] ?? name;
+      } else {
+        throw new BibSyntaxError('Valor de campo ausente ou inválido.', this.pos, this.pos + 1, this.pos, { at: this.pos, text: '{}' });
+      }
+      const valueTo = this.pos;
+      this.skipWhitespace();
+      if (this.src[this.pos] !== '#') {
+        const next = this.src[this.pos];
+        const atBoundary = this.pos >= this.src.length || this.isEntryStartAtLineStart(this.pos);
+        if (next !== ',' && next !== close && !atBoundary) {
+          throw new BibSyntaxError('Esperado "," entre campos.', valueTo, this.pos + 1, this.pos, { at: valueTo, text: ',' });
+        }
+        return { value, valueFrom, valueTo };
+      }
+      this.pos++;
+      this.skipWhitespace();
+    }
+  }
+
+  /**
+   * Encontra o delimitador que fecha o grupo aberto em this.pos (ou logo antes), respeitando aninhamento.
+   * Uma nova entrada no início de linha antes do fechamento indica chaves desbalanceadas.
+   */
+  private findClosing(entryStart: number, open: string, close: string): number {
+    const from = this.src[this.pos] === open ? this.pos : this.pos - 1;
+    let depth = 0;
+    for (let i = from; i < this.src.length; i++) {
+      const ch = this.src[i];
+      if (ch === '\\') { i++; continue; }
+      if (ch === open) depth++;
+      else if (ch === close && --depth === 0) return i;
+      else if (ch === '@' && i > from && this.isEntryStartAtLineStart(i)) {
+        throw new BibSyntaxError(`Chaves desbalanceadas: falta "${close}" antes da próxima entrada.`, entryStart, from + 1, i, this.closingInsert(i, close));
+      }
+    }
+    throw new BibSyntaxError(`Chaves desbalanceadas: falta "${close}" até o fim do arquivo.`, entryStart, from + 1, this.src.length, this.closingInsert(this.src.length, close));
+  }
+
+  /**
+   * Sugere inserir o delimitador ausente ao fim do texto que precede a posição (antes das linhas em branco).
+   */
+  private closingInsert(boundary: number, close: string): { at: number; text: string } {
+    let at = boundary;
+    while (at > 0 && /\s/.test(this.src[at - 1])) at--;
+    return { at, text: `\n${close}` };
+  }
+
+  /**
+   * Indica se a posição inicia algo como "@tipo{" no começo de uma linha.
+   */
+  private isEntryStartAtLineStart(i: number): boolean {
+    const lineStart = this.src.lastIndexOf('\n', i - 1) + 1;
+    return /^[ \t]*$/.test(this.src.slice(lineStart, i)) && /^@[A-Za-z]+\s*[{(]/.test(this.src.slice(i, i + 40));
+  }
+
+  /**
+   * Encontra a aspa que fecha um valor entre aspas, ignorando aspas dentro de chaves.
+   */
+  private findQuoteEnd(entryStart: number): number {
+    let depth = 0;
+    for (let i = this.pos + 1; i < this.src.length; i++) {
+      const ch = this.src[i];
+      if (ch === '\\') { i++; continue; }
+      if (ch === '{') depth++;
+      else if (ch === '}') depth--;
+      else if (ch === '"' && depth === 0) return i;
+    }
+    // Sugere fechar as aspas no fim da linha em que o valor começa (antes da vírgula final, se houver).
+    const lineEnd = this.src.indexOf('\n', this.pos);
+    const line = this.src.slice(this.pos, lineEnd < 0 ? this.src.length : lineEnd).replace(/\s*,?\s*$/, '');
+    throw new BibSyntaxError('Aspas não fechadas no valor do campo.', entryStart, this.pos + 1, this.pos + 1, { at: this.pos + line.length, text: '"' });
+  }
+
+  private readIdentifier(): string {
+    const from = this.pos;
+    while (this.pos < this.src.length && /[A-Za-z0-9_\-:.+]/.test(this.src[this.pos])) this.pos++;
+    return this.src.slice(from, this.pos);
+  }
+
+  private skipWhitespace() {
+    while (this.pos < this.src.length && /\s/.test(this.src[this.pos])) this.pos++;
+  }
+
+  private expect(ch: string, entryStart: number) {
+    if (this.src[this.pos] !== ch) {
+      throw new BibSyntaxError(`Esperado "${ch}".`, Math.max(entryStart, this.pos), this.pos + 1, this.pos, { at: this.pos, text: ch === '=' ? ' = ' : ch });
+    }
+    this.pos++;
+  }
+}
+
+/**
+ * Erro interno de sintaxe com o trecho a destacar e a posição de onde retomar a análise.
+ */
+class BibSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly from: number,
+    readonly to: number,
+    readonly resumeAt: number,
+    readonly insert?: { at: number; text: string }
+  ) {
+    super(message);
+    this.name = 'BibSyntaxError';
+  }
+}
+
+/**
+ * Analisa um arquivo BibTeX e retorna as entradas encontradas e os erros de sintaxe.
+ */
+export function parseBibtex(source: string): BibParseResult {
+  return new BibParser(source).parse();
+}
+
+const LATEX_ACCENTS: Record<string, Record<string, string>> = {
+  "'": { a: 'á', e: 'é', i: 'í', o: 'ó', u: 'ú', A: 'Á', E: 'É', I: 'Í', O: 'Ó', U: 'Ú', c: 'ć' },
+  '`': { a: 'à', e: 'è', i: 'ì', o: 'ò', u: 'ù', A: 'À', E: 'È', O: 'Ò' },
+  '^': { a: 'â', e: 'ê', i: 'î', o: 'ô', u: 'û', A: 'Â', E: 'Ê', O: 'Ô' },
+  '~': { a: 'ã', o: 'õ', n: 'ñ', A: 'Ã', O: 'Õ', N: 'Ñ' },
+  '"': { a: 'ä', e: 'ë', i: 'ï', o: 'ö', u: 'ü', A: 'Ä', O: 'Ö', U: 'Ü' },
+  c: { c: 'ç', C: 'Ç' },
+};
+
+/**
+ * Converte um valor BibTeX em texto simples: resolve acentos e escapes comuns e remove chaves de proteção.
+ */
+export function bibToPlainText(value: string): string {
+  return value
+    .replace(/\{?\\([`'^~"])\{?\\?([A-Za-z])\}?\}?/g, (m, accent: string, letter: string) => LATEX_ACCENTS[accent]?.[letter] ?? letter)
+    .replace(/\{?\\c\{?\s*([cC])\}?\}?/g, (_m, letter: string) => LATEX_ACCENTS.c[letter])
+    .replace(/\\([&%$#_])/g, '$1')
+    .replace(/\\(?:textit|textbf|emph|textsc|texttt)\{([^{}]*)\}/g, '$1')
+    .replace(/\\(TeX|LaTeX)\b/g, '$1')
+    .replace(/~/g, ' ')
+    .replace(/--/g, '–')
+    .replace(/[{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export type BibName = { first: string; last: string };
+
+/**
+ * Divide o campo author/editor em nomes, aceitando os formatos "Nome Sobrenome" e "Sobrenome, Nome".
+ */
+export function parseBibNames(value: string): BibName[] {
+  return splitTopLevel(value, /\s+and\s+/i)
+    .map((raw) => raw.trim())
+    .filter(Boolean)
+    .map((raw) => {
+      const comma = splitTopLevel(raw, /\s*,\s*/);
+      if (comma.length > 1) return { last: bibToPlainText(comma[0]), first: bibToPlainText(comma.slice(1).join(' ')) };
+      const words = splitTopLevel(raw, /\s+/);
+      const last = words.pop() ?? '';
+      return { last: bibToPlainText(last), first: bibToPlainText(words.join(' ')) };
+    });
+}
+
+/**
+ * Divide uma string pelo separador apenas fora de chaves.
+ */
+function splitTopLevel(value: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  let i = 0;
+  while (i < value.length) {
+    const ch = value[i];
+    if (ch === '{') depth++;
+    else if (ch === '}') depth--;
+    if (depth === 0) {
+      const rest = value.slice(i);
+      const m = new RegExp(`^(?:${separator.source})`, separator.flags).exec(rest);
+      if (m && m[0].length > 0) {
+        parts.push(current);
+        current = '';
+        i += m[0].length;
+        continue;
+      }
+    }
+    current += ch;
+    i++;
+  }
+  parts.push(current);
+  return parts;
+}
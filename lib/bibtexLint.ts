@@ -0,0 +1,214 @@
+import { Action, Diagnostic, linter } from '@codemirror/lint';
+import { Extension } from '@codemirror/state';
+import { BibEntry, BibField, parseBibtex } from './bibtex';
+import { closestName, replaceAction, selectAction } from './lintFixes';
+
+/**
+ * Campos obrigatórios por tipo de entrada (BibTeX padrão e @online do biblatex).
+ * Alternativas são separadas por "|" (ex.: author|editor).
+ */
+export const REQUIRED_BIB_FIELDS: Record<string, string[]> = {
+  article: ['author', 'title', 'journal', 'year'],
+  book: ['author|editor', 'title', 'publisher', 'year'],
+  booklet: ['title'],
+  inbook: ['author|editor', 'title', 'chapter|pages', 'publisher', 'year'],
+  incollection: ['author', 'title', 'booktitle', 'publisher', 'year'],
+  inproceedings: ['author', 'title', 'booktitle', 'year'],
+  conference: ['author', 'title', 'booktitle', 'year'],
+  manual: ['title'],
+  mastersthesis: ['author', 'title', 'school', 'year'],
+  phdthesis: ['author', 'title', 'school', 'year'],
+  misc: [],
+  online: ['title', 'url'],
+  proceedings: ['title', 'year'],
+  techreport: ['author', 'title', 'institution', 'year'],
+  unpublished: ['author', 'title', 'note'],
+};
+
+const VALID_PAGES = /^[A-Za-z]?\d+(?:--[A-Za-z]?\d+)?\+?$/;
+const LOOSE_PAGES = /^([A-Za-z]?\d+)\s*(?:-{1,3}|–|—)\s*([A-Za-z]?\d+)$/;
+
+/**
+ * Gera uma chave ainda não usada a partir da chave duplicada (knuth:84 → knuth:84a).
+ */
+function uniqueKey(key: string, used: Set<string>): string {
+  for (let i = 0; i < 26; i++) {
+    const candidate = key + String.fromCharCode(97 + i);
+    if (!used.has(candidate)) return candidate;
+  }
+  let n = 2;
+  while (used.has(`${key}-${n}`)) n++;
+  return `${key}-${n}`;
+}
+
+/**
+ * Ação que acrescenta um campo vazio ao final da entrada, cuidando da vírgula após o último campo.
+ */
+function addFieldAction(text: string, entry: BibEntry, field: string): Action {
+  const last: BibField | undefined = entry.fieldList[entry.fieldList.length - 1];
+  const anchor = last ? last.valueTo : entry.keyTo;
+  const closeAt = entry.to - 1;
+  const commaAt = text.slice(anchor, closeAt).indexOf(',');
+  if (commaAt >= 0) {
+    const at = anchor + commaAt + 1;
+    return replaceAction(`Adicionar "${field}"`, at, at, `\n  ${field} = {},`);
+  }
+  return replaceAction(`Adicionar "${field}"`, anchor, anchor, `,\n  ${field} = {}`);
+}
+
+/**
+ * Ação que seleciona o conteúdo do valor de um campo (sem as chaves ou aspas) para o autor preenchê-lo.
+ */
+function editValueAction(text: string, field: BibField, name = 'Preencher o valor'): Action {
+  const delimited = /^[{"]/.test(text.slice(field.valueFrom, field.valueTo)) && field.valueTo - field.valueFrom >= 2;
+  return delimited ? selectAction(name, field.valueFrom + 1, field.valueTo - 1) : selectAction(name, field.valueFrom, field.valueTo);
+}
+
+/**
+ * Ação que troca o tipo da entrada pelo tipo conhecido mais parecido (ou @misc, quando nenhum é próximo).
+ */
+function entryTypeAction(text: string, entry: BibEntry): Action | null {
+  const match = /^@(\s*)([A-Za-z]+)/.exec(text.slice(entry.from, entry.keyFrom));
+  if (!match) return null;
+  const suggestion = closestName(entry.type, Object.keys(REQUIRED_BIB_FIELDS)) ?? 'misc';
+  const from = entry.from + 1 + match[1].length;
+  return replaceAction(`Trocar por @${suggestion}`, from, from + match[2].length, suggestion);
+}
+
+/**
+ * Ano de quatro dígitos para um ano abreviado ("99" → 1999, "07" → 2007), tomando o século mais recente possível.
+ */
+function expandYear(short: string): string {
+  const currentYear = new Date().getFullYear();
+  const year = Math.floor(currentYear / 100) * 100 + Number(short);
+  return String(year > currentYear ? year - 100 : year);
+}
+
+/**
+ * Valida um campo pages, sugerindo a forma normalizada "início--fim".
+ */
+function checkPages(text: string, field: BibField, push: (d: Diagnostic) => void) {
+  const value = field.value.trim();
+  if (VALID_PAGES.test(value)) {
+    const [start, end] = value.split('--').map((p) => parseInt(p.replace(/\D/g, ''), 10));
+    if (end !== undefined && end < start) {
+      push({
+        from: field.valueFrom, to: field.valueTo, severity: 'error',
+        message: `Intervalo de páginas invertido: ${value}.`,
+        actions: [replaceAction('Inverter intervalo', field.valueFrom, field.valueTo, `{${value.split('--').reverse().join('--')}}`)],
+      });
+    }
+    return;
+  }
+  const loose = LOOSE_PAGES.exec(value);
+  if (loose) {
+    push({
+      from: field.valueFrom, to: field.valueTo, severity: 'warning',
+      message: `Use "--" para intervalos de páginas: ${loose[1]}--${loose[2]}.`,
+      actions: [replaceAction(`Trocar por ${loose[1]}--${loose[2]}`, field.valueFrom, field.valueTo, `{${loose[1]}--${loose[2]}}`)],
+    });
+    return;
+  }
+  const numbers = value.match(/\d+/g) ?? [];
+  const pages = numbers.length >= 2 ? `${numbers[0]}--${numbers[1]}` : numbers[0];
+  push({
+    from: field.valueFrom, to: field.valueTo, severity: 'error',
+    message: `Intervalo de páginas malformado: "${value}". Use "123" ou "123--456".`,
+    actions: [
+      ...(pages ? [replaceAction(`Trocar por ${pages}`, field.valueFrom, field.valueTo, `{${pages}}`)] : []),
+      editValueAction(text, field, 'Editar as páginas'),
+    ],
+  });
+}
+
+/**
+ * Valida um campo year, sugerindo o ano de quatro dígitos encontrado no valor.
+ */
+function checkYear(text: string, field: BibField, push: (d: Diagnostic) => void) {
+  const value = field.value.trim();
+  if (/^\d{4}$/.test(value)) return;
+  const found = /\b(\d{4})\b/.exec(value) ?? /(\d{4})/.exec(value);
+  const short = found ? null : /^'?(\d{2})$/.exec(value);
+  const year = found?.[1] ?? (short ? expandYear(short[1]) : null);
+  push({
+    from: field.valueFrom, to: field.valueTo, severity: 'error',
+    message: `Ano não numérico: "${value}". Use quatro dígitos (ex.: 1999).`,
+    actions: [
+      ...(year ? [replaceAction(`Trocar por ${year}`, field.valueFrom, field.valueTo, `{${year}}`)] : []),
+      editValueAction(text, field, 'Editar o ano'),
+    ],
+  });
+}
+
+/**
+ * Valida um arquivo BibTeX: sintaxe (chaves desbalanceadas), chaves de citação duplicadas,
+ * campos obrigatórios por tipo de entrada, intervalos de páginas e anos.
+ */
+export function lintBibtex(text: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const push = (d: Diagnostic) => diagnostics.push({ source: 'BibTeX', ...d });
+  const { entries, errors } = parseBibtex(text);
+
+  for (const err of errors) {
+    push({
+      from: err.from, to: Math.max(err.to, err.from + 1), severity: 'error', message: err.message,
+      actions: err.insert ? [replaceAction(`Inserir "${err.insert.text.trim()}"`, err.insert.at, err.insert.at, err.insert.text)] : undefined,
+    });
+  }
+
+  const used = new Set(entries.map((e) => e.key));
+  const seen = new Map<string, BibEntry>();
+  for (const entry of entries) {
+    const previous = seen.get(entry.key);
+    if (previous) {
+      const line = text.slice(0, previous.from).split('\n').length;
+      const replacement = uniqueKey(entry.key, used);
+      used.add(replacement);
+      push({
+        from: entry.keyFrom, to: entry.keyTo, severity: 'error',
+        message: `Chave de citação duplicada: "${entry.key}" já foi definida na linha ${line}.`,
+        actions: [replaceAction(`Renomear para "${replacement}"`, entry.keyFrom, entry.keyTo, replacement)],
+      });
+    } else {
+      seen.set(entry.key, entry);
+    }
+
+    const required = REQUIRED_BIB_FIELDS[entry.type];
+    if (!required) {
+      const action = entryTypeAction(text, entry);
+      push({
+        from: entry.from, to: entry.keyFrom, severity: 'info', message: `Tipo de entrada não reconhecido: @${entry.type}.`,
+        actions: action ? [action] : undefined,
+      });
+    }
+    for (const spec of required ?? []) {
+      const alternatives = spec.split('|');
+      if (alternatives.some((f) => (entry.fields[f] ?? '').trim() !== '')) continue;
+      const names = alternatives.map((f) => `"${f}"`).join(' ou ');
+      const empty = entry.fieldList.find((f) => alternatives.includes(f.name));
+      push(empty
+        ? {
+          from: empty.from, to: empty.to, severity: 'error', message: `O campo obrigatório ${names} de "${entry.key}" está vazio.`,
+          actions: [editValueAction(text, empty)],
+        }
+        : {
+          from: entry.from, to: entry.keyTo, severity: 'error',
+          message: `@${entry.type} "${entry.key}" sem o campo obrigatório ${names}.`,
+          actions: [addFieldAction(text, entry, alternatives[0])],
+        });
+    }
+
+    for (const field of entry.fieldList) {
+      if (field.name === 'pages') checkPages(text, field, push);
+      else if (field.name === 'year') checkYear(text, field, push);
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Extensão de lint do CodeMirror para arquivos .bib.
+ */
+export function bibtexLinter(): Extension {
+  return linter((view) => lintBibtex(view.state.doc.toString()), { delay: 300 });
+}
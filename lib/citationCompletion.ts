@@ -0,0 +1,75 @@
+import { Completion, CompletionContext, CompletionResult, CompletionSource, ifNotIn } from '@codemirror/autocomplete';
+import { BibEntry, bibToPlainText, parseBibNames } from './bibtex';
+
+/**
+ * Comandos de citação do LaTeX/natbib/biblatex cujo argumento recebe chaves BibTeX.
+ */
+const CITE_COMMAND = /\\(?:cite|citet|citep|citealp|citeauthor|citeyear|parencite|textcite|autocite)\*?(?:\[[^\]\n]*\]){0,2}\{[^}\n]*$/;
+
+/**
+ * Citação Pandoc: "@" no início, após espaço, "[", ";" ou "-" (evita e-mails como autor@exemplo.com).
+ */
+const PANDOC_CITE = /(?:^|[\s[;-])@[\w:.#$%&+?<>~/-]*$/;
+
+const CODE_NODES = ['InlineCode', 'FencedCode', 'CodeBlock', 'CodeText', 'URL'];
+
+/**
+ * Monta a opção de autocompletar de uma entrada, exibindo autores, título e ano.
+ */
+function toCompletion(entry: BibEntry): Completion {
+  const names = parseBibNames(entry.fields.author ?? entry.fields.editor ?? '');
+  const authors = names.map((n) => [n.first, n.last].filter(Boolean).join(' ')).join(', ');
+  const shortAuthors = names.length > 2 ? `${names[0].last} et al.` : names.map((n) => n.last).join(' & ');
+  const title = bibToPlainText(entry.fields.title ?? '');
+  const year = bibToPlainText(entry.fields.year ?? '');
+  return {
+    label: entry.key,
+    type: 'variable',
+    detail: [shortAuthors, year].filter(Boolean).join(', '),
+    info: () => {
+      const dom = document.createElement('div');
+      dom.style.maxWidth = '28rem';
+      const titleEl = document.createElement('strong');
+      titleEl.textContent = title || '(sem título)';
+      const authorsEl = document.createElement('div');
+      authorsEl.textContent = authors || '(sem autor)';
+      const yearEl = document.createElement('div');
+      yearEl.style.opacity = '0.7';
+      yearEl.textContent = [`@${entry.type}`, year].filter(Boolean).join(' · ');
+      dom.append(titleEl, authorsEl, yearEl);
+      return dom;
+    },
+  };
+}
+
+/**
+ * Cria a fonte de autocompletar de citações. As entradas são lidas a cada consulta, de modo
+ * que alterações no .bib em outra aba aparecem sem reconfigurar o editor.
+ */
+export function citationCompletionSource(getEntries: () => BibEntry[]): CompletionSource {
+  const source = (context: CompletionContext): CompletionResult | null => {
+    const latex = context.matchBefore(CITE_COMMAND);
+    const pandoc = latex ? null : context.matchBefore(PANDOC_CITE);
+    const match = latex ?? pandoc;
+    if (!match) return null;
+
+    let from: number;
+    if (latex) {
+      const text = latex.text;
+      const lastSep = Math.max(text.lastIndexOf('{'), text.lastIndexOf(','));
+      from = latex.from + lastSep + 1;
+      while (from < context.pos && /\s/.test(context.state.sliceDoc(from, from + 1))) from++;
+    } else {
+      from = match.from + match.text.lastIndexOf('@') + 1;
+    }
+
+    const entries = getEntries();
+    if (!entries.length) return null;
+    return {
+      from,
+      options: entries.map(toCompletion),
+      validFor: /^[\w:.#$%&+?<>~/-]*$/,
+    };
+  };
+  return ifNotIn(CODE_NODES, source);
+}
@@ -0,0 +1,186 @@
+import { BibEntry, BibName, bibToPlainText, parseBibNames } from './bibtex';
+
+export type CitationMode = 'parenthetical' | 'textual' | 'year-only';
+
+export type CitationItem = { key: string; prefix?: string; locator?: string; suppressAuthor?: boolean };
+
+/**
+ * Escapa texto para inclusão segura em HTML.
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Abrevia prenomes em iniciais, como no estilo SBC ("Donald E." → "D. E.", "Jean-Pierre" → "J.-P.").
+ */
+function initials(first: string): string {
+  return first
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => word.split('-').map((part) => (part.endsWith('.') ? part : `${part.charAt(0)}.`)).join('-'))
+    .join(' ');
+}
+
+/**
+ * Formata a lista de nomes da referência completa: "Boulic, R. and Renault, O.".
+ */
+function formatNameList(names: BibName[]): string {
+  const formatted = names.map((n) => (n.first ? `${n.last}, ${initials(n.first)}` : n.last));
+  if (formatted.length <= 1) return formatted.join('');
+  return `${formatted.slice(0, -1).join(', ')} and ${formatted[formatted.length - 1]}`;
+}
+
+/**
+ * Formata editores como o apalike usado pelo modelo SBC: "Smith-Jones, A. B., editor".
+ */
+function formatEditors(value: string): string {
+  const names = parseBibNames(value);
+  if (!names.length) return '';
+  return `${formatNameList(names)}, ${names.length > 1 ? 'editors' : 'editor'}`;
+}
+
+/**
+ * Converte um título para caixa de sentença preservando trechos protegidos por chaves.
+ */
+function sentenceCase(value: string): string {
+  let depth = 0;
+  let out = '';
+  let first = true;
+  for (const ch of value) {
+    if (ch === '{') depth++;
+    else if (ch === '}') depth--;
+    if (depth === 0 && /\p{L}/u.test(ch)) {
+      out += first ? ch : ch.toLowerCase();
+      first = false;
+    } else {
+      if (/\p{L}/u.test(ch)) first = false;
+      out += ch;
+    }
+  }
+  return bibToPlainText(out);
+}
+
+/**
+ * Sobrenomes usados na citação no texto: "Knuth", "Boulic and Renault", "Smith et al.".
+ */
+function citationAuthors(entry: BibEntry): string {
+  const names = parseBibNames(entry.fields.author ?? entry.fields.editor ?? '');
+  if (!names.length) return bibToPlainText(entry.fields.title ?? entry.key);
+  if (names.length === 1) return names[0].last;
+  if (names.length === 2) return `${names[0].last} and ${names[1].last}`;
+  return `${names[0].last} et al.`;
+}
+
+/**
+ * Registra as citações feitas durante a renderização, na ordem de aparição, para montar as referências.
+ */
+export class CitationRegistry {
+  private readonly byKey: Map<string, BibEntry>;
+  private readonly cited = new Set<string>();
+
+  constructor(entries: BibEntry[]) {
+    this.byKey = new Map(entries.map((e) => [e.key, e]));
+  }
+
+  /**
+   * Renderiza uma citação no estilo SBC, marcando visivelmente as chaves desconhecidas.
+   */
+  render(items: CitationItem[], mode: CitationMode): string {
+    const parts = items.map((item) => {
+      const entry = this.byKey.get(item.key);
+      const prefix = item.prefix ? `${escapeHtml(item.prefix)} ` : '';
+      if (!entry) {
+        return `${prefix}<span class="citation-broken text-red-600 dark:text-red-400 underline decoration-wavy" title="Referência não encontrada: ${escapeHtml(item.key)}">${escapeHtml(item.key)}?</span>`;
+      }
+      this.cited.add(item.key);
+      const year = bibToPlainText(entry.fields.year ?? 's.d.');
+      const locator = item.locator ? `, ${escapeHtml(item.locator)}` : '';
+      const authors = escapeHtml(citationAuthors(entry));
+      const text = mode === 'textual'
+        ? `${authors} [${escapeHtml(year)}${locator}]`
+        : mode === 'year-only' || item.suppressAuthor
+          ? `${escapeHtml(year)}${locator}`
+          : `${authors} ${escapeHtml(year)}${locator}`;
+      return `${prefix}<a href="#ref-${encodeURIComponent(item.key)}" class="citation no-underline">${text}</a>`;
+    });
+    const joined = parts.join(mode === 'textual' ? '; ' : ', ');
+    return mode === 'textual' ? joined : `[${joined}]`;
+  }
+
+  /**
+   * Seção "Referências" com as entradas citadas, ordenadas por autor e ano como no apalike.
+   */
+  renderBibliography(): string {
+    const entries = [...this.cited].map((key) => this.byKey.get(key)!).sort((a, b) => {
+      const byAuthor = citationSortKey(a).localeCompare(citationSortKey(b), 'pt-BR');
+      return byAuthor || (a.fields.year ?? '').localeCompare(b.fields.year ?? '');
+    });
+    if (!entries.length) return '';
+    const items = entries
+      .map((entry) => `<p id="ref-${encodeURIComponent(entry.key)}" style="padding-left:0.5cm;text-indent:-0.5cm;margin:6pt 0">${formatReference(entry)}</p>`)
+      .join('\n');
+    return `<section class="bibliography">\n<h1>Referências</h1>\n${items}\n</section>`;
+  }
+}
+
+/**
+ * Chave de ordenação da referência: sobrenomes dos autores (ou título, na falta deles).
+ */
+function citationSortKey(entry: BibEntry): string {
+  const names = parseBibNames(entry.fields.author ?? entry.fields.editor ?? '');
+  return names.length ? names.map((n) => `${n.last} ${n.first}`).join(' ') : bibToPlainText(entry.fields.title ?? entry.key);
+}
+
+/**
+ * Formata uma referência completa no estilo do modelo SBC (apalike).
+ */
+export function formatReference(entry: BibEntry): string {
+  return referenceBody(entry).replace(/\.(<\/em>)?\.(?!\.)/g, '.$1');
+}
+
+/**
+ * Monta o texto da referência conforme o tipo da entrada; pode conter pontuação duplicada.
+ */
+function referenceBody(entry: BibEntry): string {
+  const f = (name: string) => escapeHtml(bibToPlainText(entry.fields[name] ?? ''));
+  const authors = entry.fields.author
+    ? formatNameList(parseBibNames(entry.fields.author))
+    : entry.fields.editor ? formatEditors(entry.fields.editor) : '';
+  const year = f('year') || 's.d.';
+  const title = escapeHtml(sentenceCase(entry.fields.title ?? ''));
+  const pages = f('pages');
+  const head = `${escapeHtml(authors)} (${year}). `;
+  const tail = (parts: string[]) => parts.filter(Boolean).join(', ');
+
+  switch (entry.type) {
+    case 'book':
+      return `${head}<em>${escapeHtml(bibToPlainText(entry.fields.title ?? ''))}</em>. ${tail([f('publisher'), f('address'), entry.fields.edition ? `${f('edition')} edition` : ''])}.`;
+    case 'article': {
+      const volume = f('volume') + (entry.fields.number ? `(${f('number')})` : '') + (pages ? `:${pages}` : '');
+      return `${head}${title}. <em>${f('journal')}</em>${volume ? `, ${volume}` : ''}.`;
+    }
+    case 'incollection':
+    case 'inbook': {
+      const editors = entry.fields.editor ? `${escapeHtml(formatEditors(entry.fields.editor))}, ` : '';
+      return `${head}${title}. In ${editors}<em>${f('booktitle')}</em>${pages ? `, pages ${pages}` : ''}. ${tail([f('publisher'), f('address')])}.`;
+    }
+    case 'inproceedings':
+    case 'conference':
+      return `${head}${title}. In <em>${f('booktitle')}</em>${pages ? `, pages ${pages}` : ''}${entry.fields.publisher || entry.fields.address ? `. ${tail([f('publisher'), f('address')])}` : ''}.`;
+    case 'phdthesis':
+      return `${head}<em>${title}</em>. PhD thesis, ${tail([f('school'), f('address')])}.`;
+    case 'mastersthesis':
+      return `${head}${title}. Master's thesis, ${tail([f('school'), f('address')])}.`;
+    case 'techreport':
+      return `${head}${title}. Technical report${entry.fields.number ? ` ${f('number')}` : ''}, ${tail([f('institution'), f('address')])}.`;
+    default: {
+      const extra = tail([f('howpublished'), f('note'), entry.fields.url ? `<a href="${escapeHtml(entry.fields.url)}">${f('url')}</a>` : '']);
+      return `${head}${title}.${extra ? ` ${extra}.` : ''}`;
+    }
+  }
+}
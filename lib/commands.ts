@@ -0,0 +1,255 @@
+import {
+  addCursorAbove, addCursorBelow, copyLineDown, copyLineUp, cursorCharLeft, cursorCharRight, cursorDocEnd, cursorDocStart,
+  cursorGroupLeft, cursorGroupRight, cursorLineBoundaryBackward, cursorLineBoundaryForward, cursorLineBoundaryLeft,
+  cursorLineBoundaryRight, cursorLineDown, cursorLineEnd, cursorLineStart, cursorLineUp, cursorMatchingBracket, cursorPageDown,
+  cursorPageUp, cursorSyntaxLeft, cursorSyntaxRight, defaultKeymap, deleteCharBackward, deleteCharForward, deleteGroupBackward,
+  deleteGroupForward, deleteLine, deleteLineBoundaryBackward, deleteLineBoundaryForward, deleteToLineEnd, indentLess, indentMore,
+  indentSelection, insertBlankLine, insertNewlineAndIndent, moveLineDown, moveLineUp, selectAll, selectCharLeft, selectCharRight,
+  selectDocEnd, selectDocStart, selectGroupLeft, selectGroupRight, selectLine, selectLineBoundaryBackward, selectLineBoundaryForward,
+  selectLineBoundaryLeft, selectLineBoundaryRight, selectLineDown, selectLineEnd, selectLineStart, selectLineUp, selectPageDown,
+  selectPageUp, selectParentSyntax, selectSyntaxLeft, selectSyntaxRight, simplifySelection, splitLine, toggleBlockComment,
+  toggleComment, toggleTabFocusMode, transposeChars,
+} from '@codemirror/commands';
+
+/**
+ * Ação da aplicação exposta na paleta de comandos e nos atalhos de teclado. Os atalhos usam a notação
+ * do CodeMirror ("Mod-Shift-p"), em que Mod é Cmd no macOS e Ctrl nos demais sistemas.
+ */
+export type Command = {
+  id: string;
+  title: string;
+  /** Grupo exibido antes do título na paleta (ex.: "Formatar", "Arquivo"). */
+  category: string;
+  /** Atalhos padrão; o usuário pode substituí-los no editor de atalhos. */
+  keys?: string[];
+  run: () => void;
+  /** Comandos desativados aparecem na paleta, mas não executam. */
+  enabled?: boolean;
+};
+
+/** Atalhos escolhidos pelo usuário por id de comando; uma lista vazia remove os atalhos padrão. */
+export type KeybindingOverrides = Record<string, string[]>;
+
+/** Atalho também usado pelo editor ou por outro comando. */
+export type KeyConflict = { key: string; description: string };
+
+/** Acesso do cabeçalho e da toolbar aos comandos do registro, com os atalhos em vigor. */
+export type CommandRegistry = {
+  run: (id: string) => void;
+  isEnabled: (id: string) => boolean;
+  /** Rótulo acrescido do primeiro atalho em vigor, ex.: "Bold (Ctrl+B)". */
+  tooltip: (id: string, label: string) => string;
+};
+
+/** Resultado da busca aproximada: pontuação e posições do texto que casaram com a consulta. */
+export type FuzzyMatch = { score: number; indices: number[] };
+
+export const IS_MAC = typeof navigator !== 'undefined' && navigator.platform.toUpperCase().includes('MAC');
+
+const MODIFIER_ORDER = ['Alt', 'Ctrl', 'Meta', 'Shift'] as const;
+
+const MODIFIER_ALIASES: Record<string, (typeof MODIFIER_ORDER)[number] | 'Mod'> = {
+  a: 'Alt', alt: 'Alt', c: 'Ctrl', ctrl: 'Ctrl', control: 'Ctrl', m: 'Meta', meta: 'Meta', cmd: 'Meta', s: 'Shift', shift: 'Shift', mod: 'Mod',
+};
+
+const MODIFIER_SYMBOLS_MAC: Record<string, string> = { Alt: '⌥', Ctrl: '⌃', Meta: '⌘', Shift: '⇧' };
+
+/**
+ * Nomes dos comandos do defaultKeymap exibidos nos conflitos. A chave é a própria função: o nome dela
+ * não sobrevive à minificação do build de produção.
+ */
+const EDITOR_COMMAND_LABELS = new Map<unknown, string>([
+  [cursorCharLeft, 'mover o cursor para a esquerda'], [selectCharLeft, 'estender a seleção para a esquerda'],
+  [cursorCharRight, 'mover o cursor para a direita'], [selectCharRight, 'estender a seleção para a direita'],
+  [cursorGroupLeft, 'ir à palavra anterior'], [selectGroupLeft, 'selecionar até a palavra anterior'],
+  [cursorGroupRight, 'ir à próxima palavra'], [selectGroupRight, 'selecionar até a próxima palavra'],
+  [cursorSyntaxLeft, 'ir ao nó sintático anterior'], [selectSyntaxLeft, 'selecionar até o nó sintático anterior'],
+  [cursorSyntaxRight, 'ir ao próximo nó sintático'], [selectSyntaxRight, 'selecionar até o próximo nó sintático'],
+  [cursorLineUp, 'subir uma linha'], [selectLineUp, 'estender a seleção uma linha acima'],
+  [cursorLineDown, 'descer uma linha'], [selectLineDown, 'estender a seleção uma linha abaixo'],
+  [cursorPageUp, 'subir uma página'], [selectPageUp, 'estender a seleção uma página acima'],
+  [cursorPageDown, 'descer uma página'], [selectPageDown, 'estender a seleção uma página abaixo'],
+  [cursorDocStart, 'ir ao início do documento'], [selectDocStart, 'selecionar até o início do documento'],
+  [cursorDocEnd, 'ir ao fim do documento'], [selectDocEnd, 'selecionar até o fim do documento'],
+  [cursorLineBoundaryLeft, 'ir ao início da linha'], [selectLineBoundaryLeft, 'selecionar até o início da linha'],
+  [cursorLineBoundaryRight, 'ir ao fim da linha'], [selectLineBoundaryRight, 'selecionar até o fim da linha'],
+  [cursorLineBoundaryBackward, 'ir ao início da linha'], [selectLineBoundaryBackward, 'selecionar até o início da linha'],
+  [cursorLineBoundaryForward, 'ir ao fim da linha'], [selectLineBoundaryForward, 'selecionar até o fim da linha'],
+  [cursorLineStart, 'ir ao início da linha'], [selectLineStart, 'selecionar até o início da linha'],
+  [cursorLineEnd, 'ir ao fim da linha'], [selectLineEnd, 'selecionar até o fim da linha'],
+  [cursorMatchingBracket, 'ir ao parêntese correspondente'],
+  [moveLineUp, 'mover a linha para cima'], [moveLineDown, 'mover a linha para baixo'],
+  [copyLineUp, 'duplicar a linha acima'], [copyLineDown, 'duplicar a linha abaixo'],
+  [addCursorAbove, 'adicionar cursor acima'], [addCursorBelow, 'adicionar cursor abaixo'],
+  [simplifySelection, 'simplificar a seleção'], [selectAll, 'selecionar tudo'], [selectLine, 'selecionar a linha'],
+  [selectParentSyntax, 'selecionar o nó sintático pai'],
+  [indentLess, 'diminuir o recuo'], [indentMore, 'aumentar o recuo'], [indentSelection, 'reindentar a seleção'],
+  [insertNewlineAndIndent, 'nova linha com recuo'], [insertBlankLine, 'inserir linha em branco'], [splitLine, 'quebrar a linha'],
+  [deleteCharBackward, 'apagar o caractere anterior'], [deleteCharForward, 'apagar o próximo caractere'],
+  [deleteGroupBackward, 'apagar a palavra anterior'], [deleteGroupForward, 'apagar a próxima palavra'],
+  [deleteLineBoundaryBackward, 'apagar até o início da linha'], [deleteLineBoundaryForward, 'apagar até o fim da linha'],
+  [deleteToLineEnd, 'apagar até o fim da linha'], [deleteLine, 'apagar a linha'], [transposeChars, 'trocar caracteres de lugar'],
+  [toggleComment, 'comentar/descomentar'], [toggleBlockComment, 'comentar/descomentar bloco'],
+  [toggleTabFocusMode, 'alternar o modo de foco do Tab'],
+]);
+
+/**
+ * Normaliza um atalho na notação do CodeMirror para a forma canônica da plataforma ("Ctrl-Shift-p"),
+ * com os modificadores em ordem fixa e letras minúsculas (uma letra maiúscula implica Shift).
+ */
+export function normalizeKey(key: string, isMac = IS_MAC): string {
+  const parts = key.split(/-(?!$)/);
+  let name = parts.pop()!;
+  const modifiers = new Set<string>();
+  for (const part of parts) {
+    const alias = MODIFIER_ALIASES[part.toLowerCase()];
+    if (alias) modifiers.add(alias === 'Mod' ? (isMac ? 'Meta' : 'Ctrl') : alias);
+  }
+  if (name.length === 1 && name !== name.toLowerCase()) {
+    modifiers.add('Shift');
+    name = name.toLowerCase();
+  } else if (name === 'Space') {
+    name = ' ';
+  }
+  return [...MODIFIER_ORDER.filter((m) => modifiers.has(m)), name].join('-');
+}
+
+/**
+ * Atalho canônico de um evento de teclado, ou null quando só um modificador foi pressionado. Letras e
+ * dígitos vêm do código físico da tecla, para que Alt no macOS (que gera outros caracteres) funcione.
+ */
+export function eventToKey(event: KeyboardEvent, isMac = IS_MAC): string | null {
+  if (['Alt', 'Control', 'Meta', 'Shift', 'AltGraph', 'CapsLock'].includes(event.key)) return null;
+  const physical = /^Key([A-Z])$|^Digit(\d)$/.exec(event.code);
+  const name = physical ? (physical[1] ?? physical[2]).toLowerCase() : event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  const modifiers = [event.altKey && 'Alt', event.ctrlKey && 'Ctrl', event.metaKey && 'Meta', event.shiftKey && 'Shift'].filter(Boolean);
+  return normalizeKey([...modifiers, name].join('-'), isMac);
+}
+
+/**
+ * Texto de um atalho para exibição: "Ctrl+Shift+P" ou, no macOS, "⌘⇧P".
+ */
+export function formatKey(key: string, isMac = IS_MAC): string {
+  const parts = normalizeKey(key, isMac).split(/-(?!$)/);
+  const name = parts.pop()!;
+  const label = name === ' ' ? 'Space' : name.length === 1 ? name.toUpperCase() : name.replace(/^Arrow/, '');
+  return isMac
+    ? parts.map((m) => MODIFIER_SYMBOLS_MAC[m]).join('') + label
+    : [...parts, label].join('+');
+}
+
+/**
+ * Indica se o atalho pode ser usado sem atrapalhar a digitação: precisa de Ctrl, Cmd ou Alt, ou ser uma tecla F1–F12.
+ */
+export function isUsableKey(key: string): boolean {
+  return /(?:^|-)(?:Alt|Ctrl|Meta)-/.test(key) || /(?:^|-)F(?:[1-9]|1[0-2])$/.test(key);
+}
+
+/**
+ * Atalhos em vigor de um comando: os do usuário, quando definidos, ou os padrão.
+ */
+export function effectiveKeys(command: Command, overrides: KeybindingOverrides): string[] {
+  return overrides[command.id] ?? command.keys ?? [];
+}
+
+/**
+ * Atalhos do defaultKeymap do CodeMirror na plataforma atual, com o nome do comando do editor.
+ */
+export function editorKeyBindings(isMac = IS_MAC): Map<string, string> {
+  const bindings = new Map<string, string>();
+  for (const binding of defaultKeymap) {
+    const key = (isMac ? binding.mac : undefined) ?? binding.key;
+    if (!key) continue;
+    const name = EDITOR_COMMAND_LABELS.get(binding.run) ?? 'um comando do editor';
+    bindings.set(normalizeKey(key, isMac), name);
+    if (binding.shift) bindings.set(normalizeKey(`Shift-${key}`, isMac), EDITOR_COMMAND_LABELS.get(binding.shift) ?? name);
+  }
+  return bindings;
+}
+
+/**
+ * Conflitos dos atalhos de cada comando com o defaultKeymap do editor e com os atalhos dos demais comandos.
+ */
+export function findConflicts(commands: Command[], overrides: KeybindingOverrides, isMac = IS_MAC): Record<string, KeyConflict[]> {
+  const editor = editorKeyBindings(isMac);
+  const owners = new Map<string, Command[]>();
+  for (const command of commands) {
+    for (const key of effectiveKeys(command, overrides)) {
+      const normalized = normalizeKey(key, isMac);
+      owners.set(normalized, [...(owners.get(normalized) ?? []), command]);
+    }
+  }
+  const conflicts: Record<string, KeyConflict[]> = {};
+  for (const command of commands) {
+    const found: KeyConflict[] = [];
+    for (const key of effectiveKeys(command, overrides)) {
+      const normalized = normalizeKey(key, isMac);
+      const editorCommand = editor.get(normalized);
+      if (editorCommand) found.push({ key, description: `o editor usa ${formatKey(key, isMac)} para "${editorCommand}"` });
+      for (const other of owners.get(normalized) ?? []) {
+        if (other !== command) found.push({ key, description: `${formatKey(key, isMac)} também está em "${other.category}: ${other.title}"` });
+      }
+    }
+    if (found.length) conflicts[command.id] = found;
+  }
+  return conflicts;
+}
+
+/**
+ * Comando associado ao atalho (já normalizado), considerando os atalhos do usuário.
+ */
+export function commandForKey(commands: Command[], overrides: KeybindingOverrides, key: string, isMac = IS_MAC): Command | undefined {
+  return commands.find((c) => effectiveKeys(c, overrides).some((k) => normalizeKey(k, isMac) === key));
+}
+
+/**
+ * Registro consultado pelos componentes de interface: executa os comandos pelo id e exibe os atalhos personalizados.
+ */
+export function commandRegistry(commands: Command[], overrides: KeybindingOverrides, isMac = IS_MAC): CommandRegistry {
+  const byId = new Map(commands.map((c) => [c.id, c]));
+  const isEnabled = (id: string) => {
+    const command = byId.get(id);
+    return !!command && command.enabled !== false;
+  };
+  return {
+    run: (id) => { if (isEnabled(id)) byId.get(id)!.run(); },
+    isEnabled,
+    tooltip: (id, label) => {
+      const command = byId.get(id);
+      const key = command && effectiveKeys(command, overrides)[0];
+      return key ? `${label} (${formatKey(key, isMac)})` : label;
+    },
+  };
+}
+
+/**
+ * Letra minúscula e sem acento, preservando a posição de cada caractere do texto.
+ */
+function foldChar(ch: string): string {
+  return ch.normalize('NFD')[0].toLowerCase();
+}
+
+/**
+ * Busca aproximada: todas as letras da consulta precisam aparecer em ordem no texto; sequências contíguas
+ * e inícios de palavra valem mais. Retorna null quando não casa.
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = [...query.replace(/\s+/g, '')].map(foldChar);
+  if (!needle.length) return { score: 0, indices: [] };
+  const indices: number[] = [];
+  let score = 0;
+  let position = 0;
+  for (const ch of needle) {
+    let found = -1;
+    for (let i = position; i < text.length; i++) {
+      if (foldChar(text[i]) === ch) { found = i; break; }
+    }
+    if (found < 0) return null;
+    const isWordStart = found === 0 || /[\s:/_-]/.test(text[found - 1]);
+    const isConsecutive = indices.length > 0 && indices[indices.length - 1] === found - 1;
+    score += 1 + (isConsecutive ? 5 : 0) + (isWordStart ? 3 : 0) - Math.min(3, found - position) * 0.1;
+    indices.push(found);
+    position = found + 1;
+  }
+  return { score, indices };
+}
@@ -0,0 +1,112 @@
+import { Action, Diagnostic, linter } from '@codemirror/lint';
+import { Extension } from '@codemirror/state';
+import { isMap, isNode, isScalar, isSeq, parseDocument } from 'yaml';
+import { ConfigField, ConfigSchema, suggestConfigKey } from './configSchema';
+import { replaceAction } from './lintFixes';
+
+type Range = [number, number];
+
+/**
+ * Gera a linha YAML de um campo ausente, com valor vazio compatível com o tipo esperado.
+ */
+function emptyFieldSnippet(key: string, field: ConfigField): string {
+  return field.type === 'list' ? `${key}:\n  - ""\n` : `${key}: ""\n`;
+}
+
+/**
+ * Descreve o tipo encontrado em um nó YAML para mensagens de erro.
+ */
+function describeNode(node: unknown): string {
+  if (isSeq(node)) return 'uma lista';
+  if (isMap(node)) return 'um mapa';
+  return 'um texto';
+}
+
+/**
+ * Valida o configuracao.yaml contra o esquema do modelo: sintaxe, chaves desconhecidas,
+ * campos obrigatórios ausentes e tipos incorretos.
+ */
+export function lintConfigYaml(text: string, schema: ConfigSchema): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const clamp = ([from, to]: Range): Range => {
+    const a = Math.min(Math.max(0, from), text.length);
+    const b = Math.min(Math.max(a, to), text.length);
+    return a === b && b < text.length ? [a, b + 1] : [a, b];
+  };
+  const push = (range: Range, severity: Diagnostic['severity'], message: string, actions?: Action[]) => {
+    const [from, to] = clamp(range);
+    diagnostics.push({ from, to, severity, message, source: 'configuracao.yaml', actions });
+  };
+
+  const doc = parseDocument(text, { prettyErrors: false });
+  for (const err of doc.errors) push(err.pos, 'error', `Erro de sintaxe YAML: ${err.message}`);
+  for (const warn of doc.warnings) push(warn.pos, 'warning', warn.message);
+  if (doc.errors.length) return diagnostics;
+
+  const firstLineEnd = text.indexOf('\n') < 0 ? text.length : text.indexOf('\n');
+  const eofInsert = text.length > 0 && !text.endsWith('\n') ? '\n' : '';
+  const root = doc.contents;
+  if (root !== null && !isMap(root)) {
+    push([0, firstLineEnd], 'error', `O arquivo deve ser um mapa de chaves (ex.: "title: ..."), mas contém ${describeNode(root)}.`);
+    return diagnostics;
+  }
+
+  const pairs = isMap(root) ? root.items : [];
+  // Todas as chaves do documento, inclusive as que vêm depois: a sugestão não deve apontar para uma chave já usada.
+  const present = new Set(pairs.flatMap((pair) => (isScalar(pair.key) ? [String(pair.key.value)] : [])));
+  for (const pair of pairs) {
+    if (!isScalar(pair.key) || !pair.key.range) continue;
+    const key = String(pair.key.value);
+    const keyRange: Range = [pair.key.range[0], pair.key.range[1]];
+
+    const field = schema.fields[key];
+    if (!field) {
+      const suggestion = suggestConfigKey(schema, key, [...present]);
+      const hint = suggestion ? ` Você quis dizer "${suggestion}"?` : '';
+      push(keyRange, 'warning', `Chave desconhecida para o modelo ${schema.name}: "${key}".${hint}`,
+        suggestion ? [replaceAction(`Renomear para "${suggestion}"`, keyRange[0], keyRange[1], suggestion)] : undefined);
+      continue;
+    }
+
+    const value = pair.value;
+    const isEmpty = value === null || (isScalar(value) && (value.value === null || value.value === ''));
+    if (isEmpty) {
+      if (field.required) push(keyRange, 'warning', `O campo obrigatório "${key}" está vazio. ${field.description}`);
+      continue;
+    }
+    if (!isNode(value) || !value.range) continue;
+    const valueRange: Range = [value.range[0], value.range[1]];
+
+    if (field.type === 'list') {
+      if (isScalar(value)) {
+        const source = text.slice(valueRange[0], valueRange[1]);
+        push(valueRange, 'error', `"${key}" deve ser uma lista, mas contém um texto. ${field.description}`,
+          [replaceAction('Converter em lista', keyRange[1], valueRange[1], `:\n  - ${source}`)]);
+      } else if (!isSeq(value)) {
+        push(valueRange, 'error', `"${key}" deve ser uma lista de textos, mas contém ${describeNode(value)}.`);
+      } else {
+        for (const item of value.items) {
+          if (!isScalar(item) && isNode(item) && item.range) {
+            push([item.range[0], item.range[1]], 'error', `Os itens de "${key}" devem ser textos, mas este contém ${describeNode(item)}.`);
+          }
+        }
+      }
+    } else if (!isScalar(value)) {
+      push(valueRange, 'error', `"${key}" deve ser um texto, mas contém ${describeNode(value)}.`);
+    }
+  }
+
+  const missing = Object.entries(schema.fields).filter(([key, field]) => field.required && !present.has(key));
+  for (const [key, field] of missing) {
+    push([0, firstLineEnd], 'error', `Campo obrigatório ausente: "${key}". ${field.description}`,
+      [replaceAction(`Adicionar "${key}"`, text.length, text.length, eofInsert + emptyFieldSnippet(key, field))]);
+  }
+  return diagnostics;
+}
+
+/**
+ * Extensão de lint do CodeMirror para o configuracao.yaml, validando contra o esquema informado.
+ */
+export function configLinter(schema: ConfigSchema): Extension {
+  return linter((view) => lintConfigYaml(view.state.doc.toString(), schema), { delay: 300 });
+}
@@ -0,0 +1,94 @@
+import { closestName } from './lintFixes';
+
+export type ConfigFieldType = 'string' | 'list';
+
+export type ConfigField = {
+  type: ConfigFieldType;
+  required: boolean;
+  description: string;
+};
+
+export type ConfigSchema = {
+  /** Nome do modelo exibido nas mensagens de validação. */
+  name: string;
+  fields: Record<string, ConfigField>;
+};
+
+/**
+ * Chaves aceitas pelo modelo SBC no configuracao.yaml.
+ */
+export const SBC_CONFIG_SCHEMA: ConfigSchema = {
+  name: 'SBC',
+  fields: {
+    title: { type: 'string', required: true, description: 'Título do artigo.' },
+    author: { type: 'list', required: true, description: 'Lista de autores, com \\inst{n} indicando a instituição.' },
+    email: { type: 'string', required: true, description: 'E-mails dos autores, separados por vírgula.' },
+    instituicao: { type: 'string', required: true, description: 'Instituição dos autores.' },
+    address: { type: 'string', required: true, description: 'Endereço da instituição.' },
+    abstract: { type: 'string', required: true, description: 'Resumo em inglês (até 10 linhas).' },
+    resumo: { type: 'string', required: false, description: 'Resumo em português, obrigatório para artigos em português.' },
+    keywords: { type: 'string', required: true, description: 'Palavras-chave em inglês, separadas por ponto.' },
+    palavras_chave: { type: 'string', required: false, description: 'Palavras-chave em português, separadas por ponto.' },
+  },
+};
+
+/**
+ * Chaves aceitas pelo modelo ABNT (teses, dissertações e TCCs) no configuracao.yaml.
+ */
+export const ABNT_CONFIG_SCHEMA: ConfigSchema = {
+  name: 'ABNT',
+  fields: {
+    title: { type: 'string', required: true, description: 'Título do trabalho.' },
+    subtitle: { type: 'string', required: false, description: 'Subtítulo, exibido após dois-pontos.' },
+    author: { type: 'list', required: true, description: 'Autor(es) do trabalho.' },
+    orientador: { type: 'string', required: true, description: 'Nome do orientador, com titulação (ex.: "Prof. Dr. Fulano").' },
+    coorientador: { type: 'string', required: false, description: 'Nome do coorientador, quando houver.' },
+    instituicao: { type: 'string', required: true, description: 'Instituição de ensino.' },
+    programa: { type: 'string', required: false, description: 'Curso ou programa de pós-graduação.' },
+    natureza: { type: 'string', required: true, description: 'Natureza do trabalho (ex.: "Dissertação apresentada ao Programa de ... como requisito parcial para obtenção do título de Mestre").' },
+    local: { type: 'string', required: true, description: 'Cidade da instituição.' },
+    ano: { type: 'string', required: true, description: 'Ano de depósito.' },
+    resumo: { type: 'string', required: true, description: 'Resumo em português (150 a 500 palavras).' },
+    palavras_chave: { type: 'string', required: true, description: 'Palavras-chave em português, separadas por ponto.' },
+    abstract: { type: 'string', required: true, description: 'Resumo em inglês.' },
+    keywords: { type: 'string', required: true, description: 'Palavras-chave em inglês, separadas por ponto.' },
+  },
+};
+
+/**
+ * Chaves aceitas pelo modelo IEEE (conference/journal) no configuracao.yaml.
+ */
+export const IEEE_CONFIG_SCHEMA: ConfigSchema = {
+  name: 'IEEE',
+  fields: {
+    title: { type: 'string', required: true, description: 'Título do artigo.' },
+    author: { type: 'list', required: true, description: 'Lista de autores, com \\inst{n} indicando a afiliação.' },
+    instituicao: { type: 'string', required: true, description: 'Afiliação dos autores (departamento e instituição).' },
+    address: { type: 'string', required: false, description: 'Cidade e país da afiliação.' },
+    email: { type: 'string', required: true, description: 'E-mails dos autores, separados por vírgula.' },
+    abstract: { type: 'string', required: true, description: 'Abstract em inglês (até 250 palavras).' },
+    keywords: { type: 'string', required: true, description: 'Index Terms, separados por vírgula.' },
+  },
+};
+
+/**
+ * Chaves aceitas pelo modelo de relatório simples no configuracao.yaml.
+ */
+export const REPORT_CONFIG_SCHEMA: ConfigSchema = {
+  name: 'Relatório',
+  fields: {
+    title: { type: 'string', required: true, description: 'Título do relatório.' },
+    subtitle: { type: 'string', required: false, description: 'Subtítulo do relatório.' },
+    author: { type: 'list', required: true, description: 'Autores ou responsáveis.' },
+    instituicao: { type: 'string', required: false, description: 'Organização responsável.' },
+    date: { type: 'string', required: false, description: 'Data exibida na capa (ex.: "Março de 2025").' },
+    resumo: { type: 'string', required: false, description: 'Sumário executivo.' },
+  },
+};
+
+/**
+ * Sugere a chave do esquema mais parecida com a informada, quando a diferença é pequena.
+ */
+export function suggestConfigKey(schema: ConfigSchema, key: string, exclude: string[] = []): string | null {
+  return closestName(key, Object.keys(schema.fields), exclude);
+}
@@ -0,0 +1,146 @@
+import { isMap, parseDocument } from 'yaml';
+import { FILE_NAMES } from '../constants';
+import { BibEntry, parseBibtex } from './bibtex';
+import { DocumentLanguage, detectLanguage, maskCode } from './documentText';
+import type { ProjectFile } from './projectFiles';
+
+export type RuleStatus = 'pass' | 'warn' | 'fail';
+
+/** Resultado de uma regra, com a posição a destacar no editor quando fizer sentido. */
+export type RuleResult = {
+  status: RuleStatus;
+  message: string;
+  file?: string;
+  line?: number;
+};
+
+/** Tudo o que as regras podem inspecionar, lido uma única vez a partir dos arquivos do projeto. */
+export type ConformanceContext = {
+  files: ProjectFile[];
+  indexMd: string;
+  configYaml: string;
+  /** configuracao.yaml como objeto, ou null quando há erro de sintaxe. */
+  config: Record<string, unknown> | null;
+  bibEntries: BibEntry[];
+  /** Idioma predominante do Index.md. */
+  language: DocumentLanguage;
+  /** Páginas do PDF compilado a partir do conteúdo atual, ou null quando ainda não há PDF. */
+  pageCount: number | null;
+  /** Limite de páginas escolhido para a submissão, ou null quando o modelo não tem limite. */
+  pageLimit: number | null;
+};
+
+/**
+ * Regra de conformidade de um modelo. Cada modelo declara as suas em templates.ts; verificações
+ * que dependem de rede (como ler imagens) podem ser assíncronas.
+ */
+export type ConformanceRule = {
+  id: string;
+  title: string;
+  check: (context: ConformanceContext) => RuleResult | Promise<RuleResult>;
+};
+
+export type ConformanceItem = { rule: ConformanceRule; result: RuleResult };
+
+/**
+ * Monta o contexto das regras a partir dos arquivos do projeto.
+ */
+export function buildConformanceContext(files: ProjectFile[], pageCount: number | null, pageLimit: number | null): ConformanceContext {
+  const content = (name: string) => files.find((f) => f.name === name)?.content ?? '';
+  const indexMd = content(FILE_NAMES[0]);
+  const configYaml = content(FILE_NAMES[1]);
+  const doc = parseDocument(configYaml, { prettyErrors: false });
+  const config = !doc.errors.length && isMap(doc.contents) ? (doc.toJS() as Record<string, unknown>) : null;
+  return {
+    files,
+    indexMd,
+    configYaml,
+    config,
+    bibEntries: parseBibtex(content(FILE_NAMES[2])).entries,
+    language: detectLanguage(indexMd),
+    pageCount,
+    pageLimit,
+  };
+}
+
+/**
+ * Executa as regras em paralelo; uma regra que lança erro vira um aviso em vez de interromper o relatório.
+ */
+export async function runConformance(rules: ConformanceRule[], context: ConformanceContext): Promise<ConformanceItem[]> {
+  return Promise.all(rules.map(async (rule): Promise<ConformanceItem> => {
+    try {
+      return { rule, result: await rule.check(context) };
+    } catch (err) {
+      return { rule, result: { status: 'warn', message: `Não foi possível verificar: ${(err as Error).message}` } };
+    }
+  }));
+}
+
+/**
+ * Valor de uma chave do configuracao.yaml como texto (listas são unidas por vírgula), ou '' se ausente.
+ */
+export function configText(context: ConformanceContext, key: string): string {
+  const value = context.config?.[key];
+  if (value === null || value === undefined) return '';
+  return (Array.isArray(value) ? value.join(', ') : String(value)).trim();
+}
+
+/**
+ * Linha (começa em 1) da chave no configuracao.yaml, quando encontrada.
+ */
+export function configKeyLine(context: ConformanceContext, key: string): number | undefined {
+  const index = context.configYaml.split('\n').findIndex((l) => l.startsWith(`${key}:`));
+  return index < 0 ? undefined : index + 1;
+}
+
+/**
+ * Linha (começa em 1) de uma posição no texto.
+ */
+export function lineAt(text: string, offset: number): number {
+  let line = 1;
+  for (let i = text.indexOf('\n'); i >= 0 && i < offset; i = text.indexOf('\n', i + 1)) line++;
+  return line;
+}
+
+/**
+ * Chaves citadas no Markdown via \cite{...} (e variantes) ou [@chave], com a linha de cada citação.
+ */
+export function citedKeys(markdown: string): Array<{ key: string; line: number }> {
+  const text = maskCode(markdown);
+  const found: Array<{ key: string; line: number }> = [];
+  for (const m of text.matchAll(/\\(?:cite|citet|citep|citealp|citeauthor|citeyear|parencite|textcite|autocite)\*?(?:\[[^\]\n]*\]){0,2}\{([^}\n]*)\}/g)) {
+    const line = lineAt(text, m.index!);
+    for (const key of m[1].split(',')) if (key.trim()) found.push({ key: key.trim(), line });
+  }
+  for (const m of text.matchAll(/(^|[\s[;(])-?@([\p{L}\p{N}_][\p{L}\p{N}_:.#$%&+?<>~/-]*)/gu)) {
+    found.push({ key: m[2].replace(/[:.?]+$/, ''), line: lineAt(text, m.index! + m[1].length) });
+  }
+  return found;
+}
+
+/**
+ * Imagens referenciadas no Markdown por ![](...) ou \includegraphics, com a linha de cada uma.
+ */
+export function imageReferences(markdown: string): Array<{ source: string; line: number }> {
+  const text = maskCode(markdown);
+  const pattern = /!\[[^\]]*\]\(\s*<?([^)\s>]+)>?[^)]*\)|\\includegraphics(?:\[[^\]]*\])?\{([^}]+)\}/g;
+  return [...text.matchAll(pattern)].map((m) => ({ source: m[1] ?? m[2], line: lineAt(text, m.index!) }));
+}
+
+/**
+ * Estima quantas linhas um texto ocupa no PDF, dado o número médio de caracteres por linha.
+ */
+export function estimateLines(text: string, charsPerLine: number): number {
+  return text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .reduce((total, paragraph) => total + Math.ceil(paragraph.length / charsPerLine), 0);
+}
+
+/**
+ * Conta as palavras de um texto.
+ */
+export function countWords(text: string): number {
+  return (text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) ?? []).length;
+}
@@ -0,0 +1,260 @@
+import { FILE_NAMES } from '../constants';
+import {
+  citedKeys,
+  configKeyLine,
+  configText,
+  ConformanceContext,
+  ConformanceRule,
+  countWords,
+  estimateLines,
+  imageReferences,
+  lineAt,
+  RuleResult,
+} from './conformance';
+import { maskCode } from './documentText';
+import { ABNT_CONFIG_SCHEMA, ConfigSchema, IEEE_CONFIG_SCHEMA, REPORT_CONFIG_SCHEMA, SBC_CONFIG_SCHEMA } from './configSchema';
+
+/** Caracteres por linha do resumo SBC: Times 12pt em 13,4 cm (página A4 menos margens e recuos de 0,8 cm). */
+const SBC_ABSTRACT_CHARS_PER_LINE = 85;
+
+/** Lado da miniatura analisada para decidir se uma imagem é colorida. */
+const IMAGE_SAMPLE_SIZE = 64;
+
+/** Diferença mínima entre os canais RGB de um pixel para considerá-lo colorido. */
+const COLOR_THRESHOLD = 24;
+
+/**
+ * Campos obrigatórios do esquema do modelo preenchidos no configuracao.yaml.
+ */
+export function requiredFieldsRule(schema: ConfigSchema): ConformanceRule {
+  return {
+    id: 'required-fields',
+    title: 'Campos obrigatórios do configuracao.yaml',
+    check: (context) => {
+      if (!context.config) return { status: 'fail', message: 'O configuracao.yaml tem erro de sintaxe.', file: FILE_NAMES[1] };
+      const missing = Object.entries(schema.fields).filter(([key, field]) => field.required && !configText(context, key)).map(([key]) => key);
+      return missing.length
+        ? { status: 'fail', message: `Campos obrigatórios vazios ou ausentes: ${missing.join(', ')}.`, file: FILE_NAMES[1] }
+        : { status: 'pass', message: 'Todos os campos obrigatórios estão preenchidos.' };
+    },
+  };
+}
+
+/**
+ * Toda citação do Index.md tem entrada no referencias.bib.
+ */
+export const citationsRule: ConformanceRule = {
+  id: 'citations',
+  title: 'Citações com entrada no referencias.bib',
+  check: (context) => {
+    const known = new Set(context.bibEntries.map((e) => e.key));
+    const cited = citedKeys(context.indexMd);
+    const missing = cited.filter((c) => !known.has(c.key));
+    if (missing.length) {
+      const keys = [...new Set(missing.map((c) => c.key))];
+      return { status: 'fail', message: `Chaves citadas sem entrada: ${keys.join(', ')}.`, file: FILE_NAMES[0], line: missing[0].line };
+    }
+    const uncited = context.bibEntries.filter((e) => !cited.some((c) => c.key === e.key)).length;
+    return {
+      status: 'pass',
+      message: `${cited.length} citação(ões) encontradas no referencias.bib${uncited ? `; ${uncited} entrada(s) não citada(s) ficarão fora das referências` : ''}.`,
+    };
+  },
+};
+
+/**
+ * Número de páginas do PDF compilado dentro do limite escolhido.
+ */
+export const pageLimitRule: ConformanceRule = {
+  id: 'page-limit',
+  title: 'Limite de páginas',
+  check: ({ pageCount, pageLimit }) => {
+    if (pageLimit === null) return { status: 'pass', message: 'Sem limite de páginas definido.' };
+    if (pageCount === null) return { status: 'warn', message: 'Compile o PDF do conteúdo atual para verificar o número de páginas.' };
+    return pageCount > pageLimit
+      ? { status: 'fail', message: `O PDF tem ${pageCount} páginas; o limite é ${pageLimit}.` }
+      : { status: 'pass', message: `O PDF tem ${pageCount} de ${pageLimit} páginas permitidas.` };
+  },
+};
+
+/**
+ * Legenda (\caption) antes do conteúdo nos ambientes table em LaTeX; tabelas em Markdown recebem a
+ * legenda acima na conversão do Pandoc.
+ */
+export const tableCaptionRule: ConformanceRule = {
+  id: 'table-caption',
+  title: 'Legendas de tabelas antes da tabela',
+  check: (context) => {
+    const text = maskCode(context.indexMd);
+    const tables = [...text.matchAll(/\\begin\{table\*?\}([\s\S]*?)\\end\{table\*?\}/g)];
+    for (const table of tables) {
+      const body = table[1];
+      const caption = body.search(/\\caption\b/);
+      const content = body.search(/\\begin\{(?:tabular\*?|tabularx|longtable)\}|\\includegraphics/);
+      const line = lineAt(text, table.index!);
+      if (caption < 0) return { status: 'warn', message: `Tabela sem \\caption na linha ${line}.`, file: FILE_NAMES[0], line };
+      if (content >= 0 && caption > content) {
+        return { status: 'fail', message: `A legenda da tabela na linha ${line} vem depois do conteúdo.`, file: FILE_NAMES[0], line };
+      }
+    }
+    return { status: 'pass', message: tables.length ? `${tables.length} tabela(s) com a legenda antes do conteúdo.` : 'Nenhuma tabela em LaTeX no texto.' };
+  },
+};
+
+/**
+ * Carrega a imagem e indica se ela tem pixels coloridos (null quando não é possível lê-la, p. ex. por CORS).
+ */
+function isColorImage(source: string): Promise<boolean | null> {
+  return new Promise((resolve) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onerror = () => resolve(null);
+    image.onload = () => {
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = IMAGE_SAMPLE_SIZE;
+        canvas.height = IMAGE_SAMPLE_SIZE;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return resolve(null);
+        ctx.drawImage(image, 0, 0, IMAGE_SAMPLE_SIZE, IMAGE_SAMPLE_SIZE);
+        const { data } = ctx.getImageData(0, 0, IMAGE_SAMPLE_SIZE, IMAGE_SAMPLE_SIZE);
+        let colored = 0;
+        for (let i = 0; i < data.length; i += 4) {
+          if (Math.max(data[i], data[i + 1], data[i + 2]) - Math.min(data[i], data[i + 1], data[i + 2]) > COLOR_THRESHOLD) colored++;
+        }
+        resolve(colored > (IMAGE_SAMPLE_SIZE * IMAGE_SAMPLE_SIZE) / 100);
+      } catch {
+        resolve(null);
+      }
+    };
+    image.src = source;
+  });
+}
+
+/**
+ * Imagens em preto e branco ou tons de cinza, exigidas para a versão impressa.
+ */
+export const grayscaleImagesRule: ConformanceRule = {
+  id: 'grayscale-images',
+  title: 'Imagens em tons de cinza',
+  check: async (context): Promise<RuleResult> => {
+    const images = imageReferences(context.indexMd);
+    if (!images.length) return { status: 'pass', message: 'Nenhuma imagem no texto.' };
+    const results = await Promise.all(images.map(async (image) => ({
+      ...image,
+      color: /^(?:https?:|data:image\/)/.test(image.source) ? await isColorImage(image.source) : null,
+    })));
+    const colored = results.filter((r) => r.color === true);
+    if (colored.length) {
+      return { status: 'fail', message: `${colored.length} imagem(ns) colorida(s), a primeira na linha ${colored[0].line}.`, file: FILE_NAMES[0], line: colored[0].line };
+    }
+    const unknown = results.filter((r) => r.color === null);
+    if (unknown.length) {
+      return {
+        status: 'warn',
+        message: `Não foi possível analisar ${unknown.length} imagem(ns) (arquivo local ou bloqueado pelo servidor); confira manualmente.`,
+        file: FILE_NAMES[0],
+        line: unknown[0].line,
+      };
+    }
+    return { status: 'pass', message: `${results.length} imagem(ns) em tons de cinza.` };
+  },
+};
+
+/**
+ * Limite de linhas estimadas para um campo de resumo do configuracao.yaml.
+ */
+function abstractLinesResult(context: ConformanceContext, key: string, maxLines: number): RuleResult | null {
+  const text = configText(context, key);
+  if (!text) return null;
+  const lines = estimateLines(text, SBC_ABSTRACT_CHARS_PER_LINE);
+  if (lines > maxLines) {
+    return { status: 'fail', message: `O ${key} ocupa cerca de ${lines} linhas; o máximo é ${maxLines}.`, file: FILE_NAMES[1], line: configKeyLine(context, key) };
+  }
+  if (lines === maxLines) {
+    return { status: 'warn', message: `O ${key} ocupa cerca de ${lines} linhas, no limite de ${maxLines}.`, file: FILE_NAMES[1], line: configKeyLine(context, key) };
+  }
+  return null;
+}
+
+/**
+ * Campo de resumo da SBC (abstract ou resumo) com no máximo 10 linhas; cada campo é uma regra própria,
+ * para que o excesso em um não esconda o do outro.
+ */
+export function sbcAbstractLengthRule(key: 'abstract' | 'resumo'): ConformanceRule {
+  return {
+    id: `sbc-${key}-length`,
+    title: `${key[0].toUpperCase()}${key.slice(1)} com até 10 linhas`,
+    check: (context) => (
+      abstractLinesResult(context, key, 10)
+      ?? { status: 'pass', message: configText(context, key) ? `O ${key} cabe em 10 linhas (estimativa).` : `Sem ${key} para medir.` }
+    ),
+  };
+}
+
+/**
+ * Resumo em português obrigatório para artigos em português e dispensado para artigos em inglês.
+ */
+export const sbcResumoRule: ConformanceRule = {
+  id: 'sbc-resumo',
+  title: 'Resumo em português para artigos em português',
+  check: (context) => {
+    const hasResumo = !!configText(context, 'resumo');
+    if (context.language === 'pt') {
+      return hasResumo
+        ? { status: 'pass', message: 'Artigo em português com resumo.' }
+        : { status: 'fail', message: 'O artigo está em português e o campo resumo é obrigatório.', file: FILE_NAMES[1] };
+    }
+    return hasResumo
+      ? { status: 'warn', message: 'O artigo está em inglês; a SBC pede apenas o abstract.', file: FILE_NAMES[1], line: configKeyLine(context, 'resumo') }
+      : { status: 'pass', message: 'Artigo em inglês, apenas com abstract.' };
+  },
+};
+
+/**
+ * Número de palavras de um campo do configuracao.yaml dentro de um intervalo.
+ */
+export function wordCountRule(key: string, min: number, max: number): ConformanceRule {
+  return {
+    id: `${key}-words`,
+    title: `${key[0].toUpperCase()}${key.slice(1)} com ${min > 0 ? `${min} a ` : 'até '}${max} palavras`,
+    check: (context) => {
+      const words = countWords(configText(context, key));
+      const location = { file: FILE_NAMES[1], line: configKeyLine(context, key) };
+      if (words === 0) return { status: 'fail', message: `O campo ${key} está vazio.`, ...location };
+      if (words > max) return { status: 'fail', message: `O ${key} tem ${words} palavras; o máximo é ${max}.`, ...location };
+      if (words < min) return { status: 'warn', message: `O ${key} tem ${words} palavras; o mínimo é ${min}.`, ...location };
+      return { status: 'pass', message: `O ${key} tem ${words} palavras.` };
+    },
+  };
+}
+
+export const SBC_RULES: ConformanceRule[] = [
+  requiredFieldsRule(SBC_CONFIG_SCHEMA),
+  sbcAbstractLengthRule('abstract'),
+  sbcAbstractLengthRule('resumo'),
+  sbcResumoRule,
+  pageLimitRule,
+  grayscaleImagesRule,
+  tableCaptionRule,
+  citationsRule,
+];
+
+export const ABNT_RULES: ConformanceRule[] = [
+  requiredFieldsRule(ABNT_CONFIG_SCHEMA),
+  wordCountRule('resumo', 150, 500),
+  tableCaptionRule,
+  citationsRule,
+];
+
+export const IEEE_RULES: ConformanceRule[] = [
+  requiredFieldsRule(IEEE_CONFIG_SCHEMA),
+  wordCountRule('abstract', 0, 250),
+  pageLimitRule,
+  citationsRule,
+];
+
+export const REPORT_RULES: ConformanceRule[] = [
+  requiredFieldsRule(REPORT_CONFIG_SCHEMA),
+  citationsRule,
+];
@@ -0,0 +1,103 @@
+import { GFM, parser } from '@lezer/markdown';
+
+const markdownParser = parser.configure(GFM);
+
+/** Atributos Pandoc no fim do título, como {#id .classe} ou {-}. */
+const ATTRIBUTES_PATTERN = /\s*\{([^{}]*)\}\s*$/;
+
+/** Seção do documento, delimitada pelo título e pelo próximo título de nível igual ou superior. */
+export type OutlineHeading = {
+  level: number;
+  /** Texto do título, sem marcadores e sem atributos Pandoc. */
+  text: string;
+  /** Linha do título (começa em 1). */
+  line: number;
+  /** Início da linha do título. */
+  from: number;
+  /** Fim da seção (início do próximo título de nível igual ou superior, ou fim do texto). */
+  to: number;
+  /** Numeração gerada pelo Pandoc com --number-sections, ou null para seções não numeradas. */
+  number: string | null;
+};
+
+/**
+ * Separa o texto do título e indica se os atributos Pandoc o marcam como não numerado.
+ */
+function parseHeadingText(raw: string): { text: string; unnumbered: boolean } {
+  const attributes = raw.match(ATTRIBUTES_PATTERN);
+  const text = (attributes ? raw.slice(0, attributes.index) : raw).trim();
+  const unnumbered = !!attributes && attributes[1].split(/\s+/).some((a) => a === '-' || a === '.unnumbered');
+  return { text, unnumbered };
+}
+
+/**
+ * Lê os títulos do Markdown a partir da árvore sintática (ignorando blocos de código) e calcula
+ * a extensão de cada seção e a numeração que o Pandoc produzirá.
+ */
+export function buildOutline(content: string): OutlineHeading[] {
+  const found: Array<{ level: number; from: number; textFrom: number; textTo: number }> = [];
+  markdownParser.parse(content).iterate({
+    enter: (node) => {
+      const match = /^(?:ATX|Setext)Heading(\d)$/.exec(node.name);
+      // Só títulos no nível do documento viram seções (não os de citações ou listas).
+      if (!match) return node.name === 'Document';
+      const marks: Array<{ from: number; to: number }> = [];
+      const child = node.node.firstChild;
+      for (let c = child; c; c = c.nextSibling) if (c.name === 'HeaderMark') marks.push({ from: c.from, to: c.to });
+      const isAtx = node.name.startsWith('ATX');
+      const textFrom = isAtx && marks[0]?.from === node.from ? marks[0].to : node.from;
+      const closing = isAtx ? marks.find((m) => m.from > textFrom) : marks[marks.length - 1];
+      found.push({ level: Number(match[1]), from: node.from, textFrom, textTo: closing ? closing.from : node.to });
+      return false;
+    },
+  });
+
+  const counters = [0, 0, 0, 0, 0, 0];
+  return found.map((heading, i): OutlineHeading => {
+    const { text, unnumbered } = parseHeadingText(content.slice(heading.textFrom, heading.textTo).replace(/\n/g, ' '));
+    let number: string | null = null;
+    if (!unnumbered) {
+      counters[heading.level - 1]++;
+      counters.fill(0, heading.level);
+      number = counters.slice(0, heading.level).join('.');
+    }
+    const from = content.lastIndexOf('\n', heading.from - 1) + 1;
+    const next = found.slice(i + 1).find((h) => h.level <= heading.level);
+    return {
+      level: heading.level,
+      text,
+      line: content.slice(0, from).split('\n').length,
+      from,
+      to: next ? content.lastIndexOf('\n', next.from - 1) + 1 : content.length,
+      number,
+    };
+  });
+}
+
+/**
+ * Índice da seção que contém a linha informada (o último título até ela), ou -1 antes do primeiro título.
+ */
+export function headingAtLine(outline: OutlineHeading[], line: number): number {
+  let index = -1;
+  outline.forEach((heading, i) => { if (heading.line <= line) index = i; });
+  return index;
+}
+
+/**
+ * Move a seção "index" (com as subseções) para antes da seção "before", ou para o fim do texto quando
+ * "before" é igual ao número de seções. Retorna null quando o destino fica dentro da própria seção.
+ */
+export function moveSection(content: string, outline: OutlineHeading[], index: number, before: number): string | null {
+  const section = outline[index];
+  if (!section) return null;
+  const target = before >= outline.length ? content.length : outline[before].from;
+  if (target >= section.from && target <= section.to) return null;
+
+  let text = content.slice(section.from, section.to);
+  if (!text.endsWith('\n')) text += '\n';
+  const rest = content.slice(0, section.from) + content.slice(section.to);
+  const at = target > section.from ? target - (section.to - section.from) : target;
+  const head = rest.slice(0, at);
+  const separator = head && !head.endsWith('\n') ? '\n' : '';
+  return head + separator + text + rest.slice(at);
+}
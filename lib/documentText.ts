@@ -0,0 +1,23 @@
+export type DocumentLanguage = 'pt' | 'en';
+
+/** Palavras frequentes usadas para decidir o idioma do texto. */
+const LANGUAGE_HINTS: Record<DocumentLanguage, string[]> = {
+  pt: ['de', 'que', 'não', 'para', 'uma', 'com', 'os', 'as', 'das', 'dos', 'em', 'ao', 'são', 'também'],
+  en: ['the', 'and', 'of', 'to', 'is', 'with', 'for', 'that', 'are', 'this', 'on', 'be', 'by', 'we'],
+};
+
+/**
+ * Decide se o texto está em português ou inglês pela frequência de palavras comuns.
+ */
+export function detectLanguage(text: string): DocumentLanguage {
+  const words = text.toLowerCase().match(/[\p{L}]+/gu) ?? [];
+  const score = (language: DocumentLanguage) => words.filter((w) => LANGUAGE_HINTS[language].includes(w)).length;
+  return score('en') > score('pt') ? 'en' : 'pt';
+}
+
+/**
+ * Apaga blocos e trechos de código, preservando as posições, para que não sejam analisados como texto.
+ */
+export function maskCode(markdown: string): string {
+  return markdown.replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$|`[^`\n]*`/gm, (code) => code.replace(/[^\n]/g, ' '));
+}
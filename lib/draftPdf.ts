@@ -0,0 +1,97 @@
+/** Margens do modelo SBC em milímetros (superior, inferior e laterais). */
+export const DRAFT_MARGINS_MM = { top: 35, bottom: 25, left: 30, right: 30 };
+
+const A4_MM = { width: 210, height: 297 };
+const CAPTURE_SCALE = 2;
+const DRAFT_LABEL = 'RASCUNHO — renderização local do preview HTML, sem LaTeX';
+
+/**
+ * Aguarda fontes e imagens do contêiner para que a captura não saia com elementos faltando.
+ */
+async function waitForAssets(container: HTMLElement): Promise<void> {
+  await document.fonts?.ready;
+  const images = Array.from(container.querySelectorAll('img')).filter((img) => !img.complete);
+  await Promise.all(images.map((img) => new Promise<void>((resolve) => {
+    img.addEventListener('load', () => resolve(), { once: true });
+    img.addEventListener('error', () => resolve(), { once: true });
+  })));
+}
+
+/**
+ * Posições (em px CSS, a partir do topo do contêiner) onde a página pode ser cortada sem partir
+ * um bloco ao meio: o fim de cada bloco de nível superior e de cada item de lista ou linha de tabela.
+ */
+function breakPoints(container: HTMLElement): number[] {
+  const top = container.getBoundingClientRect().top;
+  const points = new Set<number>();
+  container.querySelectorAll(':scope > *, li, tr, .katex-display').forEach((el) => {
+    points.add(Math.round(el.getBoundingClientRect().bottom - top));
+  });
+  return [...points].sort((a, b) => a - b);
+}
+
+/**
+ * Escolhe os cortes de página: o último ponto de quebra que cabe na página ou, se nenhum couber
+ * (bloco maior que a página), o próprio limite da página.
+ */
+function pageSlices(totalHeight: number, pageHeight: number, points: number[]): Array<[number, number]> {
+  const slices: Array<[number, number]> = [];
+  let start = 0;
+  while (start < totalHeight - 1) {
+    const limit = start + pageHeight;
+    if (limit >= totalHeight) {
+      slices.push([start, totalHeight]);
+      break;
+    }
+    const candidates = points.filter((p) => p > start + pageHeight / 3 && p <= limit);
+    const end = candidates.length ? candidates[candidates.length - 1] : limit;
+    slices.push([start, end]);
+    start = end;
+  }
+  return slices;
+}
+
+/**
+ * Gera no navegador um PDF A4 de rascunho a partir do HTML do preview (folha de rosto, corpo e
+ * referências), com as margens do modelo e a marcação de rascunho em todas as páginas.
+ */
+export async function renderDraftPdf(html: string): Promise<Blob> {
+  const [{ jsPDF }, { default: html2canvas }] = await Promise.all([import('jspdf'), import('html2canvas')]);
+  const contentWidthMm = A4_MM.width - DRAFT_MARGINS_MM.left - DRAFT_MARGINS_MM.right;
+  const contentHeightMm = A4_MM.height - DRAFT_MARGINS_MM.top - DRAFT_MARGINS_MM.bottom;
+
+  const container = document.createElement('div');
+  container.className = 'prose max-w-none';
+  container.style.cssText = `position: fixed; left: -10000px; top: 0; width: ${contentWidthMm}mm; background: #ffffff; color: #1f2937;`;
+  container.innerHTML = html;
+  document.body.appendChild(container);
+
+  try {
+    await waitForAssets(container);
+    const cssWidth = container.offsetWidth;
+    const cssHeight = container.scrollHeight;
+    const pxPerMm = cssWidth / contentWidthMm;
+    const slices = pageSlices(cssHeight, contentHeightMm * pxPerMm, breakPoints(container));
+
+    const pdf = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait' });
+    for (const [index, [start, end]] of slices.entries()) {
+      if (index > 0) pdf.addPage();
+      // Uma captura por página: um canvas do documento inteiro passaria do limite de altura dos navegadores (~32 mil px).
+      const page = await html2canvas(container, {
+        scale: CAPTURE_SCALE, backgroundColor: '#ffffff', useCORS: true, logging: false,
+        y: start, width: cssWidth, height: Math.max(1, Math.ceil(end - start)),
+      });
+      pdf.addImage(page, 'JPEG', DRAFT_MARGINS_MM.left, DRAFT_MARGINS_MM.top, contentWidthMm, (end - start) / pxPerMm, undefined, 'FAST');
+
+      pdf.setFontSize(8);
+      pdf.setTextColor(180, 83, 9);
+      pdf.text(DRAFT_LABEL, A4_MM.width / 2, DRAFT_MARGINS_MM.top / 2, { align: 'center' });
+      pdf.setTextColor(120, 120, 120);
+      pdf.text(`${index + 1} / ${slices.length}`, A4_MM.width / 2, A4_MM.height - DRAFT_MARGINS_MM.bottom / 2, { align: 'center' });
+    }
+    pdf.setProperties({ title: 'Rascunho', subject: DRAFT_LABEL });
+    return pdf.output('blob');
+  } finally {
+    container.remove();
+  }
+}
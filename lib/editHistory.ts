@@ -0,0 +1,214 @@
+import { ChangeSet, Text } from '@codemirror/state';
+
+/** Número padrão de passos de desfazer mantidos por arquivo. */
+export const DEFAULT_HISTORY_DEPTH = 200;
+
+/** Profundidades oferecidas ao usuário. */
+export const HISTORY_DEPTHS = [50, 100, 200, 500, 1000];
+
+/** Intervalo máximo entre digitações para que sejam agrupadas em um único passo. */
+const GROUP_DELAY_MS = 750;
+
+/**
+ * Um passo do histórico. Em "past", "changes" leva o texto atual ao anterior; em "future",
+ * leva o texto atual ao seguinte. Guardar só o diff mantém o custo proporcional à edição.
+ */
+export type HistoryEntry = {
+  changes: ChangeSet;
+  time: number;
+  /** Passo originado de digitação, que pode absorver a digitação seguinte. */
+  typing: boolean;
+  /** Operação que alterou vários arquivos de uma vez; seus passos são desfeitos e refeitos juntos. */
+  group?: number;
+};
+
+export type HistoryState = { past: HistoryEntry[]; present: string; future: HistoryEntry[] };
+
+export type RecordOptions = {
+  /** Alterações do CodeMirror que produziram o novo texto; sem elas, o diff é calculado. */
+  changes?: ChangeSet;
+  typing?: boolean;
+  depth?: number;
+  time?: number;
+  /** Identificador obtido de newEditGroup, compartilhado pelos arquivos da mesma operação. */
+  group?: number;
+};
+
+let lastGroup = 0;
+
+/**
+ * Novo identificador de operação em vários arquivos, crescente mesmo entre sessões.
+ */
+export function newEditGroup(): number {
+  lastGroup = Math.max(Date.now(), lastGroup + 1);
+  return lastGroup;
+}
+
+/**
+ * Histórico vazio para um arquivo com o conteúdo informado.
+ */
+export function createHistory(content: string): HistoryState {
+  return { past: [], present: content, future: [] };
+}
+
+/**
+ * Converte uma string em um Text do CodeMirror.
+ */
+function toText(content: string): Text {
+  return Text.of(content.split('\n'));
+}
+
+/**
+ * Diff mínimo entre dois textos como um único trecho substituído (prefixo e sufixo comuns preservados).
+ */
+export function diffChanges(before: string, after: string): ChangeSet {
+  let start = 0;
+  const max = Math.min(before.length, after.length);
+  while (start < max && before.charCodeAt(start) === after.charCodeAt(start)) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before.charCodeAt(endBefore - 1) === after.charCodeAt(endAfter - 1)) {
+    endBefore--;
+    endAfter--;
+  }
+  return ChangeSet.of({ from: start, to: endBefore, insert: after.slice(start, endAfter) }, before.length);
+}
+
+/**
+ * Indica se a nova alteração toca o trecho alterado pelo último passo (digitação contínua no mesmo lugar).
+ */
+function isAdjacent(lastUndo: ChangeSet, change: ChangeSet): boolean {
+  const touched: Array<[number, number]> = [];
+  lastUndo.iterChangedRanges((fromA, toA) => touched.push([fromA, toA]));
+  let adjacent = false;
+  change.iterChangedRanges((fromA, toA) => {
+    if (touched.some(([from, to]) => fromA <= to && toA >= from)) adjacent = true;
+  });
+  return adjacent;
+}
+
+/**
+ * Registra uma alteração no histórico, descartando o "refazer". Digitações seguidas e adjacentes
+ * dentro do intervalo de agrupamento viram um único passo; o histórico é limitado a "depth" passos.
+ */
+export function recordEdit(history: HistoryState, next: string, options: RecordOptions = {}): HistoryState {
+  if (history.present === next) return history;
+  const { typing = false, depth = DEFAULT_HISTORY_DEPTH, time = Date.now(), group } = options;
+  const changes = options.changes && options.changes.length === history.present.length
+    ? options.changes
+    : diffChanges(history.present, next);
+  const undo = changes.invert(toText(history.present));
+
+  const last = history.past[history.past.length - 1];
+  if (typing && group === undefined && last?.typing && time - last.time <= GROUP_DELAY_MS && isAdjacent(last.changes, changes)) {
+    const merged: HistoryEntry = { changes: undo.compose(last.changes), time, typing: true };
+    return { past: [...history.past.slice(0, -1), merged], present: next, future: [] };
+  }
+  const past = [...history.past, { changes: undo, time, typing, group }];
+  return { past: past.slice(Math.max(0, past.length - depth)), present: next, future: [] };
+}
+
+/**
+ * Aplica um passo ao texto atual e devolve o novo texto e o passo inverso, ou null quando o passo
+ * não corresponde ao texto (histórico inconsistente).
+ */
+function applyEntry(present: string, entry: HistoryEntry): { content: string; inverse: HistoryEntry } | null {
+  if (entry.changes.length !== present.length) return null;
+  const doc = toText(present);
+  return {
+    content: entry.changes.apply(doc).toString(),
+    inverse: { changes: entry.changes.invert(doc), time: entry.time, typing: false, group: entry.group },
+  };
+}
+
+/**
+ * Desfaz o último passo; um histórico inconsistente é descartado em vez de corromper o texto.
+ */
+export function undoEdit(history: HistoryState): HistoryState {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return history;
+  const result = applyEntry(history.present, entry);
+  if (!result) return createHistory(history.present);
+  return { past: history.past.slice(0, -1), present: result.content, future: [result.inverse, ...history.future] };
+}
+
+/**
+ * Refaz o próximo passo desfeito.
+ */
+export function redoEdit(history: HistoryState): HistoryState {
+  const entry = history.future[0];
+  if (!entry) return history;
+  const result = applyEntry(history.present, entry);
+  if (!result) return createHistory(history.present);
+  return { past: [...history.past, result.inverse], present: result.content, future: history.future.slice(1) };
+}
+
+/**
+ * Desfaz o último passo do arquivo no histórico do projeto. Se o passo pertence a uma operação em
+ * vários arquivos, desfaz também os arquivos cujo último passo é da mesma operação.
+ */
+export function undoProjectEdit(histories: Record<string, HistoryState>, fileName: string): Record<string, HistoryState> {
+  const h = histories[fileName];
+  if (!h) return histories;
+  const group = h.past[h.past.length - 1]?.group;
+  if (group === undefined) return { ...histories, [fileName]: undoEdit(h) };
+  return Object.fromEntries(Object.entries(histories).map(([name, other]) => (
+    [name, other.past[other.past.length - 1]?.group === group ? undoEdit(other) : other]
+  )));
+}
+
+/**
+ * Refaz o próximo passo do arquivo, junto com os demais arquivos da mesma operação.
+ */
+export function redoProjectEdit(histories: Record<string, HistoryState>, fileName: string): Record<string, HistoryState> {
+  const h = histories[fileName];
+  if (!h) return histories;
+  const group = h.future[0]?.group;
+  if (group === undefined) return { ...histories, [fileName]: redoEdit(h) };
+  return Object.fromEntries(Object.entries(histories).map(([name, other]) => (
+    [name, other.future[0]?.group === group ? redoEdit(other) : other]
+  )));
+}
+
+/** Passo do histórico em formato serializável (JSON do ChangeSet). */
+type StoredEntry = { changes: unknown; time: number; group?: number };
+
+/** Histórico em formato serializável para o IndexedDB. */
+export type StoredHistory = { past: StoredEntry[]; present: string; future: StoredEntry[] };
+
+/**
+ * Converte o histórico para o formato gravado no IndexedDB.
+ */
+export function serializeHistory(history: HistoryState): StoredHistory {
+  const toStored = (entry: HistoryEntry): StoredEntry => ({ changes: entry.changes.toJSON(), time: entry.time, group: entry.group });
+  return { past: history.past.map(toStored), present: history.present, future: history.future.map(toStored) };
+}
+
+/**
+ * Reconstrói o histórico gravado, ou null quando o registro está corrompido.
+ */
+export function deserializeHistory(value: unknown): HistoryState | null {
+  const stored = value as StoredHistory;
+  if (!stored || typeof stored.present !== 'string' || !Array.isArray(stored.past) || !Array.isArray(stored.future)) return null;
+  try {
+    const fromStored = (entry: StoredEntry): HistoryEntry => ({ changes: ChangeSet.fromJSON(entry.changes), time: entry.time, typing: false, group: entry.group });
+    return { past: stored.past.map(fromStored), present: stored.present, future: stored.future.map(fromStored) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Converte o histórico antigo (cópias completas do texto) em passos de diff.
+ */
+export function historyFromSnapshots(past: string[], present: string, future: string[], depth = DEFAULT_HISTORY_DEPTH): HistoryState {
+  const time = Date.now();
+  const chain = [...past, present, ...future];
+  const at = past.length;
+  const entries = chain.slice(0, -1).map((_, i) => i);
+  return {
+    past: entries.filter((i) => i < at).slice(-depth).map((i) => ({ changes: diffChanges(chain[i + 1], chain[i]), time, typing: false })),
+    present,
+    future: entries.filter((i) => i >= at).map((i) => ({ changes: diffChanges(chain[i], chain[i + 1]), time, typing: false })),
+  };
+}
@@ -0,0 +1,175 @@
+import { maskCode } from './documentText';
+import { formatLatexTabular, formatPipeTable, parseLatexTabular, parsePipeTable, TableData } from './markdownTable';
+
+/** Forma do bloco gerado: ambiente LaTeX (table/figure) ou sintaxe do Pandoc. */
+export type BlockFormat = 'latex' | 'markdown';
+
+export type TableBlockOptions = {
+  format: BlockFormat;
+  caption: string;
+  label: string;
+};
+
+export type FigureKind = 'figure' | 'table';
+
+export type FigureBlockOptions = {
+  /** "table" gera uma tabela feita de imagem, como no modelo SBC (legenda antes do conteúdo). */
+  kind: FigureKind;
+  source: string;
+  caption: string;
+  label: string;
+  /** Largura em porcentagem da largura do texto. */
+  width: number;
+  format: BlockFormat;
+};
+
+/** Tabela encontrada no texto, com o trecho que ela ocupa (incluindo a legenda) e as opções lidas dele. */
+export type TableAtCursor = {
+  from: number;
+  to: number;
+  table: TableData;
+  options: TableBlockOptions;
+};
+
+/** Prefixos de rótulo usados quando o autor não informa um: \ref{fig:...}, \ref{tab:...} e @tbl:... do pandoc-crossref. */
+const LABEL_PREFIXES = { figure: 'fig:', table: 'tab:', pipeTable: 'tbl:' };
+
+/** Legenda de pipe table do Pandoc: parágrafo iniciado por "Table:" ou ":". */
+const PIPE_CAPTION = /^(?:[Tt]able:|:)\s+(.*?)\s*(?:\{#([^}\s]+)[^}]*\})?\s*$/;
+
+/**
+ * Normaliza o rótulo (sem espaços) e acrescenta o prefixo quando ele não tem um.
+ */
+export function floatLabel(label: string, prefix: string): string {
+  const clean = label.trim().replace(/\s+/g, '-');
+  return !clean || clean.includes(':') ? clean : `${prefix}${clean}`;
+}
+
+/**
+ * Largura relativa ao texto no formato do \includegraphics (ex.: 70 → ".7\textwidth").
+ */
+function latexWidth(percent: number): string {
+  if (percent >= 100) return '\\textwidth';
+  return `${String(Math.round(percent) / 100).replace(/^0/, '')}\\textwidth`;
+}
+
+/**
+ * Gera a tabela como pipe table (com a legenda do Pandoc) ou como ambiente table do LaTeX com a legenda antes do conteúdo.
+ */
+export function tableBlock(table: TableData, options: TableBlockOptions): string {
+  const caption = options.caption.trim();
+  if (options.format === 'markdown') {
+    const label = floatLabel(options.label, LABEL_PREFIXES.pipeTable);
+    const captionLine = caption || label ? `\n\n: ${caption}${label ? ` {#${label}}` : ''}` : '';
+    return formatPipeTable(table) + captionLine;
+  }
+  const label = floatLabel(options.label, LABEL_PREFIXES.table);
+  return [
+    '\\begin{table}[ht]',
+    '\\centering',
+    ...(caption ? [`\\caption{${caption}}`] : []),
+    ...(label ? [`\\label{${label}}`] : []),
+    formatLatexTabular(table),
+    '\\end{table}',
+  ].join('\n');
+}
+
+/**
+ * Gera a figura (ou tabela em imagem) como ambiente LaTeX com \includegraphics ou como imagem do Pandoc com atributos.
+ */
+export function figureBlock(options: FigureBlockOptions): string {
+  const caption = options.caption.trim();
+  const source = options.source.trim() || 'imagens/figura.png';
+  const label = floatLabel(options.label, LABEL_PREFIXES[options.kind]);
+  if (options.format === 'markdown' && options.kind === 'figure') {
+    const attributes = [label && `#${label}`, options.width < 100 && `width=${Math.round(options.width)}%`].filter(Boolean);
+    return `![${caption}](${source})${attributes.length ? `{${attributes.join(' ')}}` : ''}`;
+  }
+  const graphics = `\\includegraphics[width=${latexWidth(options.width)}]{${source}}`;
+  const captionLines = [...(caption ? [`\\caption{${caption}}`] : []), ...(label ? [`\\label{${label}}`] : [])];
+  return [
+    `\\begin{${options.kind}}[ht]`,
+    '\\centering',
+    ...(options.kind === 'table' ? [...captionLines, graphics] : [graphics, ...captionLines]),
+    `\\end{${options.kind}}`,
+  ].join('\n');
+}
+
+/**
+ * Tabelas LaTeX (ambiente table com tabular) do texto.
+ */
+function latexTables(text: string): TableAtCursor[] {
+  const found: TableAtCursor[] = [];
+  for (const m of text.matchAll(/\\begin\{table\*?\}[\s\S]*?\\end\{table\*?\}/g)) {
+    const tabular = /\\begin\{tabular\}\{((?:[^{}]|\{[^{}]*\})*)\}([\s\S]*?)\\end\{tabular\}/.exec(m[0]);
+    if (!tabular) continue;
+    const caption = /\\caption\{((?:[^{}]|\{[^{}]*\})*)\}/.exec(m[0]);
+    const label = /\\label\{([^}]*)\}/.exec(m[0]);
+    found.push({
+      from: m.index!,
+      to: m.index! + m[0].length,
+      table: parseLatexTabular(tabular[1], tabular[2]),
+      options: { format: 'latex', caption: caption?.[1].trim() ?? '', label: label?.[1] ?? '' },
+    });
+  }
+  return found;
+}
+
+/**
+ * Pipe tables do texto, com a legenda do Pandoc logo antes ou logo depois (separada por uma linha em branco).
+ */
+function pipeTables(text: string): TableAtCursor[] {
+  const lines = text.split('\n');
+  const starts: number[] = [];
+  lines.reduce((offset, line) => { starts.push(offset); return offset + line.length + 1; }, 0);
+  const end = (i: number) => starts[i] + lines[i].length;
+  const captionAt = (i: number) => (lines[i] === undefined ? null : PIPE_CAPTION.exec(lines[i]));
+
+  const found: TableAtCursor[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].includes('|') || (i > 0 && lines[i - 1].trim() && lines[i - 1].includes('|'))) continue;
+    let last = i;
+    while (last + 1 < lines.length && lines[last + 1].trim() && lines[last + 1].includes('|')) last++;
+    const table = parsePipeTable(lines.slice(i, last + 1));
+    if (!table) continue;
+
+    let from = starts[i];
+    let to = end(last);
+    let caption = '';
+    let label = '';
+    const after = !lines[last + 1]?.trim() ? captionAt(last + 2) : null;
+    const before = !after && i >= 2 && !lines[i - 1].trim() ? captionAt(i - 2) : null;
+    if (after) {
+      [, caption, label = ''] = after;
+      to = end(last + 2);
+    } else if (before) {
+      [, caption, label = ''] = before;
+      from = starts[i - 2];
+    }
+    found.push({ from, to, table, options: { format: 'markdown', caption, label } });
+    i = last;
+  }
+  return found;
+}
+
+/**
+ * Tabela (pipe table ou ambiente table do LaTeX) que contém a posição do cursor, para reabri-la no editor de
+ * tabelas; tabelas dentro de blocos de código são ignoradas.
+ */
+export function findTableAt(content: string, offset: number): TableAtCursor | null {
+  const masked = maskCode(content);
+  return [...latexTables(content), ...pipeTables(content)]
+    .find((t) => offset >= t.from && offset <= t.to && masked.slice(t.from, t.to).trim() !== '') ?? null;
+}
+
+/**
+ * Substitui o trecho [from, to] por um bloco, garantindo uma linha em branco antes e depois; devolve o texto novo e a posição do bloco.
+ */
+export function placeBlock(content: string, from: number, to: number, block: string): { content: string; from: number; to: number } {
+  const before = content.slice(0, from);
+  const after = content.slice(to);
+  const prefix = !before || before.endsWith('\n\n') ? '' : before.endsWith('\n') ? '\n' : '\n\n';
+  const suffix = after.startsWith('\n\n') || (!after.trim() && after.startsWith('\n')) ? '' : after.startsWith('\n') ? '\n' : '\n\n';
+  const start = before.length + prefix.length;
+  return { content: before + prefix + block + suffix + after, from: start, to: start + block.length };
+}
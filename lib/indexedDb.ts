@@ -0,0 +1,97 @@
+const DB_NAME = 'vixetext-playground';
+const DB_VERSION = 3;
+
+/**
+ * Object stores criados na abertura do banco. Novos stores exigem incrementar DB_VERSION.
+ */
+const STORE_NAMES = ['workspace', 'pdfCache', 'snapshots'] as const;
+
+export type StoreName = (typeof STORE_NAMES)[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Abre (ou reutiliza) a conexão com o IndexedDB, criando os stores ausentes no upgrade.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB não está disponível neste navegador.'));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      for (const name of STORE_NAMES) {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+      }
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      // Libera a conexão quando outra aba precisa atualizar a versão do banco.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    req.onerror = () => reject(req.error ?? new Error('Falha ao abrir o IndexedDB.'));
+    req.onblocked = () => reject(new Error('Abertura do IndexedDB bloqueada por outra aba.'));
+  });
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+/**
+ * Executa uma única requisição dentro de uma transação e resolve quando ela é concluída.
+ */
+async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const req = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error ?? req.error ?? new Error('Falha na transação do IndexedDB.'));
+    tx.onabort = () => reject(tx.error ?? new Error('Transação do IndexedDB abortada.'));
+  });
+}
+
+/**
+ * Lê um valor pela chave, retornando undefined quando ausente.
+ */
+export function idbGet<T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withStore<T | undefined>(storeName, 'readonly', (store) => store.get(key));
+}
+
+/**
+ * Grava (ou sobrescreve) um valor na chave informada.
+ */
+export async function idbPut<T>(storeName: StoreName, key: IDBValidKey, value: T): Promise<void> {
+  await withStore(storeName, 'readwrite', (store) => store.put(value, key));
+}
+
+/**
+ * Remove o valor associado à chave informada.
+ */
+export async function idbDelete(storeName: StoreName, key: IDBValidKey): Promise<void> {
+  await withStore(storeName, 'readwrite', (store) => store.delete(key));
+}
+
+/**
+ * Lê todos os valores de um store.
+ */
+export function idbGetAll<T>(storeName: StoreName): Promise<T[]> {
+  return withStore<T[]>(storeName, 'readonly', (store) => store.getAll());
+}
+
+/**
+ * Remove todos os valores de um store.
+ */
+export async function idbClear(storeName: StoreName): Promise<void> {
+  await withStore(storeName, 'readwrite', (store) => store.clear());
+}
@@ -0,0 +1,229 @@
+import { Diagnostic, linter } from '@codemirror/lint';
+import { Extension } from '@codemirror/state';
+import { diffLines } from './lineDiff';
+import { pdfjs } from './pdfjs';
+import type { ProjectFile } from './projectFiles';
+
+export type CompileProblem = {
+  severity: 'error' | 'warning';
+  message: string;
+  /** Arquivo do projeto onde o problema foi localizado, quando foi possível mapeá-lo. */
+  file: string | null;
+  /** Linha (base 1) no arquivo do projeto. */
+  line: number | null;
+  /** Trecho original do log, exibido como detalhe. */
+  detail?: string;
+  /** A linha apontada foi alterada ou removida depois da compilação; a posição é só aproximada. */
+  stale?: boolean;
+};
+
+/**
+ * Acompanha uma edição do arquivo: as linhas dos problemas seguem o texto deslocado, e os que apontam
+ * para linhas alteradas ou removidas ficam na posição mais próxima, marcados como desatualizados.
+ */
+export function mapProblemLines(problems: CompileProblem[], file: string, before: string, after: string): CompileProblem[] {
+  if (!problems.some((p) => p.file === file && p.line !== null)) return problems;
+  const newLines = new Map<number, { line: number; stale: boolean }>();
+  let lastNewLine = 0;
+  for (const entry of diffLines(before, after)) {
+    if (entry.newLine !== undefined) lastNewLine = entry.newLine;
+    if (entry.oldLine === undefined) continue;
+    newLines.set(entry.oldLine, entry.type === 'equal'
+      ? { line: entry.newLine!, stale: false }
+      : { line: Math.max(1, lastNewLine + 1), stale: true });
+  }
+  const total = after.split('\n').length;
+  let changed = false;
+  const next = problems.map((p) => {
+    if (p.file !== file || p.line === null) return p;
+    const mapped = newLines.get(p.line);
+    if (!mapped) return p;
+    const line = Math.min(mapped.line, total);
+    const stale = p.stale || mapped.stale;
+    if (line === p.line && stale === !!p.stale) return p;
+    changed = true;
+    return { ...p, line, stale };
+  });
+  return changed ? next : problems;
+}
+
+/**
+ * Extrai o log de compilação da resposta de erro: JSON ({ log } ou { error }) ou texto do PDF de erro.
+ */
+export async function readCompileLog(blob: Blob): Promise<string> {
+  if (blob.type.includes('json')) {
+    const body = JSON.parse(await blob.text());
+    return String(body?.log ?? body?.error ?? '');
+  }
+  if (blob.type.startsWith('text/')) return blob.text();
+  const doc = await pdfjs.getDocument({ data: new Uint8Array(await blob.arrayBuffer()) }).promise;
+  try {
+    let text = '';
+    for (let n = 1; n <= doc.numPages; n++) {
+      const page = await doc.getPage(n);
+      const content = await page.getTextContent();
+      for (const item of content.items) {
+        if (!('str' in item)) continue;
+        text += item.str + (item.hasEOL ? '\n' : '');
+      }
+      text += '\n';
+    }
+    return text;
+  } finally {
+    doc.destroy();
+  }
+}
+
+/**
+ * Procura um trecho nos arquivos do projeto (Markdown primeiro) e devolve o arquivo e a linha da
+ * primeira ocorrência.
+ */
+function locate(needle: string, sources: ProjectFile[]): { file: string; line: number } | null {
+  const text = needle.trim();
+  if (!text) return null;
+  const ordered = [...sources].sort((a, b) => Number(!a.name.endsWith('.md')) - Number(!b.name.endsWith('.md')));
+  for (const source of ordered) {
+    const index = source.content.indexOf(text);
+    if (index >= 0) return { file: source.name, line: source.content.slice(0, index).split('\n').length };
+  }
+  return null;
+}
+
+/**
+ * Localiza uma chave de citação usada no Markdown (\cite{...} ou @chave).
+ */
+function locateCitation(key: string, sources: ProjectFile[]): { file: string; line: number } | null {
+  const markdown = sources.filter((s) => s.name.endsWith('.md'));
+  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const re = new RegExp(`(?:@|\\\\\\w*cite\\w*\\*?(?:\\[[^\\]]*\\])*\\{[^}]*?)${escaped}(?![\\w:.#$%&+?<>~/-]*\\w)`);
+  for (const source of markdown) {
+    const m = re.exec(source.content);
+    if (m) return { file: source.name, line: source.content.slice(0, m.index).split('\n').length };
+  }
+  return locate(key, sources);
+}
+
+/**
+ * Candidatos a procurar no código-fonte para um erro "! ..." a partir do contexto "l.N ...".
+ */
+function errorNeedles(message: string, context: string): string[] {
+  const file = /File [`'](.+?)' not found/.exec(message);
+  if (file) return [file[1], file[1].split('/').pop() ?? file[1]];
+  const needles: string[] = [];
+  const commands = context.match(/\\[A-Za-z@]+/g);
+  if (/Undefined control sequence/.test(message) && commands) needles.push(commands[commands.length - 1]);
+  const tail = context.trim();
+  if (tail.length >= 4) needles.push(tail, tail.slice(-30).trim());
+  if (commands) needles.push(...commands.reverse());
+  return needles;
+}
+
+/**
+ * Interpreta o log do LaTeX/BibTeX/Pandoc e mapeia erros e avisos de volta às linhas dos arquivos do projeto.
+ */
+export function parseLatexLog(log: string, sources: ProjectFile[]): CompileProblem[] {
+  const problems: CompileProblem[] = [];
+  const seen = new Set<string>();
+  const push = (problem: CompileProblem) => {
+    const id = `${problem.severity}|${problem.message}|${problem.file}|${problem.line}`;
+    if (seen.has(id)) return;
+    seen.add(id);
+    problems.push(problem);
+  };
+  const at = (loc: { file: string; line: number } | null) => ({ file: loc?.file ?? null, line: loc?.line ?? null });
+  const lines = log.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const raw = lines[i];
+    const text = raw.trim();
+
+    if (text.startsWith('! ')) {
+      const message = text.slice(2);
+      let context = '';
+      for (let j = i + 1; j < Math.min(lines.length, i + 12); j++) {
+        const m = /^l\.\d+\s?(.*)$/.exec(lines[j].trim());
+        if (m) { context = m[1]; break; }
+      }
+      let loc = null;
+      for (const needle of errorNeedles(message, context)) {
+        loc = locate(needle, sources);
+        if (loc) break;
+      }
+      push({ severity: 'error', message: translateError(message), ...at(loc), detail: context ? `${message}\n${context}` : message });
+      continue;
+    }
+
+    const warning = /^(?:LaTeX|Package \w+) Warning: (.*)$/.exec(text);
+    if (warning) {
+      let message = warning[1];
+      while (i + 1 < lines.length && /^\(\w+\)\s/.test(lines[i + 1].trim())) message += ` ${lines[++i].trim().replace(/^\(\w+\)\s+/, '')}`;
+      const citation = /Citation [`'](.+?)' .*undefined/.exec(message);
+      const reference = /Reference [`'](.+?)' .*undefined/.exec(message);
+      if (citation) {
+        push({ severity: 'warning', message: `Citação indefinida: "${citation[1]}" não está nas referências.`, ...at(locateCitation(citation[1], sources)), detail: message });
+      } else if (reference) {
+        push({ severity: 'warning', message: `Referência indefinida: rótulo "${reference[1]}" não encontrado.`, ...at(locate(reference[1], sources)), detail: message });
+      } else if (!/There were undefined references|Label\(s\) may have changed|Rerun to get/.test(message)) {
+        push({ severity: 'warning', message, file: null, line: null });
+      }
+      continue;
+    }
+
+    const bibLine = /---line (\d+) of file (\S+?)(?:\.bib)?$/.exec(text);
+    if (bibLine) {
+      const file = sources.find((s) => s.name === `${bibLine[2]}.bib` || s.name === bibLine[2])?.name ?? null;
+      const message = text.replace(/---line.*$/, '') || (lines[i - 1] ?? '').trim();
+      push({ severity: 'error', message: `BibTeX: ${message}`, file, line: file ? Number(bibLine[1]) : null, detail: text });
+      continue;
+    }
+
+    const missingEntry = /^Warning--I didn't find a database entry for "(.+)"/.exec(text);
+    const citeproc = /Citeproc: citation (\S+) not found/.exec(text);
+    if (missingEntry || citeproc) {
+      const key = (missingEntry ?? citeproc)![1];
+      push({ severity: 'warning', message: `Citação indefinida: "${key}" não está nas referências.`, ...at(locateCitation(key, sources)), detail: text });
+      continue;
+    }
+
+    const yamlError = /YAML.*?\(line (\d+),\s*column (\d+)\)/i.exec(text);
+    if (yamlError) {
+      const file = sources.find((s) => s.name.endsWith('.yaml') || s.name.endsWith('.yml'))?.name ?? null;
+      push({ severity: 'error', message: text, file, line: file ? Number(yamlError[1]) : null });
+      continue;
+    }
+
+    const pandocWarning = /^\[WARNING\] (.*)$/.exec(text);
+    if (pandocWarning) push({ severity: 'warning', message: pandocWarning[1], file: null, line: null });
+  }
+  return problems;
+}
+
+/**
+ * Mensagens em português para os erros mais comuns do TeX; as demais são mantidas como no log.
+ */
+function translateError(message: string): string {
+  if (/^Undefined control sequence/.test(message)) return 'Comando LaTeX indefinido.';
+  const file = /File [`'](.+?)' not found/.exec(message);
+  if (file) return `Arquivo não encontrado: ${file[1]}.`;
+  if (/^Missing \$ inserted/.test(message)) return 'Fórmula fora do modo matemático: falta um "$".';
+  if (/^Missing [{}] inserted/.test(message)) return 'Chaves desbalanceadas.';
+  if (/^Extra }/.test(message)) return 'Chave "}" sobrando.';
+  if (/^LaTeX Error: Environment (\S+) undefined/.test(message)) return `Ambiente indefinido: ${/Environment (\S+)/.exec(message)![1]}.`;
+  return message.replace(/^LaTeX Error: /, '');
+}
+
+/**
+ * Extensão de lint que exibe os problemas da última compilação no arquivo aberto, lendo-os via
+ * "getProblems" para refletir sempre o resultado mais recente. Os desatualizados ficam só no painel.
+ */
+export function compileProblemsLinter(getProblems: () => CompileProblem[]): Extension {
+  return linter((view) => {
+    const { doc } = view.state;
+    return getProblems()
+      .filter((p) => p.line !== null && !p.stale)
+      .map((p): Diagnostic => {
+        const line = doc.line(Math.min(Math.max(1, p.line!), doc.lines));
+        return { from: line.from, to: line.to, severity: p.severity, message: p.message, source: 'LaTeX' };
+      });
+  }, { delay: 300 });
+}
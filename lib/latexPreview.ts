@@ -0,0 +1,408 @@
+import { TokenizerAndRendererExtension, Tokens } from 'marked';
+import { escapeHtml } from './citations';
+import { renderMath } from './math';
+
+type FloatKind = 'table' | 'figure' | 'equation';
+
+type LatexEnvToken = Tokens.Generic & { env: string; body: string };
+type LatexInlineToken = Tokens.Generic & { text: string };
+
+const FLOAT_NAMES: Record<FloatKind, string> = { table: 'Tabela', figure: 'Figura', equation: 'Equação' };
+
+const MATH_ENVS: Record<string, string> = {
+  equation: '', align: 'aligned', gather: 'gathered', multline: 'gathered', eqnarray: 'aligned',
+};
+
+/**
+ * Comandos sem efeito visual relevante no preview, descartados sem aviso.
+ */
+const IGNORED_COMMANDS = new Set([
+  'centering', 'raggedright', 'raggedleft', 'hline', 'toprule', 'midrule', 'bottomrule', 'cline',
+  'small', 'footnotesize', 'scriptsize', 'normalsize', 'large', 'Large', 'noindent', 'vspace', 'hspace',
+  'vfill', 'hfill', 'medskip', 'smallskip', 'bigskip', 'linewidth', 'textwidth', 'columnwidth', 'protect',
+]);
+
+const WRAP_COMMANDS: Record<string, [string, string]> = {
+  textbf: ['<strong>', '</strong>'],
+  textit: ['<em>', '</em>'],
+  emph: ['<em>', '</em>'],
+  texttt: ['<code>', '</code>'],
+  underline: ['<u>', '</u>'],
+  textsc: ['<span style="font-variant:small-caps">', '</span>'],
+  mbox: ['', ''],
+  text: ['', ''],
+};
+
+const SYMBOLS: Record<string, string> = {
+  LaTeX: 'LaTeX', TeX: 'TeX', ldots: '…', dots: '…', textendash: '–', textemdash: '—',
+  S: '§', P: '¶', copyright: '©', newline: '<br>', par: '<br><br>', textbackslash: '\\',
+};
+
+/**
+ * Estado de uma renderização: contadores de flutuantes/equações e rótulos encontrados.
+ */
+export class LatexContext {
+  private readonly counters: Record<FloatKind, number> = { table: 0, figure: 0, equation: 0 };
+  private readonly labels = new Map<string, string>();
+
+  constructor(readonly cite: (keys: string, command: string, prefix?: string, locator?: string) => string) {}
+
+  /**
+   * Avança o contador do tipo informado e associa o rótulo ao número obtido.
+   */
+  next(kind: FloatKind, label?: string): number {
+    const n = ++this.counters[kind];
+    if (label) this.labels.set(label, String(n));
+    return n;
+  }
+
+  /**
+   * Substitui os marcadores de \ref pelos números finais; rótulos inexistentes viram "??", como no LaTeX.
+   */
+  resolveRefs(html: string): string {
+    return html.replace(/<span data-latex-ref="([^"]*)" data-eq="([01])"><\/span>/g, (_m, encoded: string, eq: string) => {
+      const label = decodeURIComponent(encoded);
+      const n = this.labels.get(label);
+      if (!n) return `<span class="latex-ref-broken text-red-600 dark:text-red-400" title="Rótulo não encontrado: ${escapeHtml(label)}">??</span>`;
+      const text = eq === '1' ? `(${n})` : n;
+      return `<a href="#${encodeURIComponent(label)}" class="latex-ref">${text}</a>`;
+    });
+  }
+}
+
+/**
+ * Lê um grupo entre chaves (ou colchetes) a partir de "start", respeitando aninhamento.
+ */
+function readGroup(src: string, start: number, open = '{', close = '}'): { content: string; end: number } | null {
+  if (src[start] !== open) return null;
+  let depth = 0;
+  for (let i = start; i < src.length; i++) {
+    const ch = src[i];
+    if (ch === '\\') { i++; continue; }
+    if (ch === open) depth++;
+    else if (ch === close && --depth === 0) return { content: src.slice(start + 1, i), end: i + 1 };
+  }
+  return null;
+}
+
+/**
+ * Localiza o \end{env} correspondente a partir de "from", contando ambientes aninhados de mesmo nome.
+ */
+function findEnvEnd(src: string, env: string, from: number): { bodyEnd: number; end: number } | null {
+  const escaped = env.replace(/\*/g, '\\*');
+  const re = new RegExp(`\\\\(begin|end)\\{${escaped}\\}`, 'g');
+  re.lastIndex = from;
+  let depth = 1;
+  for (let m = re.exec(src); m; m = re.exec(src)) {
+    depth += m[1] === 'begin' ? 1 : -1;
+    if (depth === 0) return { bodyEnd: m.index, end: m.index + m[0].length };
+  }
+  return null;
+}
+
+/**
+ * Remove o primeiro comando com argumento ("\caption{...}", "\label{...}") e devolve seu conteúdo.
+ */
+function extractCommand(body: string, name: string): { value?: string; rest: string } {
+  const re = new RegExp(`\\\\${name}(?:\\[[^\\]]*\\])?\\s*(?=\\{)`);
+  const m = re.exec(body);
+  if (!m) return { rest: body };
+  const group = readGroup(body, m.index + m[0].length);
+  if (!group) return { rest: body };
+  return { value: group.content, rest: body.slice(0, m.index) + body.slice(group.end) };
+}
+
+/**
+ * Converte largura do \includegraphics (ex.: .7\textwidth, 5cm) em CSS.
+ */
+function graphicsWidth(options: string): string | undefined {
+  const m = /width\s*=\s*([\d.]+)\s*(\\(?:text|line|column)width|cm|mm|in|pt|px)?/.exec(options);
+  if (!m) return undefined;
+  const value = parseFloat(m[1]);
+  if (!m[2] || m[2].startsWith('\\')) return `${Math.round(value * 100)}%`;
+  return `${value}${m[2]}`;
+}
+
+/**
+ * Placeholder ou imagem para \includegraphics: caminhos relativos não existem no preview.
+ */
+function renderGraphics(path: string, options: string): string {
+  const width = graphicsWidth(options);
+  const style = width ? ` style="width:${width}"` : '';
+  if (/^(https?:|data:image\/)/.test(path)) {
+    return `<img src="${escapeHtml(path)}" alt="${escapeHtml(path)}" class="mx-auto"${style}>`;
+  }
+  return `<span class="latex-graphics block mx-auto my-2 p-4 text-center text-sm text-gray-500 dark:text-gray-400 border border-dashed border-gray-400 rounded"${style}>Imagem: <code>${escapeHtml(path)}</code></span>`;
+}
+
+/**
+ * Destaca um comando LaTeX sem equivalente no preview, mantendo-o legível.
+ */
+function unsupported(text: string): string {
+  return `<code class="latex-unsupported bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200 rounded px-1" title="Comando LaTeX não suportado no preview">${escapeHtml(text)}</code>`;
+}
+
+/**
+ * Converte uma tabela tabular em HTML, separando linhas por "\\" e colunas por "&".
+ */
+function renderTabular(body: string, ctx: LatexContext): string {
+  const spec = readGroup(body, body.search(/\S/));
+  const content = spec ? body.slice(spec.end) : body;
+  const rows = content
+    .split(/\\\\(?:\[[^\]]*\])?/)
+    .map((row) => row.replace(/\\(hline|toprule|midrule|bottomrule|cline\{[^}]*\})/g, '').trim())
+    .filter(Boolean);
+  const html = rows
+    .map((row, i) => {
+      const tag = i === 0 ? 'th' : 'td';
+      const cells = row.split(/(?<!\\)&/).map((cell) => `<${tag}>${convertLatex(cell.trim(), ctx)}</${tag}>`).join('');
+      return `<tr>${cells}</tr>`;
+    })
+    .join('');
+  return `<table class="latex-tabular mx-auto"><tbody>${html}</tbody></table>`;
+}
+
+/**
+ * Divide o corpo de uma lista nos \item do nível atual, ignorando os de listas aninhadas.
+ */
+function splitItems(body: string): string[] {
+  const items: string[] = [];
+  const re = /\\(begin\{([A-Za-z]+\*?)\}|item\b\s*)/g;
+  let current = -1;
+  for (let m = re.exec(body); m; m = re.exec(body)) {
+    if (m[2]) {
+      const end = findEnvEnd(body, m[2], re.lastIndex);
+      if (end) re.lastIndex = end.end;
+      continue;
+    }
+    if (current >= 0) items.push(body.slice(current, m.index));
+    current = re.lastIndex;
+  }
+  if (current >= 0) items.push(body.slice(current));
+  return items;
+}
+
+/**
+ * Converte um ambiente de lista (itemize/enumerate) em ul/ol.
+ */
+function renderList(env: string, body: string, ctx: LatexContext): string {
+  const items = splitItems(body);
+  const tag = env === 'enumerate' ? 'ol' : 'ul';
+  return `<${tag}>${items.map((item) => `<li>${convertLatex(item.trim(), ctx)}</li>`).join('')}</${tag}>`;
+}
+
+/**
+ * Renderiza um ambiente matemático com KaTeX, numerado quando não for a versão com asterisco.
+ */
+function renderMathEnv(env: string, body: string, ctx: LatexContext): string {
+  const base = env.replace(/\*$/, '');
+  const { value: label, rest } = extractCommand(body, 'label');
+  const inner = rest.replace(/\\(nonumber|notag)\b/g, '').trim();
+  const wrapper = MATH_ENVS[base];
+  const tex = wrapper ? `\\begin{${wrapper}}${inner}\\end{${wrapper}}` : inner;
+  const math = renderMath(tex, true);
+  if (env.endsWith('*')) return `<div class="math-display my-4 overflow-x-auto">${math}</div>`;
+  const n = ctx.next('equation', label);
+  const id = label ? ` id="${encodeURIComponent(label)}"` : '';
+  return `<div class="math-display my-4 flex items-center gap-4"${id}><div class="flex-1 overflow-x-auto">${math}</div><span>(${n})</span></div>`;
+}
+
+/**
+ * Renderiza table/figure como figura HTML numerada. A legenda fica acima em tabelas e abaixo em figuras,
+ * como pede o modelo SBC.
+ */
+function renderFloat(kind: 'table' | 'figure', body: string, ctx: LatexContext): string {
+  const caption = extractCommand(body, 'caption');
+  const label = extractCommand(caption.rest, 'label');
+  const labelInCaption = caption.value ? extractCommand(caption.value, 'label') : { rest: '' };
+  const labelName = label.value ?? labelInCaption.value;
+  const n = ctx.next(kind, labelName);
+  const content = convertLatex(label.rest.replace(/^\s*\[[^\]]*\]/, ''), ctx);
+  const captionText = caption.value !== undefined ? convertLatex(labelInCaption.rest, ctx) : '';
+  const figcaption = `<figcaption class="text-center text-sm"><strong>${FLOAT_NAMES[kind]} ${n}.</strong> ${captionText}</figcaption>`;
+  const id = labelName ? ` id="${encodeURIComponent(labelName)}"` : '';
+  const parts = kind === 'table' ? [figcaption, content] : [content, figcaption];
+  return `<figure class="latex-${kind} my-6 text-center"${id}>${parts.join('')}</figure>`;
+}
+
+/**
+ * Converte um ambiente LaTeX em HTML. Ambientes desconhecidos viram um bloco destacado com o código original.
+ */
+function renderEnvironment(env: string, body: string, ctx: LatexContext): string {
+  const base = env.replace(/\*$/, '');
+  if (base === 'table' || base === 'figure') return renderFloat(base, body, ctx);
+  if (base in MATH_ENVS) return renderMathEnv(env, body, ctx);
+  if (base === 'center') return `<div class="text-center">${convertLatex(body, ctx)}</div>`;
+  if (base === 'itemize' || base === 'enumerate') return renderList(base, body, ctx);
+  if (base === 'tabular') return renderTabular(body, ctx);
+  if (base === 'quote' || base === 'quotation') return `<blockquote>${convertLatex(body, ctx)}</blockquote>`;
+  return `<div class="latex-unsupported my-4 p-3 border border-dashed border-amber-500 rounded text-sm" title="Ambiente LaTeX não suportado no preview">`
+    + `<div class="text-amber-700 dark:text-amber-300">Ambiente <code>${escapeHtml(env)}</code> não suportado no preview</div>`
+    + `<pre class="whitespace-pre-wrap">${escapeHtml(`\\begin{${env}}${body}\\end{${env}}`)}</pre></div>`;
+}
+
+/**
+ * Converte um trecho de LaTeX em HTML aproximado: formatação básica, refs, citações, fórmulas,
+ * ambientes aninhados e destaque para comandos não suportados.
+ */
+export function convertLatex(src: string, ctx: LatexContext): string {
+  let out = '';
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (ch === '%') {
+      const eol = src.indexOf('\n', i);
+      i = eol < 0 ? src.length : eol + 1;
+      continue;
+    }
+    if (ch === '$') {
+      const display = src.startsWith('$$', i);
+      const delim = display ? '$$' : '$';
+      const end = src.indexOf(delim, i + delim.length);
+      if (end > 0) {
+        out += renderMath(src.slice(i + delim.length, end), display);
+        i = end + delim.length;
+        continue;
+      }
+    }
+    if (ch === '{' || ch === '}') { i++; continue; }
+    if (ch === '~') { out += '&nbsp;'; i++; continue; }
+    if (ch !== '\\') {
+      const next = src.slice(i).search(/[\\%${}~]/);
+      const chunk = next < 0 ? src.slice(i) : src.slice(i, i + next);
+      out += escapeHtml(chunk).replace(/---/g, '—').replace(/--/g, '–').replace(/``/g, '“').replace(/''/g, '”');
+      i += chunk.length;
+      continue;
+    }
+
+    const m = /^\\([A-Za-z]+\*?|.)/.exec(src.slice(i));
+    if (!m) { i++; continue; }
+    const name = m[1];
+    let pos = i + m[0].length;
+    if (/^[&%$#_{}]$/.test(name)) { out += escapeHtml(name); i = pos; continue; }
+    if (name === '\\') { out += '<br>'; i = pos; continue; }
+
+    const optional = readGroup(src, pos, '[', ']');
+    const afterOptional = optional ? optional.end : pos;
+    const arg = readGroup(src, afterOptional);
+
+    if (name === 'begin' && arg) {
+      const env = arg.content;
+      const end = findEnvEnd(src, env, arg.end);
+      if (end) {
+        out += renderEnvironment(env, src.slice(arg.end, end.bodyEnd), ctx);
+        i = end.end;
+        continue;
+      }
+    }
+    if ((name === 'ref' || name === 'eqref' || name === 'autoref') && arg) {
+      out += `<span data-latex-ref="${encodeURIComponent(arg.content)}" data-eq="${name === 'eqref' ? 1 : 0}"></span>`;
+      i = arg.end;
+      continue;
+    }
+    if (name === 'label' && arg) {
+      out += `<span id="${encodeURIComponent(arg.content)}"></span>`;
+      i = arg.end;
+      continue;
+    }
+    if (/^(cite|citet|citep|citealp|citeauthor|citeyear|parencite|textcite|autocite)\*?$/.test(name)) {
+      // \cite[prefixo][localizador]{chaves}: com um só opcional, ele é o localizador.
+      const second = optional ? readGroup(src, optional.end, '[', ']') : null;
+      const keys = second ? readGroup(src, second.end) : arg;
+      if (keys) {
+        out += ctx.cite(keys.content, name, second ? optional!.content : undefined, (second ?? optional)?.content);
+        i = keys.end;
+        continue;
+      }
+    }
+    if (name === 'includegraphics' && arg) {
+      out += renderGraphics(arg.content.trim(), optional?.content ?? '');
+      i = arg.end;
+      continue;
+    }
+    if ((name === 'url' || name === 'href') && arg) {
+      const text = name === 'href' ? readGroup(src, arg.end) : null;
+      out += `<a href="${escapeHtml(arg.content)}">${text ? convertLatex(text.content, ctx) : escapeHtml(arg.content)}</a>`;
+      i = text ? text.end : arg.end;
+      continue;
+    }
+    if (name in WRAP_COMMANDS && arg) {
+      const [open, close] = WRAP_COMMANDS[name];
+      out += open + convertLatex(arg.content, ctx) + close;
+      i = arg.end;
+      continue;
+    }
+    if (name === 'footnote' && arg) {
+      out += `<sup title="${escapeHtml(arg.content)}">*</sup>`;
+      i = arg.end;
+      continue;
+    }
+    if (IGNORED_COMMANDS.has(name)) {
+      // Descarta também os argumentos de comandos de espaçamento como \vspace{1em}.
+      i = /space$/.test(name) && arg ? arg.end : pos;
+      continue;
+    }
+    if (name in SYMBOLS) {
+      out += SYMBOLS[name];
+      i = pos;
+      continue;
+    }
+    out += unsupported(`\\${name}`);
+    i = pos;
+  }
+  return out;
+}
+
+/**
+ * Extensões do marked para LaTeX embutido: ambientes em bloco (\begin{...}...\end{...}) e
+ * comandos inline (\ref, \label, formatação e comandos desconhecidos destacados).
+ */
+export function latexExtensions(ctx: LatexContext): TokenizerAndRendererExtension[] {
+  return [
+    {
+      name: 'latexEnvironment',
+      level: 'block',
+      start(src: string) {
+        const m = /(?:^|\n) {0,3}\\begin\{/.exec(src);
+        return m ? m.index + (m[0].startsWith('\n') ? 1 : 0) : undefined;
+      },
+      tokenizer(src: string): LatexEnvToken | undefined {
+        const head = /^ {0,3}\\begin\{([A-Za-z]+\*?)\}/.exec(src);
+        if (!head) return undefined;
+        const end = findEnvEnd(src, head[1], head[0].length);
+        if (!end) return undefined;
+        const trailing = /^[ \t]*(?:\n+|$)/.exec(src.slice(end.end));
+        const raw = src.slice(0, end.end + (trailing ? trailing[0].length : 0));
+        return { type: 'latexEnvironment', raw, env: head[1], body: src.slice(head[0].length, end.bodyEnd) };
+      },
+      renderer(token) {
+        const { env, body } = token as LatexEnvToken;
+        return `${renderEnvironment(env, body, ctx)}\n`;
+      },
+    },
+    {
+      name: 'latexCommand',
+      level: 'inline',
+      start(src: string) {
+        const m = /\\[A-Za-z]/.exec(src);
+        return m?.index;
+      },
+      tokenizer(src: string): LatexInlineToken | undefined {
+        const m = /^\\([A-Za-z]+)\*?/.exec(src);
+        if (!m) return undefined;
+        let end = m[0].length;
+        const optional = readGroup(src, end, '[', ']');
+        if (optional) end = optional.end;
+        const arg = readGroup(src, end);
+        if (arg) {
+          end = arg.end;
+          if (m[1] === 'href') end = readGroup(src, end)?.end ?? end;
+        }
+        return { type: 'latexCommand', raw: src.slice(0, end), text: src.slice(0, end) };
+      },
+      renderer(token) {
+        return convertLatex((token as LatexInlineToken).text, ctx);
+      },
+    },
+  ];
+}
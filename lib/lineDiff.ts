@@ -0,0 +1,147 @@
+/** Acima deste número de células a tabela de LCS não é montada e o trecho vira substituição integral. */
+const MAX_LCS_CELLS = 4_000_000;
+
+/** Linha do diff inline; os números de linha começam em 1 e faltam do lado em que a linha não existe. */
+export type DiffLine = {
+  type: 'equal' | 'removed' | 'added';
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+};
+
+/** Célula de um lado do diff lado a lado. */
+export type DiffCell = { line: number; text: string; type: DiffLine['type'] };
+
+/** Linha do diff lado a lado: à esquerda o texto antigo, à direita o novo. */
+export type DiffRow = { left?: DiffCell; right?: DiffCell };
+
+export type DiffStats = { added: number; removed: number };
+
+/**
+ * Diff linha a linha entre dois textos: prefixo e sufixo comuns são descartados e o meio é
+ * resolvido pela maior subsequência comum.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < start; i++) result.push({ type: 'equal', text: a[i], oldLine: i + 1, newLine: i + 1 });
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > MAX_LCS_CELLS) {
+    for (let i = start; i < endA; i++) result.push({ type: 'removed', text: a[i], oldLine: i + 1 });
+    for (let j = start; j < endB; j++) result.push({ type: 'added', text: b[j], newLine: j + 1 });
+  } else {
+    // lcs[i * (m + 1) + j] = tamanho da LCS entre a[start + i..] e b[start + j..].
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] = a[start + i] === b[start + j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      const oldLine = start + i + 1;
+      const newLine = start + j + 1;
+      if (i < n && j < m && a[start + i] === b[start + j]) {
+        result.push({ type: 'equal', text: a[start + i], oldLine, newLine });
+        i++;
+        j++;
+      } else if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+        result.push({ type: 'removed', text: a[start + i], oldLine });
+        i++;
+      } else {
+        result.push({ type: 'added', text: b[start + j], newLine });
+        j++;
+      }
+    }
+  }
+
+  for (let k = 0; k < a.length - endA; k++) {
+    result.push({ type: 'equal', text: a[endA + k], oldLine: endA + k + 1, newLine: endB + k + 1 });
+  }
+  return result;
+}
+
+/**
+ * Agrupa o diff inline em linhas lado a lado, emparelhando remoções e adições consecutivas.
+ */
+export function toSideBySide(lines: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let k = 0;
+  while (k < lines.length) {
+    const line = lines[k];
+    if (line.type === 'equal') {
+      rows.push({
+        left: { line: line.oldLine!, text: line.text, type: 'equal' },
+        right: { line: line.newLine!, text: line.text, type: 'equal' },
+      });
+      k++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (k < lines.length && lines[k].type !== 'equal') {
+      (lines[k].type === 'removed' ? removed : added).push(lines[k]);
+      k++;
+    }
+    for (let r = 0; r < Math.max(removed.length, added.length); r++) {
+      rows.push({
+        left: removed[r] && { line: removed[r].oldLine!, text: removed[r].text, type: 'removed' },
+        right: added[r] && { line: added[r].newLine!, text: added[r].text, type: 'added' },
+      });
+    }
+  }
+  return rows;
+}
+
+/**
+ * Conta as linhas adicionadas e removidas do diff.
+ */
+export function diffStats(lines: DiffLine[]): DiffStats {
+  let added = 0;
+  let removed = 0;
+  for (const line of lines) {
+    if (line.type === 'added') added++;
+    else if (line.type === 'removed') removed++;
+  }
+  return { added, removed };
+}
+
+/**
+ * Esconde trechos sem alteração longe das mudanças, mantendo "context" linhas ao redor de cada uma.
+ * Cada trecho escondido vira um número com a quantidade de linhas omitidas.
+ */
+export function foldUnchanged<T>(items: T[], isChanged: (item: T) => boolean, context = 3): Array<T | number> {
+  const keep = new Uint8Array(items.length);
+  items.forEach((item, i) => {
+    if (!isChanged(item)) return;
+    for (let k = Math.max(0, i - context); k <= Math.min(items.length - 1, i + context); k++) keep[k] = 1;
+  });
+  const result: Array<T | number> = [];
+  let hidden = 0;
+  items.forEach((item, i) => {
+    if (keep[i]) {
+      if (hidden) result.push(hidden);
+      hidden = 0;
+      result.push(item);
+    } else {
+      hidden++;
+    }
+  });
+  if (hidden) result.push(hidden);
+  return result;
+}
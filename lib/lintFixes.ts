@@ -0,0 +1,60 @@
+import { Action } from '@codemirror/lint';
+import { EditorView } from '@codemirror/view';
+
+/**
+ * Cria uma ação de correção rápida que substitui o trecho [from, to] por "insert".
+ */
+export function replaceAction(name: string, from: number, to: number, insert: string): Action {
+  return {
+    name,
+    apply: (view: EditorView) => view.dispatch({ changes: { from, to, insert } }),
+  };
+}
+
+/**
+ * Cria uma ação que seleciona o trecho [from, to] e devolve o foco ao editor, para o autor digitar o valor.
+ */
+export function selectAction(name: string, from: number, to: number): Action {
+  return {
+    name,
+    apply: (view: EditorView) => {
+      view.dispatch({ selection: { anchor: from, head: to }, scrollIntoView: true });
+      view.focus();
+    },
+  };
+}
+
+/**
+ * Distância de edição entre duas strings, usada para sugerir nomes conhecidos.
+ */
+function levenshtein(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diag = tmp;
+    }
+  }
+  return prev[b.length];
+}
+
+/**
+ * Candidato mais parecido com o nome informado (sem diferenciar maiúsculas), quando a diferença é pequena.
+ */
+export function closestName(name: string, candidates: string[], exclude: string[] = []): string | null {
+  const lower = name.toLowerCase();
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    if (exclude.includes(candidate)) continue;
+    const distance = levenshtein(lower, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best && bestDistance <= Math.max(2, Math.floor(name.length / 3)) ? best : null;
+}
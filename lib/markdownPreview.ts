@@ -0,0 +1,108 @@
+import { Marked, TokenizerAndRendererExtension, Tokens } from 'marked';
+import DOMPurify from 'dompurify';
+import { BibEntry } from './bibtex';
+import { CitationItem, CitationMode, CitationRegistry } from './citations';
+import { LatexContext, latexExtensions } from './latexPreview';
+import { mathExtensions } from './math';
+import { tagSourceLine } from './scrollSync';
+import { renderTitleBlock } from './titleBlock';
+
+export type PreviewOptions = {
+  bibEntries: BibEntry[];
+  /** Conteúdo do configuracao.yaml, usado para montar a folha de rosto; omitido nos arquivos que não são o Index.md. */
+  configYaml?: string;
+};
+
+type CitationToken = Tokens.Generic & { items: CitationItem[]; mode: CitationMode };
+
+const LATEX_CITE = /^\\(cite|citet|citep|citealp|citeauthor|citeyear|parencite|textcite|autocite)\*?(?:\[([^\]\n]*)\])?(?:\[([^\]\n]*)\])?\{([^}\n]*)\}/;
+const PANDOC_CITE = /^\[((?:[^[\]\n]|\[[^\]\n]*\])*?-?@[^\]\n]*)\]/;
+const PANDOC_ITEM = /^\s*(.*?)(-?)@([\w:.#$%&+?<>~/-]*[\w])(.*)$/;
+
+/**
+ * Converte o nome do comando LaTeX no modo de citação correspondente.
+ */
+function latexCiteMode(command: string): CitationMode {
+  if (command === 'citet' || command === 'textcite') return 'textual';
+  if (command === 'citeyear') return 'year-only';
+  return 'parenthetical';
+}
+
+/**
+ * Itens de uma citação LaTeX: o prefixo vai para a primeira chave e o localizador para a última.
+ */
+function latexCiteItems(keys: string, prefix?: string, locator?: string): CitationItem[] {
+  const list = keys.split(',').map((k) => k.trim()).filter(Boolean);
+  return list.map((key, i) => ({
+    key,
+    prefix: i === 0 ? prefix || undefined : undefined,
+    locator: i === list.length - 1 ? locator || undefined : undefined,
+  }));
+}
+
+/**
+ * Extensão inline do marked para \cite{...} (natbib/biblatex) e [@chave] (Pandoc).
+ */
+function citationExtension(registry: CitationRegistry): TokenizerAndRendererExtension {
+  return {
+    name: 'citation',
+    level: 'inline',
+    start(src: string) {
+      const m = /\\cite|\\parencite|\\textcite|\\autocite|\[-?@/.exec(src);
+      return m?.index;
+    },
+    tokenizer(src: string): CitationToken | undefined {
+      const latex = LATEX_CITE.exec(src);
+      if (latex) {
+        const [raw, command, first, second, keys] = latex;
+        const items = latexCiteItems(keys, second !== undefined ? first : undefined, second !== undefined ? second : first);
+        if (!items.length) return undefined;
+        return { type: 'citation', raw, items, mode: latexCiteMode(command) };
+      }
+
+      const pandoc = PANDOC_CITE.exec(src);
+      if (!pandoc) return undefined;
+      const items: CitationItem[] = [];
+      for (const part of pandoc[1].split(';')) {
+        const m = PANDOC_ITEM.exec(part);
+        if (!m) return undefined;
+        const [, prefix, suppress, key, rest] = m;
+        const locator = rest.replace(/^\s*,\s*/, '').trim();
+        items.push({ key, prefix: prefix.trim() || undefined, locator: locator || undefined, suppressAuthor: suppress === '-' });
+      }
+      return { type: 'citation', raw: pandoc[0], items, mode: 'parenthetical' };
+    },
+    renderer(token) {
+      const { items, mode } = token as CitationToken;
+      return registry.render(items, mode);
+    },
+  };
+}
+
+/**
+ * Converte o Markdown em HTML sanitizado para o preview: folha de rosto a partir do YAML, fórmulas e
+ * ambientes LaTeX embutidos, citações resolvidas a partir das entradas BibTeX e seção de referências.
+ */
+export function renderMarkdownPreview(markdown: string, options: PreviewOptions): string {
+  const citations = new CitationRegistry(options.bibEntries);
+  const latex = new LatexContext((keys, command, prefix, locator) => (
+    citations.render(latexCiteItems(keys, prefix, locator), latexCiteMode(command.replace(/\*$/, '')))
+  ));
+  // O marked tenta primeiro os tokenizers registrados por último: as citações vêm depois do LaTeX genérico
+  // para que \cite[...][...]{...} não seja capturado como um comando qualquer, perdendo prefixo e localizador.
+  const md = new Marked({
+    extensions: [...mathExtensions(), ...latexExtensions(latex), citationExtension(citations)],
+  });
+  const tokens = md.lexer(markdown);
+  let line = 1;
+  let body = renderTitleBlock(options.configYaml ?? '', (text) => md.parseInline(text) as string);
+  // Cada bloco de nível superior é renderizado separadamente para registrar sua linha de origem,
+  // usada na sincronização de rolagem entre editor e preview.
+  for (const token of tokens) {
+    const html = md.parser(Object.assign([token], { links: tokens.links }));
+    body += token.type === 'space' ? html : tagSourceLine(html, line);
+    line += token.raw.split('\n').length - 1;
+  }
+  body = latex.resolveRefs(body);
+  return DOMPurify.sanitize(body + citations.renderBibliography());
+}
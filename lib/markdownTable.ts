@@ -0,0 +1,136 @@
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
+/** Tabela editável: a primeira linha é o cabeçalho e todas as linhas têm o mesmo número de colunas. */
+export type TableData = {
+  rows: string[][];
+  align: TableAlignment[];
+};
+
+/** Largura mínima do traço de cada coluna na linha separadora da pipe table. */
+const MIN_DASHES = 3;
+
+/**
+ * Completa as linhas com células vazias para que todas tenham o mesmo número de colunas.
+ */
+export function normalizeTable(rows: string[][], align: TableAlignment[] = []): TableData {
+  const columns = Math.max(1, ...rows.map((r) => r.length));
+  const padded = (rows.length ? rows : [[]]).map((r) => Array.from({ length: columns }, (_, i) => r[i] ?? ''));
+  return { rows: padded, align: Array.from({ length: columns }, (_, i) => align[i] ?? null) };
+}
+
+/**
+ * Lê texto colado em CSV ou TSV (separador detectado pela primeira linha), com campos entre aspas.
+ */
+export function parseDelimited(text: string): string[][] {
+  const source = text.replace(/\r\n?/g, '\n').replace(/\n+$/, '');
+  const firstLine = source.split('\n')[0];
+  const delimiter = ['\t', ';', ','].reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best), '\t');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (ch === '\n') {
+      rows.push([...row, field.trim()]);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (source) rows.push([...row, field.trim()]);
+  return rows;
+}
+
+/**
+ * Texto de uma célula em uma linha só, com "|" escapado para a pipe table.
+ */
+function pipeCell(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ').replace(/(?<!\\)\|/g, '\\|');
+}
+
+/**
+ * Gera uma pipe table do Pandoc com as colunas alinhadas no texto.
+ */
+export function formatPipeTable(table: TableData): string {
+  const rows = table.rows.map((r) => r.map(pipeCell));
+  const widths = table.align.map((_, c) => Math.max(MIN_DASHES, ...rows.map((r) => r[c].length)));
+  const line = (cells: string[]) => `| ${cells.map((cell, c) => cell.padEnd(widths[c])).join(' | ')} |`;
+  const separator = table.align.map((align, c) => {
+    const dashes = '-'.repeat(widths[c] - (align === 'center' ? 2 : align ? 1 : 0));
+    if (align === 'center') return `:${dashes}:`;
+    if (align === 'left') return `:${dashes}`;
+    return align === 'right' ? `${dashes}:` : dashes;
+  });
+  return [line(rows[0]), `| ${separator.join(' | ')} |`, ...rows.slice(1).map(line)].join('\n');
+}
+
+/**
+ * Gera um ambiente tabular com o cabeçalho separado por \hline; "&" e "%" soltos nas células são escapados.
+ */
+export function formatLatexTabular(table: TableData): string {
+  const spec = table.align.map((a) => (a === 'center' ? 'c' : a === 'right' ? 'r' : 'l')).join('');
+  const line = (cells: string[]) => `${cells.map((c) => c.replace(/\s*\n\s*/g, ' ').replace(/(?<!\\)([&%])/g, '\\$1')).join(' & ')} \\\\`;
+  return [
+    `\\begin{tabular}{${spec}}`,
+    '\\hline',
+    line(table.rows[0]),
+    '\\hline',
+    ...table.rows.slice(1).map(line),
+    '\\hline',
+    '\\end{tabular}',
+  ].join('\n');
+}
+
+/**
+ * Divide uma linha de pipe table nas células, respeitando "\|".
+ */
+function splitPipeRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  return trimmed.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+/**
+ * Indica se a linha é o separador de cabeçalho de uma pipe table (ex.: "|:---|---:|").
+ */
+export function isPipeSeparator(line: string): boolean {
+  return line.includes('|') && /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/.test(line);
+}
+
+/**
+ * Lê as linhas de uma pipe table (cabeçalho, separador e corpo); null se não tiverem esse formato.
+ */
+export function parsePipeTable(lines: string[]): TableData | null {
+  if (lines.length < 2 || !isPipeSeparator(lines[1])) return null;
+  const align = splitPipeRow(lines[1]).map((cell): TableAlignment => {
+    if (cell.startsWith(':') && cell.endsWith(':')) return 'center';
+    if (cell.endsWith(':')) return 'right';
+    return cell.startsWith(':') ? 'left' : null;
+  });
+  return normalizeTable([lines[0], ...lines.slice(2)].map(splitPipeRow), align);
+}
+
+/**
+ * Lê o conteúdo de um ambiente tabular (especificação de colunas e linhas separadas por \\).
+ */
+export function parseLatexTabular(spec: string, body: string): TableData {
+  const align = (spec.replace(/[pmb]\{[^}]*\}/g, 'p').match(/[lcrp]/g) ?? []).map((c): TableAlignment => (
+    c === 'c' ? 'center' : c === 'r' ? 'right' : c === 'l' ? 'left' : null
+  ));
+  const rows = body
+    .split(/\\\\(?:\[[^\]]*\])?/)
+    .map((row) => row.replace(/\\(?:hline|toprule|midrule|bottomrule|cline\{[^}]*\})/g, '').trim())
+    .filter(Boolean)
+    .map((row) => row.split(/(?<!\\)&/).map((cell) => cell.trim().replace(/\\([&%])/g, '$1')));
+  return normalizeTable(rows, align);
+}
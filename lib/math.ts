@@ -0,0 +1,73 @@
+import katex from 'katex';
+import { TokenizerAndRendererExtension, Tokens } from 'marked';
+import { escapeHtml } from './citations';
+
+type MathToken = Tokens.Generic & { text: string; displayMode: boolean };
+
+const BLOCK_MATH = /^ {0,3}(?:\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\])[ \t]*(?:\n+|$)/;
+const INLINE_DISPLAY_MATH = /^\$\$([\s\S]+?)\$\$/;
+const INLINE_MATH = /^\$(?![\s$])((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)/;
+const INLINE_PAREN_MATH = /^\\\(([\s\S]+?)\\\)/;
+
+/**
+ * Renderiza uma fórmula TeX com KaTeX. Erros de sintaxe viram um trecho destacado com a
+ * mensagem, sem interromper o restante do preview.
+ */
+export function renderMath(tex: string, displayMode: boolean): string {
+  try {
+    return katex.renderToString(tex, { displayMode, throwOnError: true, strict: 'ignore', output: 'htmlAndMathml' });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const delimiter = displayMode ? '$$' : '$';
+    const tag = displayMode ? 'div' : 'span';
+    return `<${tag} class="math-error text-red-600 dark:text-red-400" title="${escapeHtml(message)}"><code>${escapeHtml(delimiter + tex + delimiter)}</code>${displayMode ? `<br><small>${escapeHtml(message)}</small>` : ''}</${tag}>`;
+  }
+}
+
+/**
+ * Renderizador compartilhado pelas extensões de fórmula.
+ */
+function renderMathToken(token: Tokens.Generic): string {
+  const { type, text, displayMode } = token as MathToken;
+  const html = renderMath(text.trim(), displayMode);
+  if (type === 'blockMath') return `<div class="math-display my-4 overflow-x-auto">${html}</div>\n`;
+  return displayMode ? `<span class="math-display block my-4 overflow-x-auto">${html}</span>` : html;
+}
+
+/**
+ * Extensões do marked para fórmulas: $$...$$ e \[...\] em bloco, $...$ e \(...\) inline.
+ */
+export function mathExtensions(): TokenizerAndRendererExtension[] {
+  return [
+    {
+      name: 'blockMath',
+      level: 'block',
+      start(src: string) {
+        const m = /(?:^|\n) {0,3}(?:\$\$|\\\[)/.exec(src);
+        return m ? m.index + (m[0].startsWith('\n') ? 1 : 0) : undefined;
+      },
+      tokenizer(src: string): MathToken | undefined {
+        const m = BLOCK_MATH.exec(src);
+        if (!m) return undefined;
+        return { type: 'blockMath', raw: m[0], text: m[1] ?? m[2], displayMode: true };
+      },
+      renderer: renderMathToken,
+    },
+    {
+      name: 'inlineMath',
+      level: 'inline',
+      start(src: string) {
+        const m = /(?<!\\)\$|\\\(/.exec(src);
+        return m?.index;
+      },
+      tokenizer(src: string): MathToken | undefined {
+        const display = INLINE_DISPLAY_MATH.exec(src);
+        if (display) return { type: 'inlineMath', raw: display[0], text: display[1], displayMode: true };
+        const inline = INLINE_MATH.exec(src) ?? INLINE_PAREN_MATH.exec(src);
+        if (!inline) return undefined;
+        return { type: 'inlineMath', raw: inline[0], text: inline[1], displayMode: false };
+      },
+      renderer: renderMathToken,
+    },
+  ];
+}
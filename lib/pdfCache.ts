@@ -0,0 +1,73 @@
+import { idbClear, idbDelete, idbGet, idbGetAll, idbPut } from './indexedDb';
+
+/** Limite de espaço ocupado pelos PDFs em cache; os menos usados recentemente saem primeiro. */
+export const MAX_PDF_CACHE_BYTES = 50 * 1024 * 1024;
+
+export type CachedPdf = {
+  hash: string;
+  blob: Blob;
+  fileName: string;
+  size: number;
+  createdAt: number;
+  lastUsedAt: number;
+};
+
+/**
+ * Serializa um valor em JSON com as chaves dos objetos ordenadas, para que o hash não dependa da ordem.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * SHA-256 (hex) do payload de compilação. Retorna null quando a Web Crypto não está disponível
+ * (ex.: página servida fora de um contexto seguro), o que desativa o cache.
+ */
+export async function hashPayload(payload: unknown): Promise<string | null> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+  const data = new TextEncoder().encode(stableStringify(payload));
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Busca um PDF em cache e atualiza seu uso mais recente.
+ */
+export async function getCachedPdf(hash: string): Promise<CachedPdf | undefined> {
+  const entry = await idbGet<CachedPdf>('pdfCache', hash);
+  if (!entry) return undefined;
+  const touched = { ...entry, lastUsedAt: Date.now() };
+  await idbPut('pdfCache', hash, touched);
+  return touched;
+}
+
+/**
+ * Guarda um PDF no cache e remove os menos usados até caber no limite de tamanho.
+ */
+export async function putCachedPdf(hash: string, blob: Blob, fileName: string): Promise<void> {
+  if (blob.size > MAX_PDF_CACHE_BYTES) return;
+  const now = Date.now();
+  await idbPut<CachedPdf>('pdfCache', hash, { hash, blob, fileName, size: blob.size, createdAt: now, lastUsedAt: now });
+  const entries = (await idbGetAll<CachedPdf>('pdfCache')).sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  for (const entry of entries) {
+    if (total <= MAX_PDF_CACHE_BYTES) break;
+    if (entry.hash === hash) continue;
+    await idbDelete('pdfCache', entry.hash);
+    total -= entry.size;
+  }
+}
+
+/**
+ * Esvazia o cache de PDFs.
+ */
+export function clearPdfCache(): Promise<void> {
+  return idbClear('pdfCache');
+}
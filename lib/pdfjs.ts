@@ -0,0 +1,11 @@
+import { pdfjs } from 'react-pdf';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+/**
+ * Worker do pdf.js compartilhado pelo modal, pelo painel de PDF e pela extração do log de erros.
+ * Vem no bundle (e não de um CDN) para que PDFs do cache e o rascunho local abram sem rede; a versão
+ * do pdfjs-dist no package.json acompanha a do react-pdf, já que API e worker precisam ser iguais.
+ */
+pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+export { pdfjs };
@@ -0,0 +1,166 @@
+import { strFromU8, strToU8, unzipSync, zipSync, Zippable } from 'fflate';
+import { FILE_NAMES } from '../constants';
+import { ProjectFile, validateFileName } from './projectFiles';
+import { DEFAULT_TEMPLATE_ID, isTemplateId, TemplateId } from './templates';
+
+const ARCHIVE_FORMAT = 'vixetext-project';
+const ARCHIVE_VERSION = 1;
+const MANIFEST_NAME = 'manifest.json';
+const IMAGES_DIR = 'images/';
+
+/** Descrição do conteúdo do .zip exportado, gravada em manifest.json. */
+export type ArchiveManifest = {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  /** Modelo de documento do projeto; ausente em arquivos antigos (equivale ao SBC). */
+  template?: TemplateId;
+  /** Arquivos de texto do projeto, na ordem das abas. */
+  files: string[];
+  /** Imagens referenciadas no Markdown, salvas em "images/" com a URL de origem. */
+  images: Array<{ path: string; source: string }>;
+  /** Nome do último PDF compilado, quando incluído. */
+  pdf?: string;
+};
+
+/** Projeto lido de um .zip já validado. */
+export type ImportedProject = {
+  manifest: ArchiveManifest;
+  files: ProjectFile[];
+  /** Entradas do .zip que não são arquivos do projeto (imagens, PDF ou desconhecidas) e não serão importadas. */
+  skipped: string[];
+};
+
+/**
+ * URLs de imagens (http, https ou data:) referenciadas nos arquivos Markdown, via ![](...) ou \includegraphics.
+ */
+function imageSources(files: ProjectFile[]): string[] {
+  const sources = new Set<string>();
+  const pattern = /!\[[^\]]*\]\(\s*<?((?:https?:|data:image\/)[^)\s>]+)>?|\\includegraphics(?:\[[^\]]*\])?\{((?:https?:|data:image\/)[^}]+)\}/g;
+  for (const file of files) {
+    if (!file.name.endsWith('.md')) continue;
+    for (const m of file.content.matchAll(pattern)) sources.add(m[1] ?? m[2]);
+  }
+  return [...sources];
+}
+
+/**
+ * Nome do arquivo de imagem dentro de "images/", derivado da URL (ou do tipo, para data: URLs) e sem colisões.
+ */
+function imagePath(source: string, type: string, used: Set<string>): string {
+  const extension = type.split('/')[1]?.replace('jpeg', 'jpg').replace(/\+.*$/, '') || 'img';
+  const fromUrl = source.startsWith('data:') ? '' : decodeURIComponent(new URL(source).pathname.split('/').pop() ?? '');
+  const base = fromUrl.replace(/[^\w.-]/g, '_').replace(/^\.+/, '') || `imagem.${extension}`;
+  let name = base;
+  for (let n = 2; used.has(name); n++) name = base.replace(/(\.\w+)?$/, `-${n}$1`);
+  used.add(name);
+  return IMAGES_DIR + name;
+}
+
+/**
+ * Gera o .zip do projeto: arquivos de texto, manifest.json, imagens referenciadas que puderem ser
+ * baixadas e, opcionalmente, o último PDF compilado.
+ */
+export async function buildProjectArchive(files: ProjectFile[], template: TemplateId, pdf?: { blob: Blob; fileName: string }): Promise<Blob> {
+  const entries: Zippable = {};
+  for (const file of files) entries[file.name] = strToU8(file.content);
+
+  const images: ArchiveManifest['images'] = [];
+  const used = new Set<string>();
+  for (const source of imageSources(files)) {
+    try {
+      const res = await fetch(source);
+      if (!res.ok) continue;
+      const blob = await res.blob();
+      const path = imagePath(source, blob.type, used);
+      entries[path] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+      images.push({ path, source: source.startsWith('data:') ? 'data:' : source });
+    } catch {
+      // Imagens bloqueadas por CORS ou indisponíveis ficam de fora; o Markdown continua com a URL.
+    }
+  }
+
+  const pdfName = pdf ? pdf.fileName.replace(/[^\w.-]/g, '_') : undefined;
+  if (pdf && pdfName) entries[pdfName] = [new Uint8Array(await pdf.blob.arrayBuffer()), { level: 0 }];
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    template,
+    files: files.map((f) => f.name),
+    images,
+    ...(pdfName ? { pdf: pdfName } : {}),
+  };
+  entries[MANIFEST_NAME] = strToU8(JSON.stringify(manifest, null, 2));
+  return new Blob([zipSync(entries, { level: 6 })], { type: 'application/zip' });
+}
+
+/**
+ * Nome sugerido para o .zip exportado, com a data atual.
+ */
+export function archiveFileName(date = new Date()): string {
+  return `projeto-vixetext-${date.toISOString().slice(0, 10)}.zip`;
+}
+
+/**
+ * Valida o manifest lido do .zip, retornando a mensagem de erro ou null quando válido.
+ */
+function validateManifest(value: unknown): string | null {
+  const manifest = value as ArchiveManifest;
+  if (!manifest || manifest.format !== ARCHIVE_FORMAT) return 'O manifest.json não é de um projeto do VixeText.';
+  if (typeof manifest.version !== 'number' || manifest.version > ARCHIVE_VERSION) {
+    return `Versão do arquivo (${manifest.version}) mais nova que a suportada (${ARCHIVE_VERSION}).`;
+  }
+  if (manifest.template !== undefined && !isTemplateId(manifest.template)) {
+    return `Modelo de documento desconhecido: "${manifest.template}".`;
+  }
+  if (!Array.isArray(manifest.files) || !manifest.files.every((f) => typeof f === 'string')) {
+    return 'O manifest.json não lista os arquivos do projeto.';
+  }
+  const missing = FILE_NAMES.filter((name) => !manifest.files.includes(name));
+  if (missing.length) return `Faltam arquivos obrigatórios: ${missing.join(', ')}.`;
+  for (const name of manifest.files) {
+    const error = validateFileName(name, []);
+    if (error) return `Nome de arquivo inválido "${name}": ${error}`;
+  }
+  if (new Set(manifest.files.map((f) => f.toLowerCase())).size !== manifest.files.length) {
+    return 'O manifest.json lista arquivos repetidos.';
+  }
+  return null;
+}
+
+/**
+ * Lê e valida um .zip exportado, retornando os arquivos do projeto. Lança Error com a mensagem
+ * a exibir quando o arquivo não é um projeto válido.
+ */
+export async function readProjectArchive(archive: Blob): Promise<ImportedProject> {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(new Uint8Array(await archive.arrayBuffer()));
+  } catch {
+    throw new Error('O arquivo selecionado não é um .zip válido.');
+  }
+  if (!entries[MANIFEST_NAME]) throw new Error('O .zip não contém manifest.json; ele não foi exportado pelo VixeText.');
+
+  let manifest: ArchiveManifest;
+  try {
+    manifest = JSON.parse(strFromU8(entries[MANIFEST_NAME]));
+  } catch {
+    throw new Error('O manifest.json do .zip não é um JSON válido.');
+  }
+  const error = validateManifest(manifest);
+  if (error) throw new Error(error);
+
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+  const files = manifest.files.map((name): ProjectFile => {
+    if (!entries[name]) throw new Error(`O arquivo "${name}" listado no manifest.json não está no .zip.`);
+    try {
+      return { name, content: decoder.decode(entries[name]) };
+    } catch {
+      throw new Error(`O arquivo "${name}" não está em UTF-8.`);
+    }
+  });
+  const skipped = Object.keys(entries).filter((name) => name !== MANIFEST_NAME && !name.endsWith('/') && !manifest.files.includes(name));
+  return { manifest: { ...manifest, template: manifest.template ?? DEFAULT_TEMPLATE_ID }, files, skipped };
+}
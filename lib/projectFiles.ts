@@ -0,0 +1,59 @@
+import { FILE_NAMES } from '../constants';
+
+export type FileKind = 'markdown' | 'yaml' | 'bibtex' | 'latex';
+
+export type ProjectFile = { name: string; content: string };
+
+const EXTENSION_KINDS: Record<string, FileKind> = {
+  '.md': 'markdown',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.bib': 'bibtex',
+  '.tex': 'latex',
+};
+
+export const ALLOWED_EXTENSIONS = Object.keys(EXTENSION_KINDS);
+
+/**
+ * Retorna o tipo do arquivo conforme a extensão, ou null para extensões não suportadas.
+ */
+export function getFileKind(fileName: string): FileKind | null {
+  const name = fileName.toLowerCase();
+  const dot = name.lastIndexOf('.');
+  if (dot < 0) return null;
+  return EXTENSION_KINDS[name.slice(dot)] ?? null;
+}
+
+/**
+ * Indica se o arquivo faz parte do trio exigido pelo backend e, portanto, não pode ser renomeado nem removido.
+ */
+export function isProtectedFile(fileName: string): boolean {
+  return FILE_NAMES.includes(fileName);
+}
+
+/**
+ * Valida um nome de arquivo novo (ou renomeado), retornando a mensagem de erro ou null quando válido.
+ */
+export function validateFileName(name: string, existing: string[], currentName?: string): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Informe um nome de arquivo.';
+  if (!/^[\w.-]+$/.test(trimmed) || trimmed.startsWith('.')) {
+    return 'Use apenas letras, números, ".", "-" e "_", sem barras ou espaços.';
+  }
+  if (!getFileKind(trimmed)) return `Extensão não suportada. Use ${ALLOWED_EXTENSIONS.join(', ')}.`;
+  const lower = trimmed.toLowerCase();
+  const clash = existing.some((f) => f !== currentName && f.toLowerCase() === lower);
+  if (clash) return `Já existe um arquivo chamado "${trimmed}".`;
+  return null;
+}
+
+/**
+ * Move o item da posição "from" para "to", retornando uma nova lista.
+ */
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || to < 0 || from >= items.length || to >= items.length) return items;
+  const next = items.slice();
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
@@ -0,0 +1,142 @@
+import type { ProjectFile } from './projectFiles';
+
+/** Limite de ocorrências listadas, para não travar a interface com buscas muito amplas. */
+export const MAX_SEARCH_MATCHES = 1000;
+
+/** Caracteres mostrados antes e depois da ocorrência na lista de resultados. */
+const CONTEXT_CHARS = 40;
+
+/** Letras (inclusive acentuadas), dígitos e sublinhado: o que conta como parte de uma palavra. */
+const WORD_CHAR = '[A-Za-z0-9_\\u00C0-\\u024F]';
+
+export type SearchOptions = {
+  query: string;
+  regex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+};
+
+/** Ocorrência encontrada; "from" e "to" são posições no conteúdo do arquivo e "line" começa em 1. */
+export type SearchMatch = {
+  from: number;
+  to: number;
+  line: number;
+  /** Trecho da linha antes da ocorrência, já encurtado. */
+  before: string;
+  text: string;
+  /** Trecho da linha depois da ocorrência, já encurtado. */
+  after: string;
+};
+
+export type FileMatches = { file: string; matches: SearchMatch[] };
+
+export type SearchResult = { files: FileMatches[]; total: number; truncated: boolean };
+
+/**
+ * Escapa caracteres especiais para usar o texto literalmente em uma expressão regular.
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Monta a expressão regular da busca. Lança Error com a mensagem a exibir quando a expressão é inválida.
+ */
+export function buildSearchRegExp(options: SearchOptions): RegExp {
+  let source = options.regex ? options.query : escapeRegExp(options.query);
+  if (options.wholeWord) source = `(?<!${WORD_CHAR})(?:${source})(?!${WORD_CHAR})`;
+  try {
+    return new RegExp(source, options.caseSensitive ? 'gm' : 'gim');
+  } catch (err) {
+    throw new Error(`Expressão regular inválida: ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Percorre as ocorrências não vazias da expressão no texto.
+ */
+function* matchesOf(content: string, pattern: RegExp): Generator<RegExpExecArray> {
+  pattern.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = pattern.exec(content))) {
+    if (m[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    yield m;
+  }
+}
+
+/**
+ * Busca em todos os arquivos do projeto, agrupando as ocorrências por arquivo na ordem das abas.
+ */
+export function searchProject(files: ProjectFile[], options: SearchOptions): SearchResult {
+  const result: SearchResult = { files: [], total: 0, truncated: false };
+  if (!options.query) return result;
+  const pattern = buildSearchRegExp(options);
+
+  for (const file of files) {
+    const matches: SearchMatch[] = [];
+    let line = 1;
+    let lineStart = 0;
+    let scanned = 0;
+    for (const m of matchesOf(file.content, pattern)) {
+      if (result.total >= MAX_SEARCH_MATCHES) {
+        result.truncated = true;
+        break;
+      }
+      for (; scanned < m.index; scanned++) {
+        if (file.content.charCodeAt(scanned) === 10) {
+          line++;
+          lineStart = scanned + 1;
+        }
+      }
+      const to = m.index + m[0].length;
+      const lineEnd = file.content.indexOf('\n', to);
+      const before = file.content.slice(lineStart, m.index);
+      const after = file.content.slice(to, lineEnd < 0 ? undefined : lineEnd);
+      matches.push({
+        from: m.index,
+        to,
+        line,
+        before: before.length > CONTEXT_CHARS ? `…${before.slice(-CONTEXT_CHARS)}` : before,
+        text: m[0],
+        after: after.length > CONTEXT_CHARS ? `${after.slice(0, CONTEXT_CHARS)}…` : after,
+      });
+      result.total++;
+    }
+    if (matches.length) result.files.push({ file: file.name, matches });
+    if (result.truncated) break;
+  }
+  return result;
+}
+
+/**
+ * Expande $&, $1…$99, $<nome> e $$ no texto de substituição de uma busca por expressão regular.
+ */
+function expandReplacement(replacement: string, m: RegExpExecArray): string {
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, ref: string, name?: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return m[0];
+    if (name !== undefined) return m.groups?.[name] ?? '';
+    const index = Number(ref);
+    return index > 0 && index < m.length ? m[index] ?? '' : token;
+  });
+}
+
+/**
+ * Substitui todas as ocorrências no texto. No modo literal a substituição é inserida sem interpretar "$".
+ */
+export function replaceInContent(content: string, options: SearchOptions, replacement: string): { content: string; count: number } {
+  if (!options.query) return { content, count: 0 };
+  const pattern = buildSearchRegExp(options);
+  let result = '';
+  let last = 0;
+  let count = 0;
+  for (const m of matchesOf(content, pattern)) {
+    result += content.slice(last, m.index) + (options.regex ? expandReplacement(replacement, m) : replacement);
+    last = m.index + m[0].length;
+    count++;
+  }
+  return { content: count ? result + content.slice(last) : content, count };
+}
@@ -0,0 +1,65 @@
+/**
+ * Posição a sincronizar: linha do código-fonte (pode ser fracionária durante a rolagem) e
+ * distância, em pixels, entre essa linha e o topo da área visível do editor.
+ */
+export type SyncPosition = { line: number; offset: number };
+
+const SOURCE_LINE_ATTR = 'data-source-line';
+
+/**
+ * Marca a primeira tag de um bloco HTML renderizado com a linha de origem no Markdown.
+ */
+export function tagSourceLine(html: string, line: number): string {
+  return html.replace(/^(\s*<[A-Za-z][\w-]*)/, `$1 ${SOURCE_LINE_ATTR}="${line}"`);
+}
+
+/**
+ * Blocos do preview que carregam a linha de origem, em ordem de documento.
+ */
+function sourceBlocks(content: HTMLElement): { line: number; top: number }[] {
+  const base = content.getBoundingClientRect().top;
+  return Array.from(content.querySelectorAll<HTMLElement>(`[${SOURCE_LINE_ATTR}]`)).map((el) => ({
+    line: Number(el.getAttribute(SOURCE_LINE_ATTR)),
+    top: el.getBoundingClientRect().top - base,
+  }));
+}
+
+/**
+ * Calcula o deslocamento vertical, relativo ao conteúdo do preview, correspondente a uma linha do
+ * código-fonte, interpolando entre o bloco que a contém e o seguinte.
+ */
+export function previewOffsetForLine(content: HTMLElement, line: number): number | null {
+  const blocks = sourceBlocks(content);
+  if (!blocks.length) return null;
+  let index = 0;
+  while (index + 1 < blocks.length && blocks[index + 1].line <= line) index++;
+  const current = blocks[index];
+  if (line < current.line) return 0;
+  const next = blocks[index + 1];
+  const nextTop = next ? next.top : content.scrollHeight;
+  const nextLine = next ? next.line : Math.max(line, current.line) + 1;
+  const ratio = Math.min(1, (line - current.line) / Math.max(1, nextLine - current.line));
+  return current.top + ratio * (nextTop - current.top);
+}
+
+/**
+ * Linha de origem do bloco do preview que contém o elemento clicado.
+ */
+export function sourceLineAt(target: EventTarget | null): number | null {
+  if (!(target instanceof Element)) return null;
+  const block = target.closest(`[${SOURCE_LINE_ATTR}]`);
+  return block ? Number(block.getAttribute(SOURCE_LINE_ATTR)) : null;
+}
+
+/**
+ * Posição (offset) do início de uma linha (base 1) no texto.
+ */
+export function lineStartOffset(text: string, line: number): number {
+  let offset = 0;
+  for (let n = 1; n < line; n++) {
+    const next = text.indexOf('\n', offset);
+    if (next < 0) return text.length;
+    offset = next + 1;
+  }
+  return offset;
+}
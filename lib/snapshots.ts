@@ -0,0 +1,52 @@
+import { idbDelete, idbGetAll, idbPut } from './indexedDb';
+import type { ProjectFile } from './projectFiles';
+import type { TemplateId } from './templates';
+
+/** Ponto de restauração nomeado com o conteúdo de todos os arquivos do projeto. */
+export type Snapshot = {
+  id: string;
+  name: string;
+  createdAt: number;
+  templateId: TemplateId;
+  /** Arquivos na ordem das abas no momento do snapshot. */
+  files: ProjectFile[];
+};
+
+/**
+ * Gera um identificador único para o snapshot.
+ */
+function newSnapshotId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Lista os snapshots salvos, do mais recente para o mais antigo.
+ */
+export async function listSnapshots(): Promise<Snapshot[]> {
+  const all = await idbGetAll<Snapshot>('snapshots');
+  return all.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Salva um snapshot do projeto; sem nome, usa a data e a hora atuais.
+ */
+export async function saveSnapshot(name: string, files: ProjectFile[], templateId: TemplateId): Promise<Snapshot> {
+  const createdAt = Date.now();
+  const snapshot: Snapshot = {
+    id: newSnapshotId(),
+    name: name.trim() || new Date(createdAt).toLocaleString(),
+    createdAt,
+    templateId,
+    files: files.map((f) => ({ name: f.name, content: f.content })),
+  };
+  await idbPut('snapshots', snapshot.id, snapshot);
+  return snapshot;
+}
+
+/**
+ * Remove um snapshot.
+ */
+export function deleteSnapshot(id: string): Promise<void> {
+  return idbDelete('snapshots', id);
+}
@@ -0,0 +1,168 @@
+import { Action, Diagnostic, linter } from '@codemirror/lint';
+import { EditorView } from '@codemirror/view';
+import { Extension } from '@codemirror/state';
+import { isMap, isScalar, isSeq, parseDocument } from 'yaml';
+import { DocumentLanguage, maskCode } from './documentText';
+import { checkSpelling, SpellBatch } from './spellcheck';
+
+/** Origem dos diagnósticos do corretor, usada para separá-los dos erros no gutter. */
+export const SPELL_SOURCE = 'Ortografia';
+
+/** Sugestões oferecidas como correção rápida em cada palavra. */
+const MAX_SUGGESTION_ACTIONS = 4;
+
+/**
+ * Idioma de cada campo de texto do configuracao.yaml; "document" segue o idioma do Index.md.
+ * Campos ausentes (nomes, e-mails, endereços, datas) não são verificados.
+ */
+const YAML_FIELD_LANGUAGES: Record<string, DocumentLanguage | 'document'> = {
+  title: 'document',
+  subtitle: 'document',
+  abstract: 'en',
+  keywords: 'en',
+  resumo: 'pt',
+  palavras_chave: 'pt',
+  natureza: 'pt',
+};
+
+/** Comandos LaTeX cujos argumentos são chaves, rótulos, caminhos ou nomes de ambiente, e não texto. */
+const KEY_COMMANDS = 'cite[a-zA-Z]*|[a-z]*cite|ref|eqref|autoref|[cC]ref|pageref|label|includegraphics|url|href|input|include|'
+  + 'bibliography|bibliographystyle|usepackage|documentclass|begin|end|inst|hspace|vspace|setlength|newcommand|renewcommand';
+
+/** Trechos que não são prosa: apagados (preservando as posições) antes de extrair as palavras. */
+const NON_PROSE_PATTERNS: RegExp[] = [
+  /^---\n[\s\S]*?\n(?:---|\.\.\.)[ \t]*(?=\n|$)/,
+  /<!--[\s\S]*?-->/g,
+  /<\/?[A-Za-z][^>\n]*>/g,
+  /\$\$[\s\S]*?\$\$|\$(?=\S)[^$\n]*?\S\$(?!\d)|\\\[[\s\S]*?\\\]|\\\([\s\S]*?\\\)/g,
+  /\\begin\{(equation|align|gather|multline|eqnarray|math|displaymath)(\*?)\}[\s\S]*?\\end\{\1\2\}/g,
+  new RegExp(`\\\\(?:${KEY_COMMANDS})\\*?(?:\\[[^\\]\\n]*\\]|\\{[^}\\n]*\\})*`, 'g'),
+  /\\[A-Za-z@]+\*?(?:\[[^\]\n]*\])?/g,
+  /\b(?:https?|ftp):\/\/[^\s<>)\]]+|\bwww\.[^\s<>)\]]+/g,
+  /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g,
+  /(^|[\s[;(])-?@[\p{L}\p{N}_][\p{L}\p{N}_:.#$%&+?<>~/-]*/gmu,
+  /(?<=[)\]])\{[^}\n]*\}|\{[#.-][^}\n]*\}/g,
+  /\]\([^)\n]*\)|^[ \t]*\[[^\]\n]+\]:[^\n]*$|\[\^[^\]\n]+\]/gm,
+];
+
+/** Uma palavra do texto a verificar, com a posição e o idioma. */
+export type SpellWord = { from: number; to: number; word: string; language: DocumentLanguage };
+
+/** Configuração do corretor no editor. */
+export type SpellCheckOptions = {
+  /** Idioma do texto em Markdown e dos campos do YAML que seguem o documento. */
+  language: DocumentLanguage;
+  /** Palavras aceitas neste projeto. */
+  dictionary: string[];
+  onAddWord: (word: string) => void;
+  /** Recebe a mensagem quando o corretor não carrega (ou null quando volta a funcionar). */
+  onStatusChange: (error: string | null) => void;
+};
+
+/**
+ * Apaga código, matemática, comandos LaTeX, citações, URLs e atributos, preservando as posições.
+ */
+export function maskNonProse(markdown: string): string {
+  const blank = (match: string) => match.replace(/[^\n]/g, ' ');
+  return NON_PROSE_PATTERNS.reduce((text, pattern) => text.replace(pattern, blank), maskCode(markdown));
+}
+
+/**
+ * Indica se a palavra deve ser ignorada: letras isoladas, siglas e nomes com maiúsculas internas (LaTeX, GitHub).
+ */
+function isIgnoredWord(word: string): boolean {
+  return word.length < 2 || word.split(/[-'’]/).some((part) => /.\p{Lu}/u.test(part));
+}
+
+/**
+ * Palavras de um trecho de prosa, deslocadas por "offset"; termos colados a números ou "_" ficam de fora.
+ */
+function proseWords(text: string, offset: number, language: DocumentLanguage): SpellWord[] {
+  const words: SpellWord[] = [];
+  for (const m of maskNonProse(text).matchAll(/\p{L}+(?:[-'’]\p{L}+)*/gu)) {
+    const start = m.index!;
+    const end = start + m[0].length;
+    if (/[\p{N}_]/u.test(text[start - 1] ?? '') || /[\p{N}_]/u.test(text[end] ?? '') || isIgnoredWord(m[0])) continue;
+    words.push({ from: offset + start, to: offset + end, word: m[0], language });
+  }
+  return words;
+}
+
+/**
+ * Palavras do texto em Markdown, todas no idioma do documento.
+ */
+export function markdownWords(markdown: string, language: DocumentLanguage): SpellWord[] {
+  return proseWords(markdown, 0, language);
+}
+
+/**
+ * Palavras dos campos de texto do configuracao.yaml, cada campo no seu idioma (abstract em inglês, resumo em português).
+ */
+export function yamlWords(yaml: string, documentLanguage: DocumentLanguage): SpellWord[] {
+  const doc = parseDocument(yaml, { prettyErrors: false });
+  if (!isMap(doc.contents)) return [];
+  const words: SpellWord[] = [];
+  for (const pair of doc.contents.items) {
+    const fieldLanguage = isScalar(pair.key) ? YAML_FIELD_LANGUAGES[String(pair.key.value)] : undefined;
+    if (!fieldLanguage) continue;
+    const language = fieldLanguage === 'document' ? documentLanguage : fieldLanguage;
+    const values = isSeq(pair.value) ? pair.value.items : [pair.value];
+    for (const value of values) {
+      if (!isScalar(value) || !value.range) continue;
+      const [from, to] = value.range;
+      words.push(...proseWords(yaml.slice(from, to), from, language));
+    }
+  }
+  return words;
+}
+
+/**
+ * Ações de correção: as primeiras sugestões do dicionário e a inclusão no dicionário do projeto.
+ */
+function spellActions(word: SpellWord, suggestions: string[], onAddWord: (word: string) => void): Action[] {
+  return [
+    ...suggestions.slice(0, MAX_SUGGESTION_ACTIONS).map((suggestion): Action => ({
+      name: suggestion,
+      apply: (view: EditorView, from: number, to: number) => view.dispatch({ changes: { from, to, insert: suggestion } }),
+    })),
+    { name: 'Adicionar ao dicionário', apply: () => onAddWord(word.word) },
+  ];
+}
+
+/**
+ * Extensão de lint que sublinha as palavras desconhecidas do Markdown ou do YAML, verificadas no worker do corretor.
+ */
+export function spellLinter(kind: 'markdown' | 'yaml', getOptions: () => SpellCheckOptions | null): Extension {
+  return linter(async (view) => {
+    const options = getOptions();
+    if (!options) return [];
+    const text = view.state.doc.toString();
+    const words = kind === 'markdown' ? markdownWords(text, options.language) : yamlWords(text, options.language);
+    const batches: SpellBatch[] = (['pt', 'en'] as const)
+      .map((language) => ({ language, words: [...new Set(words.filter((w) => w.language === language).map((w) => w.word))] }))
+      .filter((batch) => batch.words.length);
+    if (!batches.length) return [];
+
+    let misspelled: Awaited<ReturnType<typeof checkSpelling>>;
+    try {
+      misspelled = await checkSpelling(batches, options.dictionary);
+    } catch (err) {
+      options.onStatusChange(err instanceof Error ? err.message : String(err));
+      return [];
+    }
+    options.onStatusChange(null);
+    return words.flatMap((word): Diagnostic[] => {
+      const suggestions = misspelled[word.language]?.[word.word];
+      if (!suggestions) return [];
+      return [{
+        from: word.from,
+        to: word.to,
+        severity: 'hint',
+        markClass: 'cm-spell-error',
+        message: `"${word.word}" não está no dicionário.`,
+        source: SPELL_SOURCE,
+        actions: spellActions(word, suggestions, options.onAddWord),
+      }];
+    });
+  }, { delay: 750 });
+}
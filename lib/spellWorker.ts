@@ -0,0 +1,94 @@
+/// <reference lib="webworker" />
+import { Hunspell, HunspellFactory, loadModule } from 'hunspell-asm';
+import enAffUrl from 'dictionary-en/index.aff?url';
+import enDicUrl from 'dictionary-en/index.dic?url';
+import ptAffUrl from 'dictionary-pt/index.aff?url';
+import ptDicUrl from 'dictionary-pt/index.dic?url';
+import type { SpellRequest, SpellResponse } from './spellcheck';
+import type { DocumentLanguage } from './documentText';
+
+/** Máximo de palavras novas com sugestões calculadas por pedido; as demais ficam para os próximos. */
+const MAX_SUGGESTIONS_PER_REQUEST = 30;
+
+const DICTIONARY_URLS: Record<DocumentLanguage, { aff: string; dic: string }> = {
+  en: { aff: enAffUrl, dic: enDicUrl },
+  pt: { aff: ptAffUrl, dic: ptDicUrl },
+};
+
+let factory: Promise<HunspellFactory> | null = null;
+const checkers = new Map<DocumentLanguage, Promise<Hunspell>>();
+const suggestions = new Map<string, string[]>();
+let projectWords = new Set<string>();
+
+/**
+ * Carrega (uma única vez) o Hunspell e o dicionário do idioma, já com as palavras do projeto.
+ */
+function checkerFor(language: DocumentLanguage): Promise<Hunspell> {
+  let checker = checkers.get(language);
+  if (!checker) {
+    if (!factory) {
+      factory = loadModule();
+      factory.catch(() => { factory = null; });
+    }
+    checker = factory.then(async (hunspell) => {
+      const [aff, dic] = await Promise.all([DICTIONARY_URLS[language].aff, DICTIONARY_URLS[language].dic].map(async (url) => {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`Não foi possível baixar o dicionário (${language}): HTTP ${response.status}.`);
+        return new Uint8Array(await response.arrayBuffer());
+      }));
+      const instance = hunspell.create(hunspell.mountBuffer(aff, `${language}.aff`), hunspell.mountBuffer(dic, `${language}.dic`));
+      projectWords.forEach((word) => instance.addWord(word));
+      return instance;
+    });
+    checkers.set(language, checker);
+    // Uma falha (rede, wasm) não fica em cache: a próxima verificação tenta carregar de novo.
+    checker.catch(() => checkers.delete(language));
+  }
+  return checker;
+}
+
+/**
+ * Sincroniza o dicionário do projeto com os verificadores já carregados.
+ */
+async function syncProjectWords(words: string[]): Promise<void> {
+  const next = new Set(words);
+  const added = words.filter((w) => !projectWords.has(w));
+  const removed = [...projectWords].filter((w) => !next.has(w));
+  projectWords = next;
+  if (!added.length && !removed.length) return;
+  for (const checker of checkers.values()) {
+    const instance = await checker;
+    added.forEach((w) => instance.addWord(w));
+    removed.forEach((w) => instance.removeWord(w));
+  }
+}
+
+/**
+ * Verifica as palavras de cada idioma e devolve as desconhecidas com as sugestões já calculadas.
+ */
+async function check(request: SpellRequest): Promise<SpellResponse> {
+  await syncProjectWords(request.dictionary);
+  const misspelled: SpellResponse['misspelled'] = {};
+  let budget = MAX_SUGGESTIONS_PER_REQUEST;
+  for (const { language, words } of request.batches) {
+    const checker = await checkerFor(language);
+    const unknown: Record<string, string[]> = {};
+    for (const word of words) {
+      if (checker.spell(word)) continue;
+      const key = `${language}:${word}`;
+      if (!suggestions.has(key) && budget > 0) {
+        suggestions.set(key, checker.suggest(word).slice(0, 5));
+        budget--;
+      }
+      unknown[word] = suggestions.get(key) ?? [];
+    }
+    misspelled[language] = unknown;
+  }
+  return { id: request.id, misspelled };
+}
+
+self.onmessage = (event: MessageEvent<SpellRequest>) => {
+  check(event.data)
+    .then((response) => self.postMessage(response))
+    .catch((err) => self.postMessage({ id: event.data.id, misspelled: {}, error: String(err?.message ?? err) } satisfies SpellResponse));
+};
@@ -0,0 +1,52 @@
+import type { DocumentLanguage } from './documentText';
+
+/** Palavras de um idioma a verificar. */
+export type SpellBatch = { language: DocumentLanguage; words: string[] };
+
+/** Pedido enviado ao worker: as palavras por idioma e o dicionário do projeto atual. */
+export type SpellRequest = { id: number; batches: SpellBatch[]; dictionary: string[] };
+
+/** Resposta do worker: para cada idioma, as palavras desconhecidas com as sugestões. */
+export type SpellResponse = {
+  id: number;
+  misspelled: Partial<Record<DocumentLanguage, Record<string, string[]>>>;
+  error?: string;
+};
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, { resolve: (response: SpellResponse) => void; reject: (error: Error) => void }>();
+
+/**
+ * Cria o worker do corretor na primeira verificação; os dicionários só são baixados quando usados.
+ */
+function spellWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./spellWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<SpellResponse>) => {
+      const request = pending.get(event.data.id);
+      pending.delete(event.data.id);
+      if (!request) return;
+      if (event.data.error) request.reject(new Error(event.data.error));
+      else request.resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      pending.forEach(({ reject }) => reject(new Error(event.message || 'Falha ao carregar o corretor ortográfico.')));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+}
+
+/**
+ * Verifica a ortografia das palavras fora da thread principal, considerando o dicionário do projeto.
+ */
+export function checkSpelling(batches: SpellBatch[], dictionary: string[]): Promise<SpellResponse['misspelled']> {
+  const id = nextId++;
+  return new Promise<SpellResponse>((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    spellWorker().postMessage({ id, batches, dictionary } satisfies SpellRequest);
+  }).then((response) => response.misspelled);
+}
@@ -0,0 +1,128 @@
+import { isMap, isScalar, isSeq, parseDocument } from 'yaml';
+import { ABNT_FILE_CONTENTS, FILE_NAMES, IEEE_FILE_CONTENTS, INITIAL_FILE_CONTENTS, REPORT_FILE_CONTENTS } from '../constants';
+import { ABNT_CONFIG_SCHEMA, ConfigSchema, IEEE_CONFIG_SCHEMA, REPORT_CONFIG_SCHEMA, SBC_CONFIG_SCHEMA } from './configSchema';
+import type { ConformanceRule } from './conformance';
+import { ABNT_RULES, IEEE_RULES, REPORT_RULES, SBC_RULES } from './conformanceRules';
+
+/** Identificador do modelo enviado ao backend em CompilePdfPayload.template. */
+export type TemplateId = 'sbc' | 'abnt' | 'ieee' | 'report';
+
+export type DocumentTemplate = {
+  id: TemplateId;
+  name: string;
+  description: string;
+  /** Esquema do configuracao.yaml (autocompletar, lint e migração entre modelos). */
+  schema: ConfigSchema;
+  /** Conteúdo inicial de Index.md, configuracao.yaml e referencias.bib. */
+  starterFiles: Record<string, string>;
+  /** Regras da verificação de conformidade antes da submissão. */
+  rules: ConformanceRule[];
+  /** Limite de páginas sugerido na verificação (ajustável pelo usuário), ou null quando não há limite. */
+  pageLimit: number | null;
+};
+
+export const DEFAULT_TEMPLATE_ID: TemplateId = 'sbc';
+
+/**
+ * Modelos de documento disponíveis, na ordem exibida no diálogo de novo projeto.
+ */
+export const TEMPLATES: DocumentTemplate[] = [
+  {
+    id: 'sbc',
+    name: 'SBC',
+    description: 'Artigo para conferências da Sociedade Brasileira de Computação (coluna única, A4).',
+    schema: SBC_CONFIG_SCHEMA,
+    starterFiles: INITIAL_FILE_CONTENTS,
+    rules: SBC_RULES,
+    pageLimit: 12,
+  },
+  {
+    id: 'abnt',
+    name: 'ABNT',
+    description: 'Tese, dissertação ou TCC conforme a NBR 14724, com capa e folha de rosto.',
+    schema: ABNT_CONFIG_SCHEMA,
+    starterFiles: ABNT_FILE_CONTENTS,
+    rules: ABNT_RULES,
+    pageLimit: null,
+  },
+  {
+    id: 'ieee',
+    name: 'IEEE',
+    description: 'Artigo em duas colunas no estilo das conferências IEEE, com referências numeradas.',
+    schema: IEEE_CONFIG_SCHEMA,
+    starterFiles: IEEE_FILE_CONTENTS,
+    rules: IEEE_RULES,
+    pageLimit: 6,
+  },
+  {
+    id: 'report',
+    name: 'Relatório',
+    description: 'Relatório simples com capa, sem exigências de formatação de conferência.',
+    schema: REPORT_CONFIG_SCHEMA,
+    starterFiles: REPORT_FILE_CONTENTS,
+    rules: REPORT_RULES,
+    pageLimit: null,
+  },
+];
+
+/**
+ * Indica se o valor é o identificador de um modelo conhecido.
+ */
+export function isTemplateId(value: unknown): value is TemplateId {
+  return TEMPLATES.some((t) => t.id === value);
+}
+
+/**
+ * Retorna o modelo pelo identificador, recorrendo ao modelo padrão para identificadores desconhecidos.
+ */
+export function getTemplate(id: string): DocumentTemplate {
+  return TEMPLATES.find((t) => t.id === id) ?? TEMPLATES.find((t) => t.id === DEFAULT_TEMPLATE_ID)!;
+}
+
+export type ConfigMigration = {
+  /** configuracao.yaml convertido para o modelo de destino. */
+  content: string;
+  /** Chaves sem equivalente no modelo de destino, removidas na conversão. */
+  dropped: string[];
+  /** Campos obrigatórios do destino adicionados com o valor do modelo inicial. */
+  added: string[];
+};
+
+/**
+ * Converte o configuracao.yaml para o esquema de outro modelo: mantém as chaves com o mesmo nome
+ * (ajustando texto/lista conforme o tipo esperado), remove as demais e acrescenta os campos
+ * obrigatórios ausentes com o valor do modelo inicial. Comentários e ordem das chaves mantidas são
+ * preservados. Lança Error quando o YAML atual não pode ser lido.
+ */
+export function migrateConfig(source: string, target: DocumentTemplate): ConfigMigration {
+  const doc = parseDocument(source, { prettyErrors: false });
+  if (doc.errors.length) throw new Error(`O configuracao.yaml atual tem erros de sintaxe: ${doc.errors[0].message}`);
+  if (doc.contents !== null && !isMap(doc.contents)) throw new Error('O configuracao.yaml atual não é um mapa de chaves.');
+
+  const dropped: string[] = [];
+  const present = new Set<string>();
+  for (const pair of isMap(doc.contents) ? [...doc.contents.items] : []) {
+    const key = isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+    const field = target.schema.fields[key];
+    if (!field) {
+      dropped.push(key);
+      doc.delete(key);
+      continue;
+    }
+    present.add(key);
+    if (field.type === 'list' && isScalar(pair.value) && pair.value.value !== null && pair.value.value !== '') {
+      doc.set(key, doc.createNode([String(pair.value.value)]));
+    } else if (field.type === 'string' && isSeq(pair.value)) {
+      doc.set(key, pair.value.items.map((item) => (isScalar(item) ? String(item.value) : String(item))).join(', '));
+    }
+  }
+
+  const starter = parseDocument(target.starterFiles[FILE_NAMES[1]] ?? '');
+  const added: string[] = [];
+  for (const [key, field] of Object.entries(target.schema.fields)) {
+    if (!field.required || present.has(key)) continue;
+    doc.set(key, starter.get(key, true) ?? (field.type === 'list' ? doc.createNode(['']) : ''));
+    added.push(key);
+  }
+  return { content: doc.toString({ lineWidth: 0 }), dropped, added };
+}
@@ -0,0 +1,69 @@
+import { parseDocument } from 'yaml';
+import { escapeHtml } from './citations';
+
+/**
+ * Converte \inst{n} (marcador de instituição do modelo SBC) em sobrescrito.
+ */
+export function instToSuperscript(text: string): string {
+  return text.replace(/\s*\\inst\{([^}]*)\}/g, (_m, n: string) => `<sup>${escapeHtml(n.trim())}</sup>`);
+}
+
+/**
+ * Lê um campo textual do YAML, aceitando números e listas como texto.
+ */
+function textField(data: Record<string, unknown>, key: string): string {
+  const value = data[key];
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(String).join(', ');
+  return String(value).trim();
+}
+
+/**
+ * Bloco de erro exibido no lugar da folha de rosto quando o YAML não pode ser lido.
+ */
+function titleBlockError(message: string): string {
+  return `<div class="title-block-error not-prose mb-8 p-4 rounded border border-red-300 bg-red-50 text-red-700 dark:border-red-700 dark:bg-red-900/30 dark:text-red-300">`
+    + `<strong>Não foi possível montar a folha de rosto a partir do configuracao.yaml.</strong>`
+    + `<pre class="mt-2 whitespace-pre-wrap text-sm">${escapeHtml(message)}</pre></div>`;
+}
+
+/**
+ * Renderiza a folha de rosto no estilo SBC (título, autores, instituição, endereço, e-mails,
+ * abstract e resumo) a partir do configuracao.yaml. Os textos passam por "renderInline" para
+ * que fórmulas e citações sigam as mesmas regras do corpo do documento.
+ */
+export function renderTitleBlock(source: string, renderInline: (text: string) => string): string {
+  if (!source.trim()) return '';
+  const doc = parseDocument(source);
+  if (doc.errors.length) return titleBlockError(doc.errors[0].message);
+  const data = doc.toJS();
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return titleBlockError('O arquivo deve conter pares "chave: valor" no nível principal.');
+  }
+  const fields = data as Record<string, unknown>;
+  const inline = (text: string) => renderInline(instToSuperscript(text));
+
+  const authorValue = fields.author;
+  const authors = (Array.isArray(authorValue) ? authorValue : authorValue ? [authorValue] : []).map((a) => inline(String(a).trim()));
+  const title = textField(fields, 'title');
+  const institution = textField(fields, 'instituicao');
+  const address = textField(fields, 'address');
+  const email = textField(fields, 'email');
+
+  const summary = (label: string, text: string, keywordsLabel: string, keywords: string) => {
+    if (!text) return '';
+    const keywordLine = keywords ? `<p class="mt-2"><strong>${keywordsLabel}:</strong> ${inline(keywords)}</p>` : '';
+    return `<div class="title-abstract mx-[0.8cm] my-4 text-justify"><p><strong>${label}.</strong> <em>${inline(text)}</em></p>${keywordLine}</div>`;
+  };
+
+  const parts = [
+    title ? `<h1 class="title-block-title text-center">${inline(title)}</h1>` : '',
+    authors.length ? `<p class="title-block-authors text-center font-bold">${authors.join(', ')}</p>` : '',
+    institution || address || email
+      ? `<p class="title-block-address text-center">${[institution, address].filter(Boolean).map(inline).join('<br>')}${email ? `<br><code>${escapeHtml(email)}</code>` : ''}</p>`
+      : '',
+    summary('Abstract', textField(fields, 'abstract'), 'Keywords', textField(fields, 'keywords')),
+    summary('Resumo', textField(fields, 'resumo'), 'Palavras-chave', textField(fields, 'palavras_chave')),
+  ].filter(Boolean);
+  return parts.length ? `<header class="title-block mb-8">${parts.join('\n')}</header>\n` : '';
+}
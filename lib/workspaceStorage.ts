@@ -0,0 +1,118 @@
+import { idbGet, idbPut } from './indexedDb';
+import { createHistory, DEFAULT_HISTORY_DEPTH, deserializeHistory, historyFromSnapshots, HistoryState, serializeHistory, StoredHistory } from './editHistory';
+import { DEFAULT_TEMPLATE_ID, isTemplateId, TemplateId } from './templates';
+import type { KeybindingOverrides } from './commands';
+
+const WORKSPACE_KEY = 'current';
+const WORKSPACE_VERSION = 2;
+
+/** Painel exibido ao lado do editor: preview HTML ou PDF compilado automaticamente. */
+export type PreviewPane = 'html' | 'pdf';
+
+export type WorkspaceState = {
+  templateId: TemplateId;
+  files: string[];
+  histories: Record<string, HistoryState>;
+  activeFile: string;
+  isPreviewVisible: boolean;
+  previewPane: PreviewPane;
+  autoCompileDelayMs: number;
+  isScrollSyncEnabled: boolean;
+  isDarkMode: boolean;
+  /** Número máximo de passos de desfazer por arquivo. */
+  historyDepth: number;
+  /** Painel com a estrutura de títulos ao lado do editor. */
+  isOutlineVisible: boolean;
+  /** Sublinha erros de ortografia no Markdown e no YAML. */
+  isSpellCheckEnabled: boolean;
+  /** Palavras aceitas pelo corretor neste projeto. */
+  projectDictionary: string[];
+  /** Atalhos de teclado redefinidos pelo usuário, por id de comando. */
+  keybindings: KeybindingOverrides;
+};
+
+type StoredWorkspace = Omit<WorkspaceState, 'histories'> & {
+  histories: Record<string, StoredHistory>;
+  version: number;
+  savedAt: number;
+};
+
+/** Histórico da versão 1, com cópias completas do texto a cada alteração. */
+type LegacyHistory = { past: string[]; present: string; future: string[] };
+
+/**
+ * Verifica se um valor lido do banco tem o formato do histórico da versão 1.
+ */
+function isLegacyHistory(value: unknown): value is LegacyHistory {
+  const h = value as LegacyHistory;
+  return !!h
+    && typeof h.present === 'string'
+    && Array.isArray(h.past) && h.past.every((p) => typeof p === 'string')
+    && Array.isArray(h.future) && h.future.every((f) => typeof f === 'string');
+}
+
+/**
+ * Reconstrói os históricos gravados, convertendo os da versão 1. Um histórico corrompido não derruba o
+ * workspace: o arquivo volta só com o conteúdo atual (sem passos de desfazer), e só é descartado se nem o
+ * conteúdo puder ser lido.
+ */
+function readHistories(stored: StoredWorkspace, depth: number): Record<string, HistoryState> {
+  const histories: Record<string, HistoryState> = {};
+  for (const [name, value] of Object.entries(stored.histories ?? {})) {
+    const history = stored.version === 1
+      ? (isLegacyHistory(value) ? historyFromSnapshots(value.past, value.present, value.future, depth) : null)
+      : deserializeHistory(value);
+    const present = (value as { present?: unknown } | null)?.present;
+    if (history) histories[name] = history;
+    else if (typeof present === 'string') histories[name] = createHistory(present);
+  }
+  return histories;
+}
+
+/**
+ * Mantém apenas os atalhos com formato válido (listas de textos por comando).
+ */
+function readKeybindings(value: unknown): KeybindingOverrides {
+  if (!value || typeof value !== 'object') return {};
+  return Object.fromEntries(Object.entries(value as Record<string, unknown>).filter(
+    (entry): entry is [string, string[]] => Array.isArray(entry[1]) && entry[1].every((k) => typeof k === 'string')
+  ));
+}
+
+/**
+ * Carrega o workspace salvo, descartando registros de versões desconhecidas ou corrompidos.
+ */
+export async function loadWorkspace(): Promise<WorkspaceState | null> {
+  const stored = await idbGet<StoredWorkspace>('workspace', WORKSPACE_KEY);
+  if (!stored || stored.version > WORKSPACE_VERSION || stored.version < 1) return null;
+  const historyDepth = stored.historyDepth ?? DEFAULT_HISTORY_DEPTH;
+  const histories = readHistories(stored, historyDepth);
+  const ordered = (stored.files ?? []).filter((f) => f in histories);
+  const files = [...ordered, ...Object.keys(histories).filter((f) => !ordered.includes(f))];
+  return {
+    templateId: isTemplateId(stored.templateId) ? stored.templateId : DEFAULT_TEMPLATE_ID,
+    files,
+    histories,
+    activeFile: stored.activeFile,
+    isPreviewVisible: stored.isPreviewVisible ?? true,
+    previewPane: stored.previewPane === 'pdf' ? 'pdf' : 'html',
+    autoCompileDelayMs: stored.autoCompileDelayMs ?? 2000,
+    isScrollSyncEnabled: stored.isScrollSyncEnabled ?? true,
+    isDarkMode: stored.isDarkMode ?? false,
+    historyDepth,
+    isOutlineVisible: stored.isOutlineVisible ?? false,
+    isSpellCheckEnabled: stored.isSpellCheckEnabled ?? true,
+    projectDictionary: Array.isArray(stored.projectDictionary) ? stored.projectDictionary.filter((w) => typeof w === 'string') : [],
+    keybindings: readKeybindings(stored.keybindings),
+  };
+}
+
+/**
+ * Persiste o estado completo do workspace (conteúdos, histórico e preferências de UI).
+ */
+export async function saveWorkspace(state: WorkspaceState): Promise<void> {
+  const histories = Object.fromEntries(Object.entries(state.histories).map(([name, h]) => [name, serializeHistory(h)]));
+  const record: StoredWorkspace = { ...state, histories, version: WORKSPACE_VERSION, savedAt: Date.now() };
+  await idbPut('workspace', WORKSPACE_KEY, record);
+}
+
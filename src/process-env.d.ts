@@ -2,5 +2,6 @@ declare const process: {
   env: {
     API_KEY?: string;
     API_URL?: string;
+    API_TIMEOUT_MS?: string;
   }
 };
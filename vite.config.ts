@@ -7,7 +7,18 @@ export default defineConfig(({ mode }) => {
     define: {
       'process.env.API_KEY': JSON.stringify(env.API_KEY),
       'process.env.API_URL': JSON.stringify(env.API_URL),
+      'process.env.API_TIMEOUT_MS': JSON.stringify(env.API_TIMEOUT_MS),
     },
-    resolve: { alias: { '@': path.resolve(__dirname, '.') } }
+    resolve: {
+      alias: [
+        { find: '@', replacement: path.resolve(__dirname, '.') },
+        // Os pacotes de dicionário só exportam o index.js (que usa node:fs); o corretor importa os .aff/.dic como URL.
+        { find: /^dictionary-(en|pt)\/index\.(aff|dic)/, replacement: path.resolve(__dirname, 'node_modules/dictionary-$1/index.$2') },
+        // Os builds ESM do hunspell-asm e do emscripten-wasm-loader chamam como função um "import * as" do nanoid
+        // (CommonJS), que o Rollup transforma em um objeto vazio; os builds CommonJS usam require e funcionam no bundle.
+        { find: /^(hunspell-asm|emscripten-wasm-loader)$/, replacement: path.resolve(__dirname, 'node_modules/$1/dist/cjs/index.js') },
+      ],
+    },
+    worker: { format: 'es' },
   };
 });